@@ -2,6 +2,9 @@
 import { IEventDispatcher, eventBus } from '@/engine/events';
 import type { GameObject } from './GameObject';
 import { Scene } from './scene';
+import type { Collision } from './physics/types';
+import type { ColliderComponent } from './components/ColliderComponent';
+import type { Vector2 } from '@/shared/types';
 
 export abstract class Component implements IEventDispatcher {
   /** Declare required sibling components — checked at GameObject.add() time. */
@@ -13,6 +16,36 @@ export abstract class Component implements IEventDispatcher {
   onAdded(): void {}
   onRemoved(): void {}
   update(_deltaTime: number): void {}
+  /** Simulation step with a constant dt (see GameConfig.fixedTimestep). Runs before `update`. */
+  fixedUpdate(_deltaTime: number): void {}
+  /** Called when the owning GameObject's `activeInHierarchy` flips. */
+  onActiveChanged(_activeInHierarchy: boolean): void {}
+
+  /**
+   * Save-game support (opt-in): return JSON-safe state and register the class in
+   * `componentRegistry`. `deserialize` runs on a fresh instance before it is added.
+   */
+  serialize?(): unknown;
+  deserialize?(data: unknown): void;
+
+  /**
+   * Contact callbacks from PhysicsSystem, called on every component of both objects.
+   * Collisions are solid contacts (resolved), triggers — overlaps with an `isTrigger` collider.
+   * Enter/Exit fire on the fixed step the contact starts/ends, Stay on every step in between.
+   */
+  onCollisionEnter?(collision: Collision): void;
+  onCollisionStay?(collision: Collision): void;
+  onCollisionExit?(collision: Collision): void;
+  onTriggerEnter?(other: ColliderComponent): void;
+  onTriggerExit?(other: ColliderComponent): void;
+
+  /**
+   * Pointer callbacks from PointerSystem, called on every component of the one object picked
+   * under the pointer (topmost among those defining `onPointerDown`). `position` is in Pixi
+   * global coordinates. `onPointerUp` follows when the press ends or slides off the object.
+   */
+  onPointerDown?(position: Vector2): void;
+  onPointerUp?(): void;
 
   // Реализация IEventDispatcher
   on<K extends keyof import('@/engine/events/EventBus').AppEvents>(
@@ -20,9 +20,19 @@ export interface GameConfig {
   targetFPS?: number;
   enableAudio?: boolean;
   enableEffects?: boolean;
+  /**
+   * Fixed simulation step in seconds (e.g. 1/60). When set, `fixedUpdate` runs at this rate
+   * via an accumulator and renderers interpolate between steps. Omit for variable-step mode.
+   */
+  fixedTimestep?: number;
+  /** Max fixed steps per frame; the rest of the backlog is dropped to avoid a spiral of death. */
+  maxSubSteps?: number;
   pixi?: PixiConfig;
 }
 
+/** Upper bound for a single frame's dt (variable step), e.g. after a tab switch. */
+const MAX_FRAME_DELTA = 1 / 30;
+
 export class Game {
   private pixiRenderer!: PixiRenderer;
   private assetManager!: AssetManager;
@@ -35,6 +45,8 @@ export class Game {
   private isContextLost = false;
   private adEventUnsubs: (() => void)[] = [];
   private config: GameConfig;
+  private accumulator = 0;
+  private _interpolationAlpha = 1;
 
   constructor(config: GameConfig = {}, private firstScene: Scene) {
     this.config = {
@@ -43,6 +55,7 @@ export class Game {
       targetFPS: 60,
       enableAudio: true,
       enableEffects: true,
+      maxSubSteps: 5,
       ...config
     };
   }
@@ -100,8 +113,7 @@ export class Game {
       // 7. Setup game loop via PIXI ticker (single rAF, no dual-ticker desync)
       logger.info('⏱️ Setting up PIXI ticker callback...', { source: 'game' });
       this.tickerCallback = (ticker: PIXI.Ticker) => {
-        const deltaTime = Math.min(ticker.deltaMS / 1000, 1 / 30);
-        this.update(deltaTime);
+        this.tick(ticker.deltaMS / 1000);
       };
       logger.info('✅ Ticker callback ready', { source: 'game' });
 
@@ -151,15 +163,24 @@ export class Game {
       throw new Error('Игра не инициализирована. Вызовите initialize() сначала.');
     }
     logger.info('🚀 Starting game...', { source: 'game' });
-    this.firstScene.initialize(this.getManagers());
+    const managers = this.getManagers();
+    SceneManager().setManagers(managers);
+    this.firstScene.initialize(managers);
     SceneManager().switch(this.firstScene);
 
-    // Attach to PIXI ticker
-    const pixiTicker = this.pixiRenderer.getApp().ticker;
-    if (this.tickerCallback) {
+    this.resumeGame();
+    logger.info('✅ Game started, ticker running', { source: 'game' });
+  }
+
+  /**
+   * Подключить игровой цикл к PIXI ticker (после stopGame)
+   */
+  public resumeGame(): void {
+    const pixiTicker = this.pixiRenderer?.getApp()?.ticker;
+    if (pixiTicker && this.tickerCallback) {
+      pixiTicker.remove(this.tickerCallback);
       pixiTicker.add(this.tickerCallback);
     }
-    logger.info('✅ Game started, ticker running', { source: 'game' });
   }
 
   /**
@@ -173,6 +194,49 @@ export class Game {
     }
   }
 
+  /**
+   * Один кадр: шаги симуляции (фиксированные или один переменный), затем update
+   */
+  public tick(frameTime: number): void {
+    if (!this.isInitialized) {
+      logger.warn('Game не инициализирован!', { source: 'game' });
+      return;
+    }
+
+    const step = this.config.fixedTimestep;
+    if (step && step > 0) {
+      const maxSubSteps = this.config.maxSubSteps!;
+      this.accumulator += frameTime;
+      let steps = 0;
+      while (this.accumulator >= step && steps < maxSubSteps) {
+        this.fixedUpdate(step);
+        this.accumulator -= step;
+        steps++;
+      }
+      if (this.accumulator >= step) {
+        logger.debug(`Dropped ${Math.floor(this.accumulator / step)} fixed steps`, { source: 'game' });
+        this.accumulator %= step;
+      }
+      this._interpolationAlpha = this.accumulator / step;
+    } else {
+      this.fixedUpdate(Math.min(frameTime, MAX_FRAME_DELTA));
+      this._interpolationAlpha = 1;
+    }
+
+    const scene = SceneManager().current;
+    if (scene) scene.interpolationAlpha = this._interpolationAlpha;
+
+    this.update(Math.min(frameTime, MAX_FRAME_DELTA));
+  }
+
+  /**
+   * Шаг симуляции: global systems, затем сцена
+   */
+  public fixedUpdate(deltaTime: number): void {
+    for (const gs of this.globalSystems) gs.fixedUpdate(deltaTime);
+    SceneManager().fixedUpdate(deltaTime);
+  }
+
   /**
    * Обновление всех систем игры
    */
@@ -274,6 +338,13 @@ export class Game {
     return this.pixiRenderer?.getCurrentFPS() ?? 0;
   }
 
+  /**
+   * Доля накопленного времени до следующего фиксированного шага (0..1)
+   */
+  public get interpolationAlpha(): number {
+    return this._interpolationAlpha;
+  }
+
   public get isRunning(): boolean {
     return this.pixiRenderer?.getApp()?.ticker?.started ?? false;
   }
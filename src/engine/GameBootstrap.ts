@@ -13,15 +13,29 @@ import { panelPositioningService } from '@/engine/ui';
 import { InputManager } from '@/engine/input/InputManager';
 import { CoordinateService } from '@/engine/coordinates/CoordinateService';
 import { PreGameLoader } from './PreGameLoader';
-import { settingsInitService } from '@/stores/game';
+import { persistenceService, settingsInitService } from '@/stores/game';
+import { selectStorageAdapter } from '@/engine/storage';
 import { appMode } from '@/stores/ui/appState';
 import { debugConsole } from '@/engine/debug';
+import { replayService } from '@/engine/replay';
+import { EconomySystem } from '@/game/economy';
+import { modifierPipeline } from '@/game/modifiers';
+import { upgradeModifiersStore } from '@/game/upgrades';
+import { ProductionNotificationScheduler, ProductionSystem } from '@/game/production';
+import { ResearchSystem, researchModifiersStore } from '@/game/research';
+import { MarketSystem } from '@/game/market';
+import { prestigeModifiersStore } from '@/game/prestige';
+import { AchievementSystem } from '@/game/achievements';
+import { MissionSystem } from '@/game/missions';
+import { BoostSystem, boostModifiersStore } from '@/game/boosts';
+import type { NotificationService } from '@/engine/notifications';
 import type { AssetManager } from './assets/AssetManager';
 
 export class GameBootstrap {
   private game: Game | null = null;
   private unsubs: (() => void)[] = [];
   private isTeardownPending = false;
+  private storageReady: Promise<void> | null = null;
 
   async boot(config: GameConfig): Promise<Game> {
     initializeLogger();
@@ -36,6 +50,8 @@ export class GameBootstrap {
 
     domEventBridge.initialize();
 
+    await this.initStorage();
+
     logger.info('⚙️ Init settings…');
     await settingsInitService.initialize();
     logger.info('✅ Settings OK');
@@ -74,8 +90,30 @@ export class GameBootstrap {
       logger.info('✅ Игровые ассеты загружены', { source: 'bootstrap' });
     }
 
+    // Global game systems (survive scene changes). Modifier sources first —
+    // offline progress on start already depends on them
+    modifierPipeline.registerSource('upgrades', upgradeModifiersStore);
+    modifierPipeline.registerSource('research', researchModifiersStore);
+    modifierPipeline.registerSource('prestige', prestigeModifiersStore);
+    modifierPipeline.registerSource('boosts', boostModifiersStore);
+    this.game.addGlobalSystem(new AchievementSystem(this.game));
+    this.game.addGlobalSystem(new MissionSystem(this.game));
+    this.game.addGlobalSystem(new EconomySystem(this.game));
+    this.game.addGlobalSystem(new BoostSystem(this.game));
+    this.game.addGlobalSystem(new ProductionSystem(this.game));
+    this.game.addGlobalSystem(new ResearchSystem(this.game));
+    this.game.addGlobalSystem(new MarketSystem(this.game));
+    if (ServiceRegistry.has(ServiceKeys.NotificationService)) {
+      ServiceRegistry.get<NotificationService>(ServiceKeys.NotificationService)
+        .registerScheduler(new ProductionNotificationScheduler());
+    }
+
+    // Replay flags (?record, ?replay=<url>) — seeds RNG before the first scene
+    await replayService.initialize(this.game);
+
     // Start game
     this.game.startGame();
+    replayService.startFromUrl();
     logger.info('🚀 Игра запущена', { source: 'bootstrap' });
 
     // Scene switcher
@@ -96,9 +134,28 @@ export class GameBootstrap {
       })
     );
 
+    // Save slot switched — rebuild the game scene so it restores the new slot's world
+    this.unsubs.push(
+      eventBus.on('save-slot-changed', () => {
+        if (!this.game) return;
+        const sceneManager = this.game.getSceneManager();
+        if (!(sceneManager.current instanceof GameScene)) return;
+        sceneManager.replace(new GameScene(), this.game.getManagers());
+      })
+    );
+
     return this.game;
   }
 
+  /**
+   * Select the save backend for the platform and move legacy localStorage saves into it.
+   * Runs once; main.ts awaits it early to read the language preference.
+   */
+  initStorage(): Promise<void> {
+    return (this.storageReady ??= selectStorageAdapter()
+      .then(adapter => persistenceService.setAdapter(adapter)));
+  }
+
   teardown(): void {
     if (this.isTeardownPending) return;
     this.isTeardownPending = true;
@@ -111,6 +168,7 @@ export class GameBootstrap {
       }
     };
 
+    safe('replayService.destroy', () => replayService.destroy());
     safe('game.destroy', () => {
       this.game?.destroy();
       this.game = null;
@@ -1,29 +1,302 @@
 // engine/GameObject.ts
 import { Component } from "./Component";
 import type { Scene } from "./scene/Scene";
+import type { Vector2 } from "@/shared/types";
 
 let nextGameObjectId = 0;
 
+/** Resolved transform of a GameObject in scene (world) space. */
+export interface WorldTransform {
+  x: number;
+  y: number;
+  rotation: number;
+  scale: number;
+}
+
 export class GameObject {
   id: number = nextGameObjectId++;
   name = "";
+  /** Local transform — relative to the parent, or to the scene for root objects. */
   x = 0;
   y = 0;
   rotation = 0;
   scale = 1;
-  active = true;
   
   scene: Scene | null = null;
   private inScene = false;
+  private _active = true;
+  private _parent: GameObject | null = null;
+  private _children: GameObject[] = [];
+  /** Local transform at the start of the last fixed step — used for render interpolation. */
+  private prevX = 0;
+  private prevY = 0;
+  private prevRotation = 0;
+  private prevScale = 1;
+  /** Local transform as the last fixed step left it. Channels that differ were moved from `update()`. */
+  private stepX = 0;
+  private stepY = 0;
+  private stepRotation = 0;
+  private stepScale = 1;
   private components: Component[] = [];
   private componentIndex = new Map<Function, Component>();
 
+  /** Own active flag. Use `activeInHierarchy` to account for inactive ancestors. */
+  get active(): boolean {
+    return this._active;
+  }
+
+  set active(value: boolean) {
+    if (this._active === value) return;
+    const wasActive = this.activeInHierarchy;
+    this._active = value;
+    if (wasActive !== this.activeInHierarchy) this.propagateActiveChange();
+  }
+
+  /** True only if this object and all of its ancestors are active. */
+  get activeInHierarchy(): boolean {
+    return this._active && (this._parent?.activeInHierarchy ?? true);
+  }
+
+  get parent(): GameObject | null {
+    return this._parent;
+  }
+
+  get children(): readonly GameObject[] {
+    return this._children;
+  }
+
+  /**
+   * Destroys the whole subtree: children first, then detaches from the parent
+   * and leaves the scene.
+   */
   destroy(): void {
+    for (let i = this._children.length - 1; i >= 0; i--) {
+      this._children[i].destroy();
+    }
+    this._parent?.removeChild(this);
     if (this.scene) {
       this.scene.remove(this);
     }
   }
 
+  // ===== Hierarchy =====
+
+  /**
+   * Attach a child. The child follows this object into (or out of) its scene.
+   * @param keepWorldTransform - keep the child's current world transform instead of its local one.
+   */
+  addChild(child: GameObject, keepWorldTransform = false): this {
+    if (child === this || child.isAncestorOf(this)) {
+      throw new Error(
+        `[${this.name || `GO#${this.id}`}] cannot parent ${child.name || `GO#${child.id}`}: it would create a cycle.`
+      );
+    }
+    if (child._parent === this) return this;
+
+    const world = keepWorldTransform ? child.getWorldTransform() : null;
+    const wasActive = child.activeInHierarchy;
+
+    child._parent?.removeChild(child);
+    if (child.scene && child.scene !== this.scene) {
+      child.scene.remove(child);
+    }
+
+    child._parent = this;
+    this._children.push(child);
+    if (world) child.setWorldTransform(world);
+
+    if (this.scene && child.scene !== this.scene) {
+      this.scene.add(child);
+    }
+    if (wasActive !== child.activeInHierarchy) child.propagateActiveChange();
+    return this;
+  }
+
+  /**
+   * Detach a child. It stays in the scene as a root object.
+   * @param keepWorldTransform - keep the child's current world transform instead of its local one.
+   */
+  removeChild(child: GameObject, keepWorldTransform = false): this {
+    const index = this._children.indexOf(child);
+    if (index < 0) return this;
+
+    const world = keepWorldTransform ? child.getWorldTransform() : null;
+    const wasActive = child.activeInHierarchy;
+
+    this._children.splice(index, 1);
+    child._parent = null;
+    if (world) child.setWorldTransform(world);
+
+    if (wasActive !== child.activeInHierarchy) child.propagateActiveChange();
+    return this;
+  }
+
+  setParent(parent: GameObject | null, keepWorldTransform = false): this {
+    if (parent) {
+      parent.addChild(this, keepWorldTransform);
+    } else {
+      this._parent?.removeChild(this, keepWorldTransform);
+    }
+    return this;
+  }
+
+  isAncestorOf(other: GameObject): boolean {
+    for (let p = other._parent; p; p = p._parent) {
+      if (p === this) return true;
+    }
+    return false;
+  }
+
+  // ===== World transform =====
+
+  /**
+   * Compose local transforms up the parent chain.
+   * Pass `out` to avoid allocating in per-frame code.
+   */
+  getWorldTransform(out: WorldTransform = { x: 0, y: 0, rotation: 0, scale: 1 }): WorldTransform {
+    return this.composeWorldTransform(out, 1);
+  }
+
+  /**
+   * World transform blended between the previous and the current fixed step.
+   * `alpha` is `scene.interpolationAlpha`; 1 gives the current transform. Channels changed
+   * since the last fixed step (moved from `update()` or a tween) aren't blended — they're
+   * already per-frame. Rotation takes the shorter way round.
+   */
+  getInterpolatedWorldTransform(alpha: number, out: WorldTransform = { x: 0, y: 0, rotation: 0, scale: 1 }): WorldTransform {
+    return this.composeWorldTransform(out, alpha);
+  }
+
+  /** Snapshot the current transform as "previous". Call after teleporting to avoid smearing. */
+  resetInterpolation(): this {
+    for (const child of this._children) child.resetInterpolation();
+    this._capturePreviousTransform();
+    this._captureStepTransform();
+    return this;
+  }
+
+  /** @internal Called by Scene before each fixed step. */
+  _capturePreviousTransform(): void {
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.prevRotation = this.rotation;
+    this.prevScale = this.scale;
+  }
+
+  /** @internal Called by Scene after each fixed step. */
+  _captureStepTransform(): void {
+    this.stepX = this.x;
+    this.stepY = this.y;
+    this.stepRotation = this.rotation;
+    this.stepScale = this.scale;
+  }
+
+  private composeWorldTransform(out: WorldTransform, alpha: number): WorldTransform {
+    const blend = alpha < 1;
+    const x = blend && this.x === this.stepX ? this.prevX + (this.x - this.prevX) * alpha : this.x;
+    const y = blend && this.y === this.stepY ? this.prevY + (this.y - this.prevY) * alpha : this.y;
+    const rotation = blend && this.rotation === this.stepRotation
+      ? this.prevRotation + shortestAngle(this.prevRotation, this.rotation) * alpha
+      : this.rotation;
+    const scale = blend && this.scale === this.stepScale ? this.prevScale + (this.scale - this.prevScale) * alpha : this.scale;
+
+    if (!this._parent) {
+      out.x = x;
+      out.y = y;
+      out.rotation = rotation;
+      out.scale = scale;
+      return out;
+    }
+
+    this._parent.composeWorldTransform(out, alpha);
+    const cos = Math.cos(out.rotation);
+    const sin = Math.sin(out.rotation);
+    const lx = x * out.scale;
+    const ly = y * out.scale;
+    out.x += lx * cos - ly * sin;
+    out.y += lx * sin + ly * cos;
+    out.rotation += rotation;
+    out.scale *= scale;
+    return out;
+  }
+
+  getWorldPosition(out: Vector2 = { x: 0, y: 0 }): Vector2 {
+    const world = this.getWorldTransform();
+    out.x = world.x;
+    out.y = world.y;
+    return out;
+  }
+
+  getWorldRotation(): number {
+    return this.getWorldTransform().rotation;
+  }
+
+  getWorldScale(): number {
+    return this.getWorldTransform().scale;
+  }
+
+  /** Move the object so that its world position becomes (x, y). */
+  setWorldPosition(x: number, y: number): this {
+    if (this._parent) {
+      const local = this._parent.worldToLocal(x, y);
+      this.x = local.x;
+      this.y = local.y;
+    } else {
+      this.x = x;
+      this.y = y;
+    }
+    return this;
+  }
+
+  /** Convert a point from this object's local space to world space. */
+  localToWorld(x: number, y: number, out: Vector2 = { x: 0, y: 0 }): Vector2 {
+    const world = this.getWorldTransform();
+    const cos = Math.cos(world.rotation);
+    const sin = Math.sin(world.rotation);
+    const lx = x * world.scale;
+    const ly = y * world.scale;
+    out.x = world.x + lx * cos - ly * sin;
+    out.y = world.y + lx * sin + ly * cos;
+    return out;
+  }
+
+  /** Convert a point from world space to this object's local space. */
+  worldToLocal(x: number, y: number, out: Vector2 = { x: 0, y: 0 }): Vector2 {
+    const world = this.getWorldTransform();
+    const cos = Math.cos(-world.rotation);
+    const sin = Math.sin(-world.rotation);
+    const dx = x - world.x;
+    const dy = y - world.y;
+    const invScale = world.scale !== 0 ? 1 / world.scale : 0;
+    out.x = (dx * cos - dy * sin) * invScale;
+    out.y = (dx * sin + dy * cos) * invScale;
+    return out;
+  }
+
+  private setWorldTransform(world: WorldTransform): void {
+    if (!this._parent) {
+      this.x = world.x;
+      this.y = world.y;
+      this.rotation = world.rotation;
+      this.scale = world.scale;
+      return;
+    }
+    const parentWorld = this._parent.getWorldTransform();
+    const local = this._parent.worldToLocal(world.x, world.y);
+    this.x = local.x;
+    this.y = local.y;
+    this.rotation = world.rotation - parentWorld.rotation;
+    this.scale = parentWorld.scale !== 0 ? world.scale / parentWorld.scale : world.scale;
+  }
+
+  private propagateActiveChange(): void {
+    const activeInHierarchy = this.activeInHierarchy;
+    for (const component of this.components) component.onActiveChanged(activeInHierarchy);
+    for (const child of this._children) {
+      if (child._active) child.propagateActiveChange();
+    }
+  }
+
   addToScene(scene: Scene) {
     scene.add(this);
     return this;
@@ -81,7 +354,7 @@ export class GameObject {
     return this;
   }
 
-  get<T extends Component>(ComponentClass: new (...args: any[]) => T): T | undefined {
+  get<T extends Component>(ComponentClass: abstract new (...args: any[]) => T): T | undefined {
     // Fast path for exact match
     const component = this.componentIndex.get(ComponentClass);
     if (component) {
@@ -102,7 +375,7 @@ export class GameObject {
     return [...this.components];
   }
 
-  has<T extends Component>(ComponentClass: new (...args: any[]) => T): boolean {
+  has<T extends Component>(ComponentClass: abstract new (...args: any[]) => T): boolean {
     // Fast path for exact match
     if (this.componentIndex.has(ComponentClass)) {
       return true;
@@ -127,30 +400,36 @@ export class GameObject {
     return false;
   }
 
-  require<T extends Component>(ComponentClass: new (...args: any[]) => T) {
+  require<T extends Component>(ComponentClass: abstract new (...args: any[]) => T) {
     const component = this.get(ComponentClass);
     if (!component) throw new Error(`[${this.name}] missing ${ComponentClass.name}`);
     return component;
   }
 
-  remove<T extends Component>(ComponentClass: new (...args: any[]) => T) {
+  remove<T extends Component>(ComponentClass: abstract new (...args: any[]) => T) {
     const component = this.get(ComponentClass);
     if (!component) return;
     if (this.inScene) {
       component.onRemoved();
-      this.scene!.componentIndex.untrack(this, ComponentClass);
     }
-    this.componentIndex.delete(ComponentClass);
+    // May be a subclass of ComponentClass — index by the actual constructor
+    this.componentIndex.delete(component.constructor);
     const index = this.components.indexOf(component);
     if (index >= 0) {
       this.components[index] = this.components[this.components.length - 1];
       this.components.pop();
     }
+    if (this.inScene) {
+      // Untrack after removal so cached queries see the new component set
+      this.scene!.componentIndex.untrack(this, component.constructor);
+    }
   }
 
   _onAddedToScene(scene: Scene) {
     this.scene = scene;
     this.inScene = true;
+    this._capturePreviousTransform();
+    this._captureStepTransform();
     for (const component of this.components) {
       component.scene = scene;
       component.onAdded();
@@ -164,9 +443,26 @@ export class GameObject {
     this.inScene = false;
   }
 
+  /** Fixed-step simulation for components, then children. Called by Scene for root objects only. */
+  fixedUpdate(deltaTime: number) {
+    if (!this._active) return;
+    for (const component of this.components) component.fixedUpdate(deltaTime);
+    for (const child of this._children) child.fixedUpdate(deltaTime);
+  }
+
+  /** Updates components, then children. Called by Scene for root objects only. */
   update(deltaTime: number) {
-    if (!this.active) return;
+    if (!this._active) return;
     for (const component of this.components) component.update(deltaTime);
+    for (const child of this._children) child.update(deltaTime);
   }
 
 }
+
+/** Signed turn from `from` to `to` in (-π, π] */
+function shortestAngle(from: number, to: number): number {
+  const turn = (to - from) % (Math.PI * 2);
+  if (turn > Math.PI) return turn - Math.PI * 2;
+  if (turn <= -Math.PI) return turn + Math.PI * 2;
+  return turn;
+}
@@ -273,14 +273,17 @@ export class AssetLoader {
 
   /**
    * Загрузка группы ресурсов
+   * @param onProgress - вызывается после каждой текстуры с прогрессом 0..1
    */
   public async loadTextureGroup(
     assetPaths: Record<string, string>, 
-    assetNameMapper: (key: string) => string
+    assetNameMapper: (key: string) => string,
+    onProgress?: (progress: number) => void
   ): Promise<void> {
-    for (const [key] of Object.entries(assetPaths)) {
-      const asset = assetNameMapper(key);
-      await this.loadTexture(asset);
+    const keys = Object.keys(assetPaths);
+    for (let i = 0; i < keys.length; i++) {
+      await this.loadTexture(assetNameMapper(keys[i]));
+      onProgress?.((i + 1) / keys.length);
     }
   }
 
@@ -0,0 +1,43 @@
+// engine/components/BoxColliderComponent.ts
+import { componentRegistry } from '@/engine/serialization/ComponentRegistry';
+import { polygonShape, type PolygonShape } from '@/engine/physics/shapes';
+import { ColliderComponent, type ColliderConfig } from './ColliderComponent';
+
+export interface BoxColliderConfig extends ColliderConfig {
+  width: number;
+  height: number;
+  axisAligned?: boolean; // AABB: ignores the object's rotation
+}
+
+/** Rectangle centred on the object; turns with it unless `axisAligned` */
+export class BoxColliderComponent extends ColliderComponent {
+  width: number;
+  height: number;
+  axisAligned: boolean;
+
+  constructor(cfg: BoxColliderConfig) {
+    super(cfg);
+    this.width = cfg.width;
+    this.height = cfg.height;
+    this.axisAligned = cfg.axisAligned ?? false;
+  }
+
+  getShape(): PolygonShape {
+    const hw = this.width / 2;
+    const hh = this.height / 2;
+    const corners = [{ x: -hw, y: -hh }, { x: hw, y: -hh }, { x: hw, y: hh }, { x: -hw, y: hh }];
+    const { x, y, rotation, scale } = this.shapeTransform();
+    return polygonShape(corners, x, y, this.axisAligned ? 0 : rotation, scale);
+  }
+
+  serialize(): Required<BoxColliderConfig> {
+    const { width, height, axisAligned } = this;
+    return { ...this.serializeCollider(), width, height, axisAligned };
+  }
+
+  deserialize(data: unknown): void {
+    Object.assign(this, new BoxColliderComponent(data as BoxColliderConfig).serialize());
+  }
+}
+
+componentRegistry.register('BoxCollider', BoxColliderComponent, () => new BoxColliderComponent({ width: 0, height: 0 }));
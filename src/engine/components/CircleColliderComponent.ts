@@ -1,29 +1,32 @@
 // engine/components/CircleColliderComponent.ts
-import { Component } from '@/engine/Component';
+import { componentRegistry } from '@/engine/serialization/ComponentRegistry';
+import type { CircleShape } from '@/engine/physics/shapes';
+import { ColliderComponent, type ColliderConfig } from './ColliderComponent';
 
-export interface CircleColliderConfig {
+export interface CircleColliderConfig extends ColliderConfig {
   radius: number;
-  isTrigger?: boolean;
-  bounciness?: number; // 0..1 override for restitution
-  friction?: number; // 0..1 simple tangential damping on collision
-  collideWithBounds?: boolean;
 }
 
-export class CircleColliderComponent extends Component {
+export class CircleColliderComponent extends ColliderComponent {
   radius: number;
-  isTrigger: boolean;
-  bounciness: number;
-  friction: number;
-  collideWithBounds: boolean;
 
   constructor(cfg: CircleColliderConfig) {
-    super();
+    super(cfg);
     this.radius = cfg.radius;
-    this.isTrigger = cfg.isTrigger ?? false;
-    this.bounciness = Math.min(1, Math.max(0, cfg.bounciness ?? 0.6));
-    this.friction = Math.min(1, Math.max(0, cfg.friction ?? 0.02));
-    this.collideWithBounds = cfg.collideWithBounds ?? true;
   }
-}
 
+  getShape(): CircleShape {
+    const { x, y, scale } = this.shapeTransform();
+    return { kind: 'circle', x, y, radius: this.radius * scale };
+  }
+
+  serialize(): Required<CircleColliderConfig> {
+    return { ...this.serializeCollider(), radius: this.radius };
+  }
+
+  deserialize(data: unknown): void {
+    Object.assign(this, new CircleColliderComponent(data as CircleColliderConfig).serialize());
+  }
+}
 
+componentRegistry.register('CircleCollider', CircleColliderComponent, () => new CircleColliderComponent({ radius: 0 }));
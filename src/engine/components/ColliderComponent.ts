@@ -0,0 +1,73 @@
+// engine/components/ColliderComponent.ts
+import { Component } from '@/engine/Component';
+import type { WorldTransform } from '@/engine/GameObject';
+import { CollisionLayers } from '@/engine/physics/types';
+import type { ColliderShape } from '@/engine/physics/shapes';
+
+export interface ColliderConfig {
+  isTrigger?: boolean; // overlap callbacks only, never pushed apart
+  bounciness?: number; // 0..1 override for restitution
+  friction?: number; // 0..1 simple tangential damping on collision
+  collideWithBounds?: boolean;
+  /**
+   * Report contacts although PhysicsSystem doesn't move this body (no VelocityComponent or
+   * collideWithBounds off) — static triggers, bodies moved by their own components
+   */
+  staticContacts?: boolean;
+  layer?: number; // CollisionLayers bit(s) this collider is on
+  mask?: number; // layers it reports contacts with
+  offsetX?: number; // scene px, not turned with the object — like PixiSpriteRenderer's offset
+  offsetY?: number;
+}
+
+/**
+ * Shared settings of all collider shapes. PhysicsSystem queries this base class,
+ * so one object should carry a single collider. Shapes follow the object's world
+ * transform, so colliders work on child objects too.
+ */
+export abstract class ColliderComponent extends Component {
+  isTrigger: boolean;
+  bounciness: number;
+  friction: number;
+  collideWithBounds: boolean;
+  staticContacts: boolean;
+  layer: number;
+  mask: number;
+  offsetX: number;
+  offsetY: number;
+  private readonly world: WorldTransform = { x: 0, y: 0, rotation: 0, scale: 1 };
+
+  constructor(cfg: ColliderConfig) {
+    super();
+    this.isTrigger = cfg.isTrigger ?? false;
+    this.bounciness = Math.min(1, Math.max(0, cfg.bounciness ?? 0.6));
+    this.friction = Math.min(1, Math.max(0, cfg.friction ?? 0.02));
+    this.collideWithBounds = cfg.collideWithBounds ?? true;
+    this.staticContacts = cfg.staticContacts ?? false;
+    this.layer = cfg.layer ?? CollisionLayers.DEFAULT;
+    this.mask = cfg.mask ?? CollisionLayers.ALL;
+    this.offsetX = cfg.offsetX ?? 0;
+    this.offsetY = cfg.offsetY ?? 0;
+  }
+
+  /** Both masks have to accept the other's layer */
+  collidesWith(other: ColliderComponent): boolean {
+    return (this.mask & other.layer) !== 0 && (other.mask & this.layer) !== 0;
+  }
+
+  /** Shape at the object's current world position, rotation and scale */
+  abstract getShape(): ColliderShape;
+
+  /** Where the shape sits: the object's world transform shifted by the offset. Reused between calls */
+  protected shapeTransform(): Readonly<WorldTransform> {
+    const world = this.gameObject.getWorldTransform(this.world);
+    world.x += this.offsetX;
+    world.y += this.offsetY;
+    return world;
+  }
+
+  protected serializeCollider(): Required<ColliderConfig> {
+    const { isTrigger, bounciness, friction, collideWithBounds, staticContacts, layer, mask, offsetX, offsetY } = this;
+    return { isTrigger, bounciness, friction, collideWithBounds, staticContacts, layer, mask, offsetX, offsetY };
+  }
+}
@@ -3,6 +3,10 @@ import { Component } from '../Component';
 import * as PIXI from 'pixi.js';
 import type { ITweenable } from './ITweenable';
 import { logger } from '../logging';
+import type { WorldTransform } from '../GameObject';
+import { FormatUtils } from '@/shared/utils';
+import type { BigNumSource } from '@/shared/bignum';
+import type { NumberNotation } from '@/shared/numberFormat';
 
 export interface IconTextConfig {
   iconTexture?: PIXI.Texture;
@@ -26,6 +30,7 @@ export class IconTextRenderer extends Component implements ITweenable {
   public textSprite: PIXI.Text;
   protected pixiContainer: PIXI.Container | null;
   protected config: IconTextConfig;
+  private _world: WorldTransform = { x: 0, y: 0, rotation: 0, scale: 1 };
 
   constructor(pixiContainer: PIXI.Container | null, config: IconTextConfig) {
     super();
@@ -82,6 +87,10 @@ export class IconTextRenderer extends Component implements ITweenable {
     }
   }
 
+  onActiveChanged() {
+    this.syncWithGameObject();
+  }
+
   update(_deltaTime: number) {
     this.syncWithGameObject();
   }
@@ -92,12 +101,15 @@ export class IconTextRenderer extends Component implements ITweenable {
   protected syncWithGameObject() {
     if (!this.gameObject) return;
     
-    this.container.x = this.gameObject.x;
-    this.container.y = this.gameObject.y;
-    this.container.rotation = this.gameObject.rotation;
-    this.container.scale.set(this.gameObject.scale);
-    this.container.alpha = this.gameObject.active ? this.config.alpha! : 0;
-    this.container.visible = this.gameObject.active && this.config.visible!;
+    const alpha = this.gameObject.scene?.interpolationAlpha ?? 1;
+    const world = this.gameObject.getInterpolatedWorldTransform(alpha, this._world);
+    const active = this.gameObject.activeInHierarchy;
+    this.container.x = world.x;
+    this.container.y = world.y;
+    this.container.rotation = world.rotation;
+    this.container.scale.set(world.scale);
+    this.container.alpha = active ? this.config.alpha! : 0;
+    this.container.visible = active && this.config.visible!;
   }
 
   /**
@@ -181,6 +193,13 @@ export class IconTextRenderer extends Component implements ITweenable {
     this.layoutElements();
   }
 
+  /**
+   * Показать число (в т.ч. BigNum) в формате из настроек игрока или в явно заданном
+   */
+  setNumber(value: BigNumSource, notation?: NumberNotation) {
+    this.setText(FormatUtils.formatNumber(value, notation));
+  }
+
   /**
    * Установить размер иконки
    */
@@ -2,11 +2,15 @@
 import { Component } from '../Component';
 import * as PIXI from 'pixi.js';
 import type { ITweenable } from './ITweenable';
+import type { WorldTransform } from '../GameObject';
+import { componentRegistry } from '../serialization/ComponentRegistry';
 
 export type VisibilityBinding = 'inherit' | 'manual' | 'and' | 'or';
 
 export interface SpriteRendererConfig {
   texture?: PIXI.Texture;
+  /** Asset alias of the texture. Resolved from PIXI.Assets when `texture` is not given; needed for save games. */
+  textureId?: string;
   x?: number;
   y?: number;
   offsetX?: number;
@@ -31,6 +35,7 @@ export class PixiSpriteRenderer extends Component implements ITweenable {
   protected config: SpriteRendererConfig;
   private _localVisible: boolean;
   private _binding: VisibilityBinding;
+  private _world: WorldTransform = { x: 0, y: 0, rotation: 0, scale: 1 };
 
   /**
    * @param configOrContainer - SpriteRendererConfig (container resolved from scene.defaultContainer),
@@ -52,7 +57,7 @@ export class PixiSpriteRenderer extends Component implements ITweenable {
 
     this._localVisible = !!this.config.visible;
     this._binding = this.config.visibilityBinding!;
-    this.sprite = new PIXI.Sprite(this.config.texture || PIXI.Texture.WHITE);
+    this.sprite = new PIXI.Sprite(this.config.texture || this.resolveTexture(this.config.textureId));
     this.applyConfig();
     
     // Применяем фильтры если есть
@@ -79,6 +84,10 @@ export class PixiSpriteRenderer extends Component implements ITweenable {
     }
   }
 
+  onActiveChanged() {
+    this.updateVisibility();
+  }
+
   update(deltaTime: number) {
     // Синхронизируем с трансформацией родительского GameObject
     this.syncWithGameObject();
@@ -99,12 +108,14 @@ export class PixiSpriteRenderer extends Component implements ITweenable {
   protected syncWithGameObject() {
     if (!this.gameObject) return;
     
-    // Применяем трансформацию GameObject + offset спрайта
-    this.sprite.x = this.gameObject.x + this.config.offsetX!;
-    this.sprite.y = this.gameObject.y + this.config.offsetY!;
-    this.sprite.rotation = this.gameObject.rotation;
+    // Применяем мировую трансформацию GameObject + offset спрайта
+    const alpha = this.gameObject.scene?.interpolationAlpha ?? 1;
+    const world = this.gameObject.getInterpolatedWorldTransform(alpha, this._world);
+    this.sprite.x = world.x + this.config.offsetX!;
+    this.sprite.y = world.y + this.config.offsetY!;
+    this.sprite.rotation = world.rotation;
     // Комбинируем scale из конфига и GameObject
-    this.sprite.scale.set(this.config.scale! * this.gameObject.scale);
+    this.sprite.scale.set(this.config.scale! * world.scale);
     this.updateVisibility();
   }
 
@@ -125,7 +136,7 @@ export class PixiSpriteRenderer extends Component implements ITweenable {
    * Обновить видимость спрайта на основе режима привязки
    */
   protected updateVisibility() {
-    const inherited = this.gameObject ? this.gameObject.active : true;
+    const inherited = this.gameObject ? this.gameObject.activeInHierarchy : true;
     let v = true;
     switch (this._binding) {
       case 'manual': v = this._localVisible; break;
@@ -170,6 +181,13 @@ export class PixiSpriteRenderer extends Component implements ITweenable {
     return { x: this.config.offsetX!, y: this.config.offsetY! };
   }
 
+  /**
+   * Масштаб спрайта из конфига (умножается на масштаб GameObject)
+   */
+  getSpriteScale(): number {
+    return this.config.scale!;
+  }
+
   /**
    * Установить позицию спрайта (синхронизирует с GameObject)
    */
@@ -243,10 +261,40 @@ export class PixiSpriteRenderer extends Component implements ITweenable {
   /**
    * Установить новую текстуру
    */
-  setTexture(texture: PIXI.Texture) {
+  setTexture(texture: PIXI.Texture, textureId?: string) {
     this.sprite.texture = texture;
     // Обновляем конфигурацию
     this.config.texture = texture;
+    this.config.textureId = textureId;
+  }
+
+  /**
+   * Состояние для сохранения. Текстура сохраняется по `textureId`, фильтры не сохраняются
+   */
+  serialize(): Omit<SpriteRendererConfig, 'texture' | 'filters'> {
+    return {
+      textureId: this.config.textureId,
+      offsetX: this.config.offsetX,
+      offsetY: this.config.offsetY,
+      scale: this.config.scale,
+      alpha: this.sprite.alpha,
+      tint: this.sprite.tint,
+      anchor: { x: this.sprite.anchor.x, y: this.sprite.anchor.y },
+      visible: this._localVisible,
+      visibilityBinding: this._binding,
+    };
+  }
+
+  deserialize(data: unknown): void {
+    this.config = { ...this.config, ...(data as SpriteRendererConfig), texture: undefined };
+    this._localVisible = !!this.config.visible;
+    this._binding = this.config.visibilityBinding!;
+    this.sprite.texture = this.resolveTexture(this.config.textureId);
+    this.applyConfig();
+  }
+
+  private resolveTexture(textureId: string | undefined): PIXI.Texture {
+    return (textureId && PIXI.Assets.get<PIXI.Texture>(textureId)) || PIXI.Texture.WHITE;
   }
 
   /**
@@ -343,3 +391,5 @@ export class PixiSpriteRenderer extends Component implements ITweenable {
     this.sprite.destroy();
   }
 }
+
+componentRegistry.register('PixiSpriteRenderer', PixiSpriteRenderer, () => new PixiSpriteRenderer({}));
@@ -3,6 +3,10 @@ import { Component } from '../Component';
 import { logger } from '../logging';
 import * as PIXI from 'pixi.js';
 import type { ITweenable } from './ITweenable';
+import type { WorldTransform } from '../GameObject';
+import { FormatUtils } from '@/shared/utils';
+import type { BigNumSource } from '@/shared/bignum';
+import type { NumberNotation } from '@/shared/numberFormat';
 
 export interface TextRendererConfig {
   text: string;
@@ -26,6 +30,7 @@ export class PixiTextRenderer extends Component implements ITweenable {
   public textSprite: PIXI.Text;
   protected pixiContainer: PIXI.Container | null;
   protected config: TextRendererConfig;
+  private _world: WorldTransform = { x: 0, y: 0, rotation: 0, scale: 1 };
 
   constructor(pixiContainer: PIXI.Container | null, config: TextRendererConfig) {
     super();
@@ -76,12 +81,18 @@ export class PixiTextRenderer extends Component implements ITweenable {
   protected syncWithGameObject() {
     if (!this.gameObject) return;
     
-    // Применяем трансформацию GameObject + offset текста
-    this.textSprite.x = this.gameObject.x + this.config.offsetX!;
-    this.textSprite.y = this.gameObject.y + this.config.offsetY!;
-    this.textSprite.rotation = this.gameObject.rotation;
-    this.textSprite.scale.set(this.gameObject.scale);
-    this.textSprite.visible = this.gameObject.active;
+    // Применяем мировую трансформацию GameObject + offset текста
+    const alpha = this.gameObject.scene?.interpolationAlpha ?? 1;
+    const world = this.gameObject.getInterpolatedWorldTransform(alpha, this._world);
+    this.textSprite.x = world.x + this.config.offsetX!;
+    this.textSprite.y = world.y + this.config.offsetY!;
+    this.textSprite.rotation = world.rotation;
+    this.textSprite.scale.set(world.scale);
+    this.textSprite.visible = this.gameObject.activeInHierarchy;
+  }
+
+  onActiveChanged(activeInHierarchy: boolean) {
+    this.textSprite.visible = activeInHierarchy;
   }
 
   /**
@@ -206,6 +217,13 @@ export class PixiTextRenderer extends Component implements ITweenable {
     this.textSprite.text = text;
   }
 
+  /**
+   * Показать число (в т.ч. BigNum) в формате из настроек игрока или в явно заданном
+   */
+  setNumber(value: BigNumSource, notation?: NumberNotation) {
+    this.setText(FormatUtils.formatNumber(value, notation));
+  }
+
   /**
    * Получить текущий текст
    */
@@ -0,0 +1,118 @@
+// engine/components/PolygonColliderComponent.ts
+import * as PIXI from 'pixi.js';
+import { logger } from '@/engine/logging';
+import { ServiceRegistry, ServiceKeys } from '@/engine/registry';
+import { componentRegistry } from '@/engine/serialization/ComponentRegistry';
+import { alphaOutline } from '@/engine/physics/alphaOutline';
+import { convexHull, polygonShape, type ColliderShape } from '@/engine/physics/shapes';
+import type { Vector2 } from '@/shared/types';
+import { ColliderComponent, type ColliderConfig } from './ColliderComponent';
+import { PixiSpriteRenderer } from './PixiSpriteRenderer';
+
+export interface PolygonColliderConfig extends ColliderConfig {
+  points?: Vector2[]; // local space, any order — the convex hull is used
+  fromSprite?: boolean; // fit to the sibling PixiSpriteRenderer's alpha when added
+  alphaThreshold?: number; // 0..255, for fromSprite
+  maxVertices?: number; // hull corners kept, for fromSprite
+}
+
+/** Outlines per texture and settings — extracting pixels is a GPU readback */
+const outlineCache = new WeakMap<PIXI.Texture, Map<string, Vector2[] | null>>();
+
+/**
+ * Convex polygon turning with the object. Concave input (Voronoi shards of a jagged
+ * rock, sprite silhouettes) collides as its convex hull. With `fromSprite` the outline
+ * comes from the sprite's opaque pixels; call `fitToSprite()` again after changing the texture,
+ * the renderer's scale or its offset.
+ */
+export class PolygonColliderComponent extends ColliderComponent {
+  points: Vector2[] = [];
+  fromSprite: boolean;
+  alphaThreshold: number;
+  maxVertices: number;
+
+  constructor(cfg: PolygonColliderConfig = {}) {
+    super(cfg);
+    this.setPoints(cfg.points ?? []);
+    this.fromSprite = cfg.fromSprite ?? false;
+    this.alphaThreshold = cfg.alphaThreshold ?? 128;
+    this.maxVertices = cfg.maxVertices ?? 8;
+  }
+
+  onAdded(): void {
+    if (this.fromSprite) this.fitToSprite();
+  }
+
+  setPoints(points: readonly Vector2[]): this {
+    this.points = convexHull(points);
+    return this;
+  }
+
+  /**
+   * Outline of the sibling sprite's texture around its anchor, scaled and offset the way
+   * the renderer draws it. False when it can't be read
+   */
+  fitToSprite(): boolean {
+    const renderer = this.gameObject.get(PixiSpriteRenderer);
+    const sprite = renderer?.sprite;
+    if (!renderer || !sprite || !ServiceRegistry.has(ServiceKeys.PixiApp)) return false;
+
+    const outline = this.textureOutline(sprite.texture);
+    if (!outline) return false;
+
+    const { width, height } = sprite.texture;
+    const anchorX = sprite.anchor.x * width;
+    const anchorY = sprite.anchor.y * height;
+    const scale = renderer.getSpriteScale();
+    this.setPoints(outline.map(p => ({ x: (p.x - anchorX) * scale, y: (p.y - anchorY) * scale })));
+    const offset = renderer.getOffset();
+    this.offsetX = offset.x;
+    this.offsetY = offset.y;
+    return true;
+  }
+
+  /** A hull of fewer than 3 points collides as a single point */
+  getShape(): ColliderShape {
+    const { x, y, rotation, scale } = this.shapeTransform();
+    if (this.points.length < 3) return { kind: 'circle', x, y, radius: 0 };
+    return polygonShape(this.points, x, y, rotation, scale);
+  }
+
+  serialize(): Required<PolygonColliderConfig> {
+    const { fromSprite, alphaThreshold, maxVertices } = this;
+    return { ...this.serializeCollider(), points: this.points.map(p => ({ x: p.x, y: p.y })), fromSprite, alphaThreshold, maxVertices };
+  }
+
+  deserialize(data: unknown): void {
+    Object.assign(this, new PolygonColliderComponent(data as PolygonColliderConfig).serialize());
+  }
+
+  /** Outline in texture px from the top-left corner */
+  private textureOutline(texture: PIXI.Texture): Vector2[] | null {
+    const key = `${this.alphaThreshold}:${this.maxVertices}`;
+    let byKey = outlineCache.get(texture);
+    if (byKey?.has(key)) return byKey.get(key)!;
+
+    let outline: Vector2[] | null = null;
+    try {
+      const app = ServiceRegistry.get<PIXI.Application>(ServiceKeys.PixiApp);
+      const { pixels, width, height } = app.renderer.extract.pixels({ target: texture });
+      // Extracted at the texture's resolution — back to texture px
+      const scaleX = texture.width / width;
+      const scaleY = texture.height / height;
+      outline = alphaOutline(pixels, width, height, { alphaThreshold: this.alphaThreshold, maxVertices: this.maxVertices })
+        ?.map(p => ({ x: p.x * scaleX, y: p.y * scaleY })) ?? null;
+    } catch (error) {
+      logger.warn('⚠️ Failed to read sprite alpha for collider', { error, source: 'physics' });
+    }
+
+    if (!byKey) {
+      byKey = new Map();
+      outlineCache.set(texture, byKey);
+    }
+    byKey.set(key, outline);
+    return outline;
+  }
+}
+
+componentRegistry.register('PolygonCollider', PolygonColliderComponent);
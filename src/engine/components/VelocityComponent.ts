@@ -1,5 +1,6 @@
 // engine/components/VelocityComponent.ts
 import { Component } from '@/engine/Component';
+import { componentRegistry } from '@/engine/serialization/ComponentRegistry';
 
 export interface VelocityConfig {
   vx?: number;
@@ -33,6 +34,17 @@ export class VelocityComponent extends Component {
     this.angularDamping = Math.max(0, cfg.angularDamping ?? 1.0);
     this.immovable = cfg.immovable ?? false;
   }
+
+  serialize(): Required<VelocityConfig> {
+    const { vx, vy, angular, mass, restitution, linearDamping, angularDamping, immovable } = this;
+    return { vx, vy, angular, mass, restitution, linearDamping, angularDamping, immovable };
+  }
+
+  deserialize(data: unknown): void {
+    Object.assign(this, new VelocityComponent(data as VelocityConfig).serialize());
+  }
 }
 
+componentRegistry.register('Velocity', VelocityComponent);
+
 
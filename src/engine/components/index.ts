@@ -4,10 +4,17 @@ export { PixiTextRenderer } from './PixiTextRenderer';
 export { IconTextRenderer } from './IconTextRenderer';
 export { TweenComponent } from './TweenComponent';
 export { VelocityComponent } from './VelocityComponent';
+export { ColliderComponent } from './ColliderComponent';
 export { CircleColliderComponent } from './CircleColliderComponent';
+export { BoxColliderComponent } from './BoxColliderComponent';
+export { PolygonColliderComponent } from './PolygonColliderComponent';
 export type { ITweenable } from './ITweenable';
 export { TweenableComponent } from './ITweenable';
 export type { SpriteRendererConfig, VisibilityBinding } from './PixiSpriteRenderer';
 export type { TextRendererConfig } from './PixiTextRenderer';
 export type { IconTextConfig } from './IconTextRenderer';
 export type { VelocityConfig } from './VelocityComponent';
+export type { ColliderConfig } from './ColliderComponent';
+export type { CircleColliderConfig } from './CircleColliderComponent';
+export type { BoxColliderConfig } from './BoxColliderComponent';
+export type { PolygonColliderConfig } from './PolygonColliderComponent';
@@ -1,6 +1,7 @@
 import { Vector2, Rect } from '@/shared/types';
 import { LayoutResult } from '@/engine/render';
 import { logger } from '@/engine/logging';
+import { rng } from '@/engine/random';
 
 /**
  * CoordinateService - централизованный сервис для управления координатами
@@ -126,8 +127,8 @@ export class CoordinateService {
   public getRandomGamePosition(): Vector2 {
     const bounds = this.getGameBounds();
     return {
-      x: Math.random() * bounds.w,
-      y: Math.random() * bounds.h
+      x: rng.next() * bounds.w,
+      y: rng.next() * bounds.h
     };
   }
 
@@ -137,8 +138,8 @@ export class CoordinateService {
   public getRandomCenterPosition(offsetRange: number = 100): Vector2 {
     const center = this.getGameCenter();
     return {
-      x: center.x + (Math.random() - 0.5) * offsetRange,
-      y: center.y + (Math.random() - 0.5) * offsetRange
+      x: center.x + (rng.next() - 0.5) * offsetRange,
+      y: center.y + (rng.next() - 0.5) * offsetRange
     };
   }
 
@@ -179,17 +180,17 @@ export class CoordinateService {
    */
   public getRandomEdgePosition(): Vector2 {
     const bounds = this.getGameBounds();
-    const edge = Math.floor(Math.random() * 4); // 0=top, 1=right, 2=bottom, 3=left
+    const edge = rng.int(0, 3); // 0=top, 1=right, 2=bottom, 3=left
     
     switch (edge) {
       case 0: // top
-        return { x: Math.random() * bounds.w, y: bounds.y };
+        return { x: rng.next() * bounds.w, y: bounds.y };
       case 1: // right
-        return { x: bounds.w, y: Math.random() * bounds.h };
+        return { x: bounds.w, y: rng.next() * bounds.h };
       case 2: // bottom
-        return { x: Math.random() * bounds.w, y: bounds.h };
+        return { x: rng.next() * bounds.w, y: bounds.h };
       case 3: // left
-        return { x: bounds.x, y: Math.random() * bounds.h };
+        return { x: bounds.x, y: rng.next() * bounds.h };
       default:
         return { x: bounds.w / 2, y: bounds.h / 2 };
     }
@@ -4,7 +4,8 @@ import * as PIXI from 'pixi.js';
 import { Scene } from '../scene';
 import { GameObject } from '../GameObject';
 import { Component } from '../Component';
-import { profileStore } from '@/stores/game';
+import { economyActions, persistenceService, profileInitService, profileStore } from '@/stores/game';
+import { replayService, type ReplayRecording } from '@/engine/replay';
 
 type CommandHandler = (args: string[]) => void;
 
@@ -49,7 +50,27 @@ export class DebugConsoleService {
       // Game State
       state: () => this._inspectGameState(),
       resources: () => this._inspectResources(),
+      give: (resourceId: string, amount: number) => this._give(resourceId, amount),
       upgrades: () => this._inspectUpgrades(),
+      warehouse: () => this._inspectWarehouse(),
+      research: () => this._inspectResearch(),
+      market: () => this._inspectMarket(),
+      prestige: () => this._inspectPrestige(),
+      achievements: () => this._inspectAchievements(),
+      missions: () => this._inspectMissions(),
+      boosts: () => this._inspectBoosts(),
+
+      // Replay
+      replayRecord: () => this._replayRecord(),
+      replayStop: () => this._replayStop(),
+      replayExport: () => this._replayExport(),
+      replayPlay: (recording: ReplayRecording | string, headless = false) => this._replayPlay(recording, headless),
+
+      // Saves
+      saveSlots: () => this._saveSlots(),
+      saveSlot: (slot: string) => this._saveSlot(slot),
+      saveExport: (slot?: string) => this._saveExport(slot),
+      saveImport: (encoded: string, slot?: string) => this._saveImport(encoded, slot),
       
       // Utils
       help: () => this._help(),
@@ -83,6 +104,19 @@ export class DebugConsoleService {
       state: this._inspectGameState,
       resources: this._inspectResources,
       upgrades: this._inspectUpgrades,
+      warehouse: this._inspectWarehouse,
+      research: this._inspectResearch,
+      market: this._inspectMarket,
+      prestige: this._inspectPrestige,
+      achievements: this._inspectAchievements,
+      missions: this._inspectMissions,
+      boosts: this._inspectBoosts,
+      // Replay
+      replayRecord: this._replayRecord,
+      replayStop: this._replayStop,
+      replayExport: this._replayExport,
+      // Saves
+      saveSlots: this._saveSlots,
       // Utils
       clear: this._clearConsole,
       fps: this._showFPS,
@@ -126,8 +160,28 @@ export class DebugConsoleService {
       },
       '🎮 Game State': {
         'state()': 'Полное состояние игрового профиля',
-        'resources()': 'Текущие ресурсы (из profileStore)',
-        'upgrades()': 'Текущие апгрейды (из profileStore)',
+        'resources()': 'Текущие ресурсы и генераторы (из profileStore)',
+        'give(resourceId, amount)': 'Начислить ресурс',
+        'upgrades()': 'Уровни апгрейдов (из profileStore)',
+        'warehouse()': 'Содержимое склада и политика переполнения',
+        'research()': 'Изученные узлы и текущее исследование',
+        'market()': 'Текущие цены рынка',
+        'prestige()': 'Очки престижа и заработок за забег',
+        'achievements()': 'Открытые достижения и прогресс счётчиков',
+        'missions()': 'Текущие миссии и серия входов',
+        'boosts()': 'Активные бусты и время до окончания',
+      },
+      '🎬 Replay': {
+        'replayRecord()': 'Перезапустить с записью (?record)',
+        'replayStop()': 'Остановить запись/воспроизведение',
+        'replayExport()': 'Скачать запись в JSON',
+        'replayPlay(json, headless?)': 'Воспроизвести запись (объект или JSON строка)',
+      },
+      '💾 Saves': {
+        'saveSlots()': 'Список слотов сохранений',
+        'saveSlot(name)': 'Переключиться на слот (создаётся при первом сохранении)',
+        'saveExport(slot?)': 'Экспорт слота в base64 (копируется в буфер обмена)',
+        'saveImport(base64, slot?)': 'Импорт слота из base64 и перезагрузка',
       },
       '🛠️ Utils': {
         'clear()': 'Очистить консоль',
@@ -167,7 +221,8 @@ export class DebugConsoleService {
       const entityData = entities.map((entity: GameObject) => ({
         id: entity.id,
         name: entity.name,
-        active: entity.active ? '✅' : '❌',
+        parent: entity.parent ? entity.parent.name || entity.parent.id : '',
+        active: entity.activeInHierarchy ? '✅' : '❌',
         components: entity.getComponents().map(c => c.constructor.name).join(', '),
       }));
 
@@ -444,22 +499,70 @@ export class DebugConsoleService {
    * Текущие ресурсы
    */
   private _inspectResources(): void {
-    this._logWarn('Команда inspectResources() еще не реализована.');
-    // TODO: Когда ресурсы появятся в profileStore, показывать их здесь.
-    // Пример:
-    // const resources = profileStore.get().resources;
-    // console.table(resources);
+    const { resources, generators } = profileStore.get();
+    console.log('%c💰 Resources', 'color: #ff0; font-weight: bold;');
+    console.table(resources);
+    console.log('%c⚙️ Generators', 'color: #ff0; font-weight: bold;');
+    console.table(generators);
+  }
+
+  private _give(resourceId: string, amount: number): void {
+    if (!resourceId || !Number.isFinite(amount) || amount <= 0) {
+      this._logWarn('Использование: give(resourceId, amount)');
+      return;
+    }
+    economyActions.add({ [resourceId]: amount });
+    this._logInfo(`+${amount} ${resourceId}`);
   }
 
   /**
    * Текущие апгрейды
    */
   private _inspectUpgrades(): void {
-    this._logWarn('Команда inspectUpgrades() еще не реализована.');
-    // TODO: Когда апгрейды появятся в profileStore, показывать их здесь.
-    // Пример:
-    // const upgrades = profileStore.get().upgrades;
-    // console.table(upgrades);
+    console.table(profileStore.get().upgrades);
+  }
+
+  private _inspectWarehouse(): void {
+    const { stacks, overflowPolicy } = profileStore.get().warehouse;
+    this._logInfo(`Склад: ${stacks.length} слотов занято, при переполнении — ${overflowPolicy}`);
+    console.table(stacks);
+  }
+
+  private _inspectResearch(): void {
+    const { completed, active } = profileStore.get().research;
+    this._logInfo(`Исследовано узлов: ${completed.length}, сейчас: ${active ? `${active.nodeId} (${active.progress.toFixed(1)}s)` : '—'}`);
+    console.table(completed);
+  }
+
+  private _inspectMarket(): void {
+    const { prices, rngState } = profileStore.get().market;
+    this._logInfo(`Рынок: состояние RNG ${rngState}`);
+    console.table(prices);
+  }
+
+  private _inspectPrestige(): void {
+    console.table(profileStore.get().prestige);
+  }
+
+  private _inspectAchievements(): void {
+    const { unlocked, progress } = profileStore.get().achievements;
+    this._logInfo(`Достижения: открыто ${Object.keys(unlocked).length}`);
+    console.table(progress);
+  }
+
+  private _inspectMissions(): void {
+    const { daily, weekly, streak, lastSeenAt } = profileStore.get().missions;
+    this._logInfo(`Серия входов: день ${streak.count}, последнее доверенное время ${lastSeenAt ? new Date(lastSeenAt).toISOString() : '—'}`);
+    console.table([
+      ...daily.slots.map(slot => ({ period: `daily ${daily.periodKey}`, ...slot })),
+      ...weekly.slots.map(slot => ({ period: `weekly ${weekly.periodKey}`, ...slot })),
+    ]);
+  }
+
+  private _inspectBoosts(): void {
+    const { boosts } = profileStore.get();
+    this._logInfo(`Бусты: ${boosts.length} активных начислений`);
+    console.table(boosts.map(boost => ({ ...boost, expiresAt: new Date(boost.expiresAt).toISOString() })));
   }
 
   // =================================================================
@@ -493,6 +596,102 @@ export class DebugConsoleService {
     }
   }
 
+  // =================================================================
+  // Replay Commands
+  // =================================================================
+
+  /**
+   * Перезагрузить страницу с записью с самого старта
+   */
+  private _replayRecord(): void {
+    const url = new URL(window.location.href);
+    url.searchParams.delete('replay');
+    url.searchParams.set('record', '');
+    window.location.href = url.toString();
+  }
+
+  private _replayStop(): void {
+    replayService.stop();
+    this._logInfo(`Replay mode: ${replayService.currentMode}`);
+  }
+
+  /**
+   * Скачать текущую запись в JSON
+   */
+  private _replayExport(): ReplayRecording | null {
+    const recording = replayService.exportRecording();
+    if (!recording) {
+      this._logWarn('Запись не идёт. Используйте replayRecord()');
+      return null;
+    }
+
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `replay-${recording.createdAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+
+    this._logInfo(`Экспортировано кадров: ${recording.frames.length}`);
+    return recording;
+  }
+
+  private _replayPlay(recording: ReplayRecording | string, headless: boolean): void {
+    try {
+      const parsed = typeof recording === 'string' ? JSON.parse(recording) as ReplayRecording : recording;
+      replayService.play(parsed, { headless })
+        .then(result => {
+          this._logInfo(result.diverged ? 'Replay разошёлся с записью' : 'Replay совпал с записью');
+          console.table(result);
+        })
+        .catch(error => this._logError('Ошибка воспроизведения:', error));
+    } catch (error) {
+      this._logError('Некорректная запись:', error);
+    }
+  }
+
+  // =================================================================
+  // Save Commands
+  // =================================================================
+
+  private _saveSlots(): void {
+    persistenceService.listSlots()
+      .then(slots => console.table(slots.map(info => ({
+        ...info,
+        updatedAt: info.updatedAt ? new Date(info.updatedAt).toLocaleString() : '—',
+      }))))
+      .catch(error => this._logError('Не удалось прочитать слоты:', error));
+  }
+
+  private _saveSlot(slot: string): void {
+    profileInitService.switchSlot(slot)
+      .then(() => this._logInfo(`Активный слот: ${slot}`))
+      .catch(error => this._logError('Не удалось переключить слот:', error));
+  }
+
+  /**
+   * Строка для тикета поддержки
+   */
+  private async _saveExport(slot?: string): Promise<string | null> {
+    try {
+      const encoded = await persistenceService.exportSlot(slot);
+      await navigator.clipboard?.writeText(encoded).catch(() => undefined);
+      this._logInfo(`Экспорт слота: ${encoded.length} символов (скопировано в буфер обмена)`);
+      return encoded;
+    } catch (error) {
+      this._logError('Ошибка экспорта:', error);
+      return null;
+    }
+  }
+
+  private _saveImport(encoded: string, slot?: string): void {
+    const target = slot ?? persistenceService.getActiveSlot();
+    persistenceService.importSlot(encoded, target)
+      .then(() => profileInitService.switchSlot(target))
+      .then(() => this._logInfo(`Слот "${target}" импортирован`))
+      .catch(error => this._logError('Ошибка импорта:', error));
+  }
+
   // =================================================================
   // Private Helpers
   // =================================================================
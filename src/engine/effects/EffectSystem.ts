@@ -1,6 +1,8 @@
 import { logger } from '@/engine/logging';
+import { rng } from '@/engine/random';
 import { ParticleSystem, ParticleEmitterConfig } from './ParticleSystem';
 import { AudioManager } from '@/engine/audio/AudioManager';
+import type { SfxId } from '@/engine/audio/AudioTypes';
 import * as PIXI from 'pixi.js';
 import { effectDefinitions } from './effect-definitions';
 import { ServiceRegistry, ServiceKeys } from '@/engine/registry';
@@ -63,7 +65,7 @@ export class EffectSystem {
   }
 
   // Основной метод для запуска комплексных эффектов
-  public triggerEffect(name: keyof typeof effectDefinitions, x: number, y: number, customColor?: number): void {
+  public triggerEffect(name: keyof typeof effectDefinitions, x: number, y: number, customColor?: number, sound?: SfxId): void {
     const definition = effectDefinitions[name];
     if (!definition) {
       logger.warn('Effect definition "${name}" not found.', { source: 'game' });
@@ -86,13 +88,14 @@ export class EffectSystem {
       }
     }
     
-    // Проигрываем звук
-    if (definition.sound && this.audioManager) {
+    // Проигрываем звук (sound перекрывает звук из определения)
+    const soundName = sound ?? definition.sound?.name;
+    if (soundName && this.audioManager) {
       // Здесь можно добавить более сложную логику (loop, volume и т.д.)
-      this.audioManager.playSFX(definition.sound.name as any);
-    } else if (definition.sound && !this.audioManager) {
+      this.audioManager.playSFX(soundName as SfxId);
+    } else if (soundName && !this.audioManager) {
       logger.warn('🔇 AudioManager не установлен, звук не воспроизведен', { 
-        sound: definition.sound.name, 
+        sound: soundName, 
         source: 'effects' 
       });
     }
@@ -125,9 +128,10 @@ export class EffectSystem {
     this.triggerEffect('dust', x, y);
   }
 
-  triggerMiningEffect(x: number, y: number, _intensity: number = 1): void {
-    //logger.info('[EffectSystem] triggerMiningEffect called at (${x}, ${y}) with intensity ${intensity}', { source: 'game' });
-    this.triggerEffect('mining', x, y);
+  triggerMiningEffect(x: number, y: number, intensity: number = 1): void {
+    // Intensity 0..1 — how hard the rock is; picks the drill sound
+    const sound: SfxId = intensity < 0.4 ? 'mining_light' : intensity < 0.8 ? 'mining_medium' : 'mining_heavy';
+    this.triggerEffect('mining', x, y, undefined, sound);
   }
 
   triggerResourceGlow(x: number, y: number, color: number, _size: number = 1): void {
@@ -195,8 +199,8 @@ export class EffectSystem {
       this.camera.y -= this.currentShakeOffset.y;
       
       // Вычисляем новое смещение
-      this.currentShakeOffset.x = (Math.random() - 0.5) * this.screenShakeIntensity * 10;
-      this.currentShakeOffset.y = (Math.random() - 0.5) * this.screenShakeIntensity * 10;
+      this.currentShakeOffset.x = (rng.next() - 0.5) * this.screenShakeIntensity * 10;
+      this.currentShakeOffset.y = (rng.next() - 0.5) * this.screenShakeIntensity * 10;
       
       // Применяем новое смещение
       this.camera.x += this.currentShakeOffset.x;
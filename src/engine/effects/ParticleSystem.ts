@@ -1,5 +1,6 @@
 import * as PIXI from 'pixi.js';
 import { logger } from '@/engine/logging';
+import { rng } from '@/engine/random';
 import type { ParticleEmitterConfig } from '../../shared/game-types';
 
 // Re-export for backward compatibility
@@ -371,7 +372,7 @@ export class ParticleSystem {
    * Вспомогательная функция для получения случайного значения в диапазоне
    */
   private _randInRange(range: [number, number]): number {
-    return range[0] + Math.random() * (range[1] - range[0]);
+    return rng.range(range[0], range[1]);
   }
 
   start(): void {
@@ -424,7 +425,7 @@ export class ParticleSystem {
          if (!particle) continue; // Если достигли maxParticles, выходим
       }
 
-      const angle = Math.random() * config.spread - (config.spread / 2);
+      const angle = rng.next() * config.spread - (config.spread / 2);
       const speed = this._randInRange(config.speed);
       const life = this._randInRange(config.life);
       const size = this._randInRange(config.size);
@@ -6,7 +6,8 @@
 import { logger } from '../logging';
 import type { LayoutResult, Rect } from '../render/LayoutEngine';
 import type { AudioConfig } from '../audio/AudioTypes';
-import type { PlayerProfile } from '@/stores/game/profile';
+import type { MissionPeriod, OverflowPolicy, PlayerProfile } from '@/stores/game/profile';
+import type { BigNum } from '@/shared/bignum';
 
 export type EventHandler<T = any> = (data: T) => void;
 
@@ -59,8 +60,19 @@ export interface AppEvents {
   // События профиля/настроек
   'profile-changed': { profile: PlayerProfile };
   'profile-reset': void;
+  /** Saved profile was upgraded on load; `backupKey` holds the original blob */
+  'profile-migrated': { from: string; to: string; path: string[]; backupKey: string };
+  /** Main save was corrupted or invalid; `source` is the backup key that was loaded instead */
+  'save-recovered': { slot: string; type: 'profile' | 'world'; source: string };
+  /** Active save slot changed and its profile is in the store; scenes should reload their world */
+  'save-slot-changed': { slot: string };
   'game-assets-loaded': void;
 
+  // Переходы между сценами (SceneManager.transitionTo)
+  'scene-transition-start': { from: string | null; to: string };
+  'scene-transition-end': { from: string | null; to: string };
+  'scene-preload-progress': { scene: string; progress: number };
+
   // Gesture события
   'gesture-tap': { position: { x: number; y: number } };
   'gesture-double-tap': { position: { x: number; y: number } };
@@ -76,6 +88,34 @@ export interface AppEvents {
   // Игровые события (унифицированы из GameEventBus)
   'mode-click': { modeId: string };
   'add-credits': { amount: number };
+  /** Game-space position where the asteroid broke */
+  'asteroid-destroyed': { asteroidType: string; x: number; y: number };
+  'generator-purchased': { generatorId: string; count: number; owned: number };
+  'upgrade-purchased': { upgradeId: string; levels: number; level: number };
+  /** Items overflowed (`overflow` > 0) or the last free slot was taken */
+  'warehouse-full': { itemId: string; overflow: number; policy: OverflowPolicy; slots: number };
+  /** `offline` — finished during catch-up after a load */
+  'production-job-completed': { slot: number; recipeId: string; offline: boolean };
+  'research-started': { nodeId: string };
+  'research-completed': { nodeId: string; offline: boolean };
+  'market-trade': { resourceId: string; side: 'sell' | 'buy'; amount: number; credits: number };
+  'prestige-performed': {
+    pointsGained: number;
+    totalPoints: number;
+    resets: number;
+    /** Credits earned in the run that just ended */
+    runEarnings: BigNum;
+    lifetimeEarnings: BigNum;
+  };
+  'achievement-unlocked': { achievementId: string; name: string; hidden: boolean };
+  /** Device time went behind the trusted clock (engine/time); `trustedTime` is what the game uses instead */
+  'clock-rollback-detected': { deviceTime: number; trustedTime: number };
+  'reward-granted': { rewardType: string; source: string };
+  /** `expiresAt` — trusted wall-clock ms (clockService) */
+  'boost-activated': { boostId: string; source: string; expiresAt: number };
+  'boost-expired': { boostId: string };
+  'mission-completed': { missionId: string; period: MissionPeriod };
+  'login-streak-claimed': { day: number; rewardType: string };
   'settings-open': void;
   'settings-close': void;
 
@@ -44,4 +44,18 @@ export * from './effects';
 export * from './prefabs';
 
 // Systems - игровые системы
-export * from './systems';
\ No newline at end of file
+export * from './systems';
+
+// Physics - broadphase, слои и контакты
+export * from './physics';
+
+// Random - детерминированный RNG
+export * from './random';
+
+// Replay - запись и воспроизведение сессий
+export * from './replay';
+// Serialization - сохранение и восстановление сцен
+export * from './serialization';
+
+// Storage - бэкенды для сохранений
+export * from './storage';
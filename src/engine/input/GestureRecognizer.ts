@@ -35,6 +35,7 @@ export class GestureRecognizer {
   private lastTapTime = 0;
   private lastTapPosition = { x: 0, y: 0 };
   private isActive = false;
+  private enabled = true;
   private unsubscribes: (() => void)[] = [];
 
   private constructor(options: Partial<GestureOptions> = {}) {
@@ -57,7 +58,19 @@ export class GestureRecognizer {
     logger.info('🧹 GestureRecognizer destroyed', { source: 'input' });
   }
 
+  /**
+   * Mute recognition, e.g. while a replay re-emits recorded gestures.
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.cancelLongPress();
+      this.isActive = false;
+    }
+  }
+
   private onPointerStart(position: { x: number; y: number }): void {
+    if (!this.enabled) return;
     this.startPosition = { ...position };
     this.currentPosition = { ...position };
     this.startTime = performance.now();
@@ -76,6 +89,7 @@ export class GestureRecognizer {
   }
 
   private onPointerMove(position: { x: number; y: number }): void {
+    if (!this.enabled) return;
     this.currentPosition = { ...position };
 
     // Cancel long-press if moved too far
@@ -88,6 +102,7 @@ export class GestureRecognizer {
   }
 
   private onPointerEnd(): void {
+    if (!this.enabled) return;
     this.cancelLongPress();
     if (!this.isActive) return;
     this.isActive = false;
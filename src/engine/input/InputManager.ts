@@ -5,6 +5,15 @@ import { CoordinateService } from '@/engine/coordinates';
 import { eventBus } from '@/engine/events/EventBus';
 import { withEventDispatcher } from '@/engine/events/IEventDispatcher';
 
+/**
+ * Нормализованное событие указателя (координаты canvas в CSS px).
+ * Используется для записи и воспроизведения ввода (ReplayService).
+ */
+export type PointerInputEvent =
+  | { type: 'pointer-start'; position: Vector2 }
+  | { type: 'pointer-move'; position: Vector2 }
+  | { type: 'pointer-end' };
+
 /**
  * Сервис для управления вводом (мышь и тач)
  * Нормализует координаты и предоставляет единый API
@@ -17,6 +26,8 @@ class InputManagerBase {
   private pointerDelta: Vector2 = { x: 0, y: 0 };
   private canvas: HTMLCanvasElement | null = null;
   private coordinateService: CoordinateService;
+  private liveInputEnabled = true;
+  private inputLocks = new Set<string>();
 
   // Привязанные обработчики для правильного удаления
   private boundHandlers: {
@@ -74,7 +85,9 @@ class InputManagerBase {
       throw new Error('Canvas элемент с id="pixi-canvas" не найден!');
     }
 
-    this.setupEventListeners();
+    if (this.liveInputEnabled) {
+      this.setupEventListeners();
+    }
     logger.info('✅ Менеджер ввода инициализирован', { source: 'game' });
   }
 
@@ -97,13 +110,90 @@ class InputManagerBase {
     this.canvas.addEventListener('touchcancel', this.boundHandlers.handleTouchEnd);
 
     // Предотвращаем контекстное меню на правый клик
-    this.canvas.addEventListener('contextmenu', (e) => e.preventDefault());
+    this.canvas.addEventListener('contextmenu', preventContextMenu);
+  }
+
+  /**
+   * Снятие обработчиков DOM событий
+   */
+  private removeEventListeners(): void {
+    if (!this.canvas || !this.boundHandlers) return;
+
+    this.canvas.removeEventListener('mousedown', this.boundHandlers.handlePointerDown);
+    this.canvas.removeEventListener('mousemove', this.boundHandlers.handlePointerMove);
+    this.canvas.removeEventListener('mouseup', this.boundHandlers.handlePointerUp);
+    this.canvas.removeEventListener('mouseleave', this.boundHandlers.handlePointerUp);
+    this.canvas.removeEventListener('touchstart', this.boundHandlers.handleTouchStart);
+    this.canvas.removeEventListener('touchmove', this.boundHandlers.handleTouchMove);
+    this.canvas.removeEventListener('touchend', this.boundHandlers.handleTouchEnd);
+    this.canvas.removeEventListener('touchcancel', this.boundHandlers.handleTouchEnd);
+    this.canvas.removeEventListener('contextmenu', preventContextMenu);
+  }
+
+  /**
+   * Включить/выключить ввод с устройства (при воспроизведении реплея)
+   */
+  public setLiveInputEnabled(enabled: boolean): void {
+    if (this.liveInputEnabled === enabled) return;
+    this.liveInputEnabled = enabled;
+    if (enabled) {
+      this.setupEventListeners();
+    } else {
+      this.removeEventListeners();
+      this.isPointerDown = false;
+    }
+  }
+
+  /**
+   * Заблокировать ввод (например, на время перехода между сценами).
+   * Незавершённое нажатие закрывается событием pointer-end.
+   */
+  public lockInput(reason: string): void {
+    this.inputLocks.add(reason);
+    if (this.isPointerDown) {
+      this.isPointerDown = false;
+      eventBus.emit('pointer-end');
+    }
+  }
+
+  public unlockInput(reason: string): void {
+    this.inputLocks.delete(reason);
+  }
+
+  public get isInputLocked(): boolean {
+    return this.inputLocks.size > 0;
+  }
+
+  /**
+   * Применить событие указателя так, как будто оно пришло с устройства
+   */
+  public injectPointerEvent(event: PointerInputEvent): void {
+    if (this.isInputLocked) return;
+    switch (event.type) {
+      case 'pointer-start':
+        this.isPointerDown = true;
+        this.pointerPosition = { ...event.position };
+        this.lastPointerPosition = { ...event.position };
+        eventBus.emit('pointer-start', { position: this.pointerPosition });
+        break;
+      case 'pointer-move':
+        this.pointerPosition = { ...event.position };
+        if (this.isPointerDown) {
+          eventBus.emit('pointer-move', { position: this.pointerPosition });
+        }
+        break;
+      case 'pointer-end':
+        this.isPointerDown = false;
+        eventBus.emit('pointer-end');
+        break;
+    }
   }
 
   /**
    * Обработка нажатия мыши
    */
   private handlePointerDown(event: MouseEvent): void {
+    if (this.isInputLocked) return;
     this.isPointerDown = true;
     this.updatePointerPosition(event.clientX, event.clientY);
     this.lastPointerPosition = { ...this.pointerPosition };
@@ -121,6 +211,7 @@ class InputManagerBase {
    * Обработка движения мыши
    */
   private handlePointerMove(event: MouseEvent): void {
+    if (this.isInputLocked) return;
     this.updatePointerPosition(event.clientX, event.clientY);
     
     // Отправляем событие движения только если указатель нажат
@@ -133,6 +224,7 @@ class InputManagerBase {
    * Обработка отпускания мыши
    */
   private handlePointerUp(_event: MouseEvent): void {
+    if (this.isInputLocked) return;
     this.isPointerDown = false;
     
     // Отправляем событие окончания ввода
@@ -144,6 +236,7 @@ class InputManagerBase {
    */
   private handleTouchStart(event: TouchEvent): void {
     event.preventDefault();
+    if (this.isInputLocked) return;
     if (event.touches.length > 0) {
       logger.info(`[InputManager] Touch start: touches=${event.touches.length}, isPointerDown=${this.isPointerDown}`, { source: 'game' });
       this.isPointerDown = true;
@@ -161,6 +254,7 @@ class InputManagerBase {
    */
   private handleTouchMove(event: TouchEvent): void {
     event.preventDefault();
+    if (this.isInputLocked) return;
     if (event.touches.length > 0) {
       const touch = event.touches[0];
       this.updatePointerPosition(touch.clientX, touch.clientY);
@@ -177,6 +271,7 @@ class InputManagerBase {
    */
   private handleTouchEnd(event: TouchEvent): void {
     event.preventDefault();
+    if (this.isInputLocked) return;
     
     // Проверяем, что это действительно окончание тача (нет активных касаний)
     if (event.touches.length === 0) {
@@ -261,16 +356,7 @@ class InputManagerBase {
    * Очистка ресурсов
    */
   public destroy(): void {
-    if (this.canvas && this.boundHandlers) {
-      this.canvas.removeEventListener('mousedown', this.boundHandlers.handlePointerDown);
-      this.canvas.removeEventListener('mousemove', this.boundHandlers.handlePointerMove);
-      this.canvas.removeEventListener('mouseup', this.boundHandlers.handlePointerUp);
-      this.canvas.removeEventListener('mouseleave', this.boundHandlers.handlePointerUp);
-      this.canvas.removeEventListener('touchstart', this.boundHandlers.handleTouchStart);
-      this.canvas.removeEventListener('touchmove', this.boundHandlers.handleTouchMove);
-      this.canvas.removeEventListener('touchend', this.boundHandlers.handleTouchEnd);
-      this.canvas.removeEventListener('touchcancel', this.boundHandlers.handleTouchEnd);
-    }
+    this.removeEventListeners();
 
     // EventBus очищается автоматически при уничтожении приложения
 
@@ -280,6 +366,10 @@ class InputManagerBase {
   }
 }
 
+function preventContextMenu(e: Event): void {
+  e.preventDefault();
+}
+
 // Экспортируем InputManager с поддержкой IEventDispatcher
 export const InputManager = withEventDispatcher(InputManagerBase);
 export type InputManager = InstanceType<typeof InputManager>;
@@ -1,2 +1,3 @@
 // Input package - система ввода
 export { InputManager } from './InputManager';
+export type { PointerInputEvent } from './InputManager';
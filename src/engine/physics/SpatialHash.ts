@@ -0,0 +1,164 @@
+/** Cell coordinates are packed into one number; they stay unique within ±this many cells */
+const CELL_RANGE = 1 << 15;
+
+/**
+ * Uniform-grid broadphase. Items are integer ids (usually indices into the caller's
+ * body list) inserted by their bounding box; `forEachPair` reports every pair that
+ * shares a cell, once, and `query` / `queryRay` return candidates for scene queries.
+ * Rebuilt from scratch every step — `clear()` keeps the cell arrays.
+ */
+export class SpatialHash {
+  private readonly cells = new Map<number, number[]>();
+  private readonly freeCells: number[][] = [];
+  private readonly seenPairs = new Set<number>();
+  private idLimit = 0;
+  // Occupied cell range, so queries never walk the empty grid around it
+  private minCellX = Infinity;
+  private minCellY = Infinity;
+  private maxCellX = -Infinity;
+  private maxCellY = -Infinity;
+
+  constructor(public cellSize: number) {}
+
+  clear(): void {
+    for (const cell of this.cells.values()) {
+      cell.length = 0;
+      this.freeCells.push(cell);
+    }
+    this.cells.clear();
+    this.idLimit = 0;
+    this.minCellX = this.minCellY = Infinity;
+    this.maxCellX = this.maxCellY = -Infinity;
+  }
+
+  insert(id: number, minX: number, minY: number, maxX: number, maxY: number): void {
+    this.idLimit = Math.max(this.idLimit, id + 1);
+    const x0 = Math.floor(minX / this.cellSize);
+    const y0 = Math.floor(minY / this.cellSize);
+    const x1 = Math.floor(maxX / this.cellSize);
+    const y1 = Math.floor(maxY / this.cellSize);
+    this.minCellX = Math.min(this.minCellX, x0);
+    this.minCellY = Math.min(this.minCellY, y0);
+    this.maxCellX = Math.max(this.maxCellX, x1);
+    this.maxCellY = Math.max(this.maxCellY, y1);
+
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const key = cellKey(cx, cy);
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = this.freeCells.pop() ?? [];
+          this.cells.set(key, cell);
+        }
+        cell.push(id);
+      }
+    }
+  }
+
+  /** Candidate pairs (lower id first). Boxes may still not overlap — that's the narrowphase's job */
+  forEachPair(callback: (a: number, b: number) => void): void {
+    this.seenPairs.clear();
+    for (const cell of this.cells.values()) {
+      for (let i = 0; i < cell.length; i++) {
+        for (let j = i + 1; j < cell.length; j++) {
+          const a = Math.min(cell[i], cell[j]);
+          const b = Math.max(cell[i], cell[j]);
+          const key = a * this.idLimit + b;
+          if (this.seenPairs.has(key)) continue;
+          this.seenPairs.add(key);
+          callback(a, b);
+        }
+      }
+    }
+  }
+
+  /** Ids in cells touching the box, each once, in no particular order */
+  query(minX: number, minY: number, maxX: number, maxY: number, out: number[] = []): number[] {
+    const seen = new Set<number>();
+    const x0 = Math.max(Math.floor(minX / this.cellSize), this.minCellX);
+    const y0 = Math.max(Math.floor(minY / this.cellSize), this.minCellY);
+    const x1 = Math.min(Math.floor(maxX / this.cellSize), this.maxCellX);
+    const y1 = Math.min(Math.floor(maxY / this.cellSize), this.maxCellY);
+
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        this.collectCell(cx, cy, seen, out);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Ids in cells the segment from (x, y) along the unit direction (dx, dy) passes
+   * through, up to `maxDistance` (may be Infinity), roughly nearest cells first (grid walk).
+   * Only the part of the ray over occupied cells is walked
+   */
+  queryRay(x: number, y: number, dx: number, dy: number, maxDistance: number, out: number[] = []): number[] {
+    const span = this.clipToOccupied(x, y, dx, dy, maxDistance);
+    if (!span) return out;
+    const [start, end] = span;
+
+    const seen = new Set<number>();
+    // The entry point can round just outside the range
+    let cx = Math.min(Math.max(Math.floor((x + dx * start) / this.cellSize), this.minCellX), this.maxCellX);
+    let cy = Math.min(Math.max(Math.floor((y + dy * start) / this.cellSize), this.minCellY), this.maxCellY);
+    const stepX = dx > 0 ? 1 : -1;
+    const stepY = dy > 0 ? 1 : -1;
+    // Ray distance to the next vertical / horizontal cell border, and between borders
+    const deltaX = dx !== 0 ? this.cellSize / Math.abs(dx) : Infinity;
+    const deltaY = dy !== 0 ? this.cellSize / Math.abs(dy) : Infinity;
+    let nextX = dx !== 0 ? ((dx > 0 ? cx + 1 : cx) * this.cellSize - x) / dx : Infinity;
+    let nextY = dy !== 0 ? ((dy > 0 ? cy + 1 : cy) * this.cellSize - y) / dy : Infinity;
+
+    for (;;) {
+      this.collectCell(cx, cy, seen, out);
+      if (Math.min(nextX, nextY) > end) return out;
+      if (nextX < nextY) {
+        cx += stepX;
+        nextX += deltaX;
+      } else {
+        cy += stepY;
+        nextY += deltaY;
+      }
+    }
+  }
+
+  /** Ray distances [enter, exit] within the occupied cells and `maxDistance`; null if it misses them */
+  private clipToOccupied(x: number, y: number, dx: number, dy: number, maxDistance: number): [number, number] | null {
+    if (this.minCellX > this.maxCellX) return null;
+    const size = this.cellSize;
+    const axes: [number, number, number, number][] = [
+      [x, dx, this.minCellX * size, (this.maxCellX + 1) * size],
+      [y, dy, this.minCellY * size, (this.maxCellY + 1) * size],
+    ];
+
+    let enter = 0;
+    let exit = maxDistance;
+    for (const [origin, direction, min, max] of axes) {
+      if (direction === 0) {
+        if (origin < min || origin > max) return null;
+        continue;
+      }
+      const a = (min - origin) / direction;
+      const b = (max - origin) / direction;
+      enter = Math.max(enter, Math.min(a, b));
+      exit = Math.min(exit, Math.max(a, b));
+      if (enter > exit) return null;
+    }
+    return [enter, exit];
+  }
+
+  private collectCell(cx: number, cy: number, seen: Set<number>, out: number[]): void {
+    const cell = this.cells.get(cellKey(cx, cy));
+    if (!cell) return;
+    for (const id of cell) {
+      if (seen.has(id)) continue;
+      seen.add(id);
+      out.push(id);
+    }
+  }
+}
+
+function cellKey(cx: number, cy: number): number {
+  return (cx + CELL_RANGE) * CELL_RANGE * 2 + (cy + CELL_RANGE);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { alphaOutline } from './alphaOutline';
+
+/** RGBA image whose alpha comes from `rows`: '#' opaque, '.' transparent */
+function image(rows: string[]): { pixels: Uint8ClampedArray; width: number; height: number } {
+  const width = rows[0].length;
+  const height = rows.length;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  rows.forEach((row, y) => {
+    [...row].forEach((cell, x) => {
+      pixels[(y * width + x) * 4 + 3] = cell === '#' ? 255 : 0;
+    });
+  });
+  return { pixels, width, height };
+}
+
+describe('alphaOutline', () => {
+  it('outlines the opaque block by its pixel corners', () => {
+    const { pixels, width, height } = image([
+      '....',
+      '.##.',
+      '.##.',
+      '....',
+    ]);
+    const outline = alphaOutline(pixels, width, height);
+    expect(outline).toHaveLength(4);
+    expect(outline).toEqual(expect.arrayContaining([{ x: 1, y: 1 }, { x: 3, y: 1 }, { x: 3, y: 3 }, { x: 1, y: 3 }]));
+  });
+
+  it('gives a single solid pixel an area', () => {
+    const { pixels, width, height } = image(['...', '.#.', '...']);
+    expect(alphaOutline(pixels, width, height)).toEqual(expect.arrayContaining([{ x: 1, y: 1 }, { x: 2, y: 2 }]));
+  });
+
+  it('returns null when nothing reaches the threshold', () => {
+    const { pixels, width, height } = image(['##', '##']);
+    pixels.forEach((_, i) => { if (i % 4 === 3) pixels[i] = 100; });
+    expect(alphaOutline(pixels, width, height)).toBeNull();
+    expect(alphaOutline(pixels, width, height, { alphaThreshold: 100 })).toHaveLength(4);
+  });
+
+  it('simplifies a round outline to maxVertices corners', () => {
+    const rows = Array.from({ length: 16 }, (_, y) =>
+      Array.from({ length: 16 }, (_, x) => (Math.hypot(x - 7.5, y - 7.5) < 7 ? '#' : '.')).join(''));
+    const { pixels, width, height } = image(rows);
+    expect(alphaOutline(pixels, width, height, { maxVertices: 6 })).toHaveLength(6);
+    expect(alphaOutline(pixels, width, height)!.length).toBeLessThanOrEqual(8);
+  });
+});
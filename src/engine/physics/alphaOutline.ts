@@ -0,0 +1,38 @@
+import type { Vector2 } from '@/shared/types';
+import { convexHull, simplifyHull } from './shapes';
+
+export interface AlphaOutlineOptions {
+  /** Pixels with alpha at or above this (0..255) count as solid */
+  alphaThreshold?: number;
+  /** Hull corners kept after simplification */
+  maxVertices?: number;
+}
+
+/**
+ * Convex outline of the opaque pixels of an RGBA image (as from `renderer.extract.pixels`),
+ * in image px with the origin at the top-left corner. Null when nothing is opaque.
+ * Only the first and last solid pixel of each row matter for a convex hull.
+ */
+export function alphaOutline(
+  pixels: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+  { alphaThreshold = 128, maxVertices = 8 }: AlphaOutlineOptions = {},
+): Vector2[] | null {
+  const corners: Vector2[] = [];
+  for (let y = 0; y < height; y++) {
+    let first = -1;
+    let last = -1;
+    for (let x = 0; x < width; x++) {
+      if (pixels[(y * width + x) * 4 + 3] < alphaThreshold) continue;
+      if (first < 0) first = x;
+      last = x;
+    }
+    if (first < 0) continue;
+    // Pixel corners, so a single solid pixel still has area
+    corners.push({ x: first, y }, { x: first, y: y + 1 }, { x: last + 1, y }, { x: last + 1, y: y + 1 });
+  }
+
+  const hull = convexHull(corners);
+  return hull.length >= 3 ? simplifyHull(hull, maxVertices) : null;
+}
@@ -0,0 +1,10 @@
+// Physics package - broadphase, формы коллайдеров, SAT, лучи и типы контактов для PhysicsSystem
+export { SpatialHash } from './SpatialHash';
+export { CollisionLayers } from './types';
+export type { Collision, QueryHit, RaycastHit } from './types';
+export { convexHull, polygonShape, regularPolygon, shapeBounds, simplifyHull } from './shapes';
+export type { Aabb, CircleShape, ColliderShape, PolygonShape } from './shapes';
+export { collideShapes, raycastShape, supportPoint } from './narrowphase';
+export type { ContactManifold, RayIntersection } from './narrowphase';
+export { alphaOutline } from './alphaOutline';
+export type { AlphaOutlineOptions } from './alphaOutline';
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { collideShapes, raycastShape, supportPoint } from './narrowphase';
+import { polygonShape, type CircleShape } from './shapes';
+
+const square = [{ x: -1, y: -1 }, { x: 1, y: -1 }, { x: 1, y: 1 }, { x: -1, y: 1 }];
+
+function circle(x: number, y: number, radius: number): CircleShape {
+  return { kind: 'circle', x, y, radius };
+}
+
+describe('collideShapes', () => {
+  it('measures circle overlap along the line between centres', () => {
+    const contact = collideShapes(circle(0, 0, 2), circle(3, 0, 2));
+    expect(contact?.nx).toBeCloseTo(1);
+    expect(contact?.ny).toBeCloseTo(0);
+    expect(contact?.penetration).toBeCloseTo(1);
+  });
+
+  it('counts touching circles and separates distant ones', () => {
+    expect(collideShapes(circle(0, 0, 1), circle(2, 0, 1))?.penetration).toBeCloseTo(0);
+    expect(collideShapes(circle(0, 0, 1), circle(2.01, 0, 1))).toBeNull();
+  });
+
+  it('picks the axis of least overlap between boxes, pointing from the first to the second', () => {
+    const contact = collideShapes(polygonShape(square, 0, 0, 0), polygonShape(square, 0, -1.5, 0));
+    expect(contact?.nx).toBeCloseTo(0);
+    expect(contact?.ny).toBeCloseTo(-1);
+    expect(contact?.penetration).toBeCloseTo(0.5);
+  });
+
+  it('separates a rotated box whose bounds overlap but whose edges do not', () => {
+    const diamond = polygonShape(square, 0, 0, Math.PI / 4);
+    expect(collideShapes(diamond, polygonShape(square, 2.3, 2.3, 0))).toBeNull();
+  });
+
+  it('catches a circle at a box corner and flips the normal with the argument order', () => {
+    const box = polygonShape(square, 0, 0, 0);
+    const ball = circle(1.5, 1.5, 1);
+    const fromBall = collideShapes(ball, box);
+    const fromBox = collideShapes(box, ball);
+    expect(fromBall?.penetration).toBeCloseTo(1 - Math.hypot(0.5, 0.5));
+    expect(fromBall?.nx).toBeCloseTo(-Math.SQRT1_2);
+    expect(fromBox?.nx).toBeCloseTo(Math.SQRT1_2);
+    expect(collideShapes(circle(1.8, 1.8, 1), box)).toBeNull();
+  });
+});
+
+describe('raycastShape', () => {
+  it('hits the near side of a circle with the surface normal', () => {
+    const hit = raycastShape(circle(10, 0, 2), 0, 0, 1, 0, 100);
+    expect(hit?.distance).toBeCloseTo(8);
+    expect(hit?.nx).toBeCloseTo(-1);
+  });
+
+  it('hits the entered edge of a polygon', () => {
+    const hit = raycastShape(polygonShape(square, 0, 5, 0), 0, 0, 0, 1, 100);
+    expect(hit?.distance).toBeCloseTo(4);
+    expect(hit?.ny).toBeCloseTo(-1);
+  });
+
+  it('misses past maxDistance, behind the origin and beside the shape', () => {
+    const box = polygonShape(square, 10, 0, 0);
+    expect(raycastShape(box, 0, 0, 1, 0, 5)).toBeNull();
+    expect(raycastShape(box, 0, 0, -1, 0, 100)).toBeNull();
+    expect(raycastShape(box, 0, 3, 1, 0, 100)).toBeNull();
+  });
+
+  it('hits at distance 0 against the ray when starting inside', () => {
+    const hit = raycastShape(circle(0, 0, 5), 1, 1, 0, 1, 100);
+    expect(hit?.distance).toBe(0);
+    expect(hit?.nx).toBeCloseTo(0);
+    expect(hit?.ny).toBeCloseTo(-1);
+  });
+});
+
+describe('supportPoint', () => {
+  it('returns the farthest point along the direction', () => {
+    expect(supportPoint(polygonShape(square, 0, 0, 0), 1, 0.1)).toEqual({ x: 1, y: 1 });
+    const point = supportPoint(circle(2, 0, 3), 0, -1);
+    expect(point.x).toBeCloseTo(2);
+    expect(point.y).toBeCloseTo(-3);
+  });
+});
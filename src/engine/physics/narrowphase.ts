@@ -0,0 +1,179 @@
+import type { CircleShape, ColliderShape, PolygonShape } from './shapes';
+
+/** Overlap of two shapes: unit normal from the first towards the second, and depth along it */
+export interface ContactManifold {
+  nx: number;
+  ny: number;
+  penetration: number;
+}
+
+/**
+ * Separating axis test for any pair of shapes; null when they don't touch.
+ * Touching edges (zero depth) count as a contact, like circles at exactly r₁ + r₂.
+ */
+export function collideShapes(a: ColliderShape, b: ColliderShape): ContactManifold | null {
+  if (a.kind === 'circle' && b.kind === 'circle') return circleCircle(a, b);
+  if (a.kind === 'polygon' && b.kind === 'polygon') return polygonPolygon(a, b);
+  if (a.kind === 'circle') return circlePolygon(a, b as PolygonShape);
+  const flipped = circlePolygon(b as CircleShape, a);
+  return flipped && { nx: -flipped.nx, ny: -flipped.ny, penetration: flipped.penetration };
+}
+
+function circleCircle(a: CircleShape, b: CircleShape): ContactManifold | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const r = a.radius + b.radius;
+  const distSq = dx * dx + dy * dy;
+  if (distSq > r * r) return null;
+
+  // Coincident centres: any normal will do
+  const dist = Math.sqrt(distSq);
+  return {
+    nx: dist > 0 ? dx / dist : 1,
+    ny: dist > 0 ? dy / dist : 0,
+    penetration: r - dist,
+  };
+}
+
+function polygonPolygon(a: PolygonShape, b: PolygonShape): ContactManifold | null {
+  const best = { nx: 1, ny: 0, penetration: Infinity };
+  if (!testAxes(a, b, a.normals, best) || !testAxes(a, b, b.normals, best)) return null;
+  return orient(best, b.x - a.x, b.y - a.y);
+}
+
+function circlePolygon(circle: CircleShape, polygon: PolygonShape): ContactManifold | null {
+  // Polygon edge normals plus the axis through the nearest corner (catches corner hits)
+  let nearest = polygon.points[0];
+  let nearestSq = Infinity;
+  for (const p of polygon.points) {
+    const distSq = (p.x - circle.x) ** 2 + (p.y - circle.y) ** 2;
+    if (distSq < nearestSq) { nearestSq = distSq; nearest = p; }
+  }
+  const cornerLength = Math.sqrt(nearestSq);
+  const axes = cornerLength > 0
+    ? [...polygon.normals, { x: (nearest.x - circle.x) / cornerLength, y: (nearest.y - circle.y) / cornerLength }]
+    : polygon.normals;
+
+  const best = { nx: 1, ny: 0, penetration: Infinity };
+  if (!testAxes(circle, polygon, axes, best)) return null;
+  return orient(best, polygon.x - circle.x, polygon.y - circle.y);
+}
+
+/** Narrows `best` to the axis of least overlap; false as soon as an axis separates the shapes */
+function testAxes(a: ColliderShape, b: ColliderShape, axes: readonly { x: number; y: number }[], best: ContactManifold): boolean {
+  for (const axis of axes) {
+    const [minA, maxA] = project(a, axis.x, axis.y);
+    const [minB, maxB] = project(b, axis.x, axis.y);
+    const overlap = Math.min(maxA - minB, maxB - minA);
+    if (overlap < 0) return false;
+    if (overlap < best.penetration) {
+      best.nx = axis.x;
+      best.ny = axis.y;
+      best.penetration = overlap;
+    }
+  }
+  return true;
+}
+
+function project(shape: ColliderShape, nx: number, ny: number): [number, number] {
+  if (shape.kind === 'circle') {
+    const centre = shape.x * nx + shape.y * ny;
+    return [centre - shape.radius, centre + shape.radius];
+  }
+
+  let min = Infinity, max = -Infinity;
+  for (const p of shape.points) {
+    const d = p.x * nx + p.y * ny;
+    if (d < min) min = d;
+    if (d > max) max = d;
+  }
+  return [min, max];
+}
+
+/** SAT axes have no direction — make the normal point from a towards b */
+function orient(manifold: ContactManifold, dx: number, dy: number): ContactManifold {
+  if (manifold.nx * dx + manifold.ny * dy < 0) {
+    manifold.nx = -manifold.nx;
+    manifold.ny = -manifold.ny;
+  }
+  return manifold;
+}
+
+/** Where a ray first meets a shape: distance along the ray and the surface normal there */
+export interface RayIntersection {
+  distance: number;
+  nx: number;
+  ny: number;
+}
+
+/**
+ * Ray from (ox, oy) along the unit direction (dx, dy), up to `maxDistance`.
+ * A ray starting inside the shape hits it at distance 0, normal against the ray.
+ */
+export function raycastShape(shape: ColliderShape, ox: number, oy: number, dx: number, dy: number, maxDistance: number): RayIntersection | null {
+  return shape.kind === 'circle'
+    ? rayCircle(shape, ox, oy, dx, dy, maxDistance)
+    : rayPolygon(shape, ox, oy, dx, dy, maxDistance);
+}
+
+function rayCircle(circle: CircleShape, ox: number, oy: number, dx: number, dy: number, maxDistance: number): RayIntersection | null {
+  const fx = ox - circle.x;
+  const fy = oy - circle.y;
+  const c = fx * fx + fy * fy - circle.radius * circle.radius;
+  if (c <= 0) return { distance: 0, nx: -dx, ny: -dy };
+
+  // |f + t·d|² = r² with |d| = 1
+  const b = fx * dx + fy * dy;
+  const discriminant = b * b - c;
+  if (b > 0 || discriminant < 0) return null;
+
+  const distance = -b - Math.sqrt(discriminant);
+  if (distance > maxDistance) return null;
+  const hx = fx + dx * distance;
+  const hy = fy + dy * distance;
+  const length = Math.hypot(hx, hy) || 1;
+  return { distance, nx: hx / length, ny: hy / length };
+}
+
+/** Cyrus–Beck: clip the ray against every edge's half-plane */
+function rayPolygon(polygon: PolygonShape, ox: number, oy: number, dx: number, dy: number, maxDistance: number): RayIntersection | null {
+  let enter = -Infinity;
+  let exit = Infinity;
+  let nx = -dx;
+  let ny = -dy;
+
+  for (let i = 0; i < polygon.points.length; i++) {
+    const normal = polygon.normals[i];
+    const p = polygon.points[i];
+    const facing = normal.x * dx + normal.y * dy;
+    const inside = normal.x * (p.x - ox) + normal.y * (p.y - oy);
+    if (facing === 0) {
+      if (inside < 0) return null; // parallel and outside this edge
+      continue;
+    }
+
+    const t = inside / facing;
+    if (facing < 0) {
+      if (t > enter) { enter = t; nx = normal.x; ny = normal.y; }
+    } else if (t < exit) {
+      exit = t;
+    }
+    if (enter > exit) return null;
+  }
+
+  if (exit < 0 || enter > maxDistance) return null;
+  return enter <= 0 ? { distance: 0, nx: -dx, ny: -dy } : { distance: enter, nx, ny };
+}
+
+/** Farthest point of the shape along (nx, ny) */
+export function supportPoint(shape: ColliderShape, nx: number, ny: number): { x: number; y: number } {
+  if (shape.kind === 'circle') return { x: shape.x + nx * shape.radius, y: shape.y + ny * shape.radius };
+
+  let best = shape.points[0];
+  let bestDot = -Infinity;
+  for (const p of shape.points) {
+    const dot = p.x * nx + p.y * ny;
+    if (dot > bestDot) { bestDot = dot; best = p; }
+  }
+  return { x: best.x, y: best.y };
+}
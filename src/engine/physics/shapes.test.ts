@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { convexHull, polygonShape, regularPolygon, shapeBounds, simplifyHull } from './shapes';
+
+const square = [{ x: -1, y: -1 }, { x: 1, y: -1 }, { x: 1, y: 1 }, { x: -1, y: 1 }];
+
+describe('polygonShape', () => {
+  it('places, turns and scales the local outline', () => {
+    const shape = polygonShape([{ x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }], 10, 20, Math.PI / 2, 2);
+    expect(shape.points[0].x).toBeCloseTo(10);
+    expect(shape.points[0].y).toBeCloseTo(22);
+    expect(shape.points[1].x).toBeCloseTo(8);
+    expect(shape.points[1].y).toBeCloseTo(20);
+  });
+
+  it('points every edge normal outwards whatever the winding', () => {
+    for (const local of [square, [...square].reverse()]) {
+      const shape = polygonShape(local, 0, 0, 0);
+      shape.normals.forEach((normal, i) => {
+        const p = shape.points[i];
+        const q = shape.points[(i + 1) % shape.points.length];
+        expect(Math.hypot(normal.x, normal.y)).toBeCloseTo(1);
+        expect(normal.x * (p.x + q.x) + normal.y * (p.y + q.y)).toBeGreaterThan(0);
+      });
+    }
+  });
+});
+
+describe('shapeBounds', () => {
+  it('boxes a circle by its radius', () => {
+    expect(shapeBounds({ kind: 'circle', x: 5, y: -5, radius: 2 })).toEqual({ minX: 3, minY: -7, maxX: 7, maxY: -3 });
+  });
+
+  it('grows with rotation', () => {
+    const box = shapeBounds(polygonShape(square, 0, 0, Math.PI / 4));
+    expect(box.maxX).toBeCloseTo(Math.SQRT2);
+    expect(box.minY).toBeCloseTo(-Math.SQRT2);
+  });
+});
+
+describe('convexHull', () => {
+  it('drops inner, collinear and duplicate points', () => {
+    const hull = convexHull([...square, { x: 0, y: 0 }, { x: 0, y: -1 }, { x: 1, y: 1 }]);
+    expect(hull).toHaveLength(4);
+    expect(hull).toEqual(expect.arrayContaining(square));
+  });
+
+  it('returns fewer than three points as they are', () => {
+    expect(convexHull([{ x: 1, y: 2 }])).toEqual([{ x: 1, y: 2 }]);
+  });
+});
+
+describe('simplifyHull', () => {
+  it('keeps at most maxVertices corners, never fewer than three', () => {
+    const circle = regularPolygon(10, 32);
+    expect(simplifyHull(circle, 8)).toHaveLength(8);
+    expect(simplifyHull(circle, 1)).toHaveLength(3);
+  });
+
+  it('keeps corners of the original hull', () => {
+    const circle = regularPolygon(10, 16);
+    for (const p of simplifyHull(circle, 6)) expect(circle).toContainEqual(p);
+  });
+});
@@ -0,0 +1,123 @@
+import type { Vector2 } from '@/shared/types';
+
+/**
+ * Collider shapes in scene space, rebuilt from the object's transform every step.
+ * Boxes and polygons are both `PolygonShape`; its points are convex, in hull order.
+ */
+export interface CircleShape {
+  kind: 'circle';
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface PolygonShape {
+  kind: 'polygon';
+  /** Vertex mean — the reference point contact normals are oriented by */
+  x: number;
+  y: number;
+  points: Vector2[];
+  /** Outward unit normal of the edge points[i] → points[i + 1] */
+  normals: Vector2[];
+}
+
+export type ColliderShape = CircleShape | PolygonShape;
+
+export interface Aabb {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Rotation-aware bounds: a rotated box or polygon gets the box around its rotated corners */
+export function shapeBounds(shape: ColliderShape): Aabb {
+  if (shape.kind === 'circle') {
+    return { minX: shape.x - shape.radius, minY: shape.y - shape.radius, maxX: shape.x + shape.radius, maxY: shape.y + shape.radius };
+  }
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of shape.points) {
+    minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+/** Convex outline in local space → shape at position (x, y) turned by `rotation` and scaled */
+export function polygonShape(local: readonly Vector2[], x: number, y: number, rotation: number, scale = 1): PolygonShape {
+  const cos = Math.cos(rotation) * scale;
+  const sin = Math.sin(rotation) * scale;
+  const points = local.map(p => ({ x: x + p.x * cos - p.y * sin, y: y + p.x * sin + p.y * cos }));
+
+  let cx = 0, cy = 0;
+  for (const p of points) { cx += p.x; cy += p.y; }
+  cx /= points.length;
+  cy /= points.length;
+
+  const normals = points.map((p, i) => {
+    const q = points[(i + 1) % points.length];
+    const length = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    let nx = (q.y - p.y) / length;
+    let ny = -(q.x - p.x) / length;
+    // Hull order may be either winding — point the normal away from the middle
+    if (nx * ((p.x + q.x) / 2 - cx) + ny * ((p.y + q.y) / 2 - cy) < 0) { nx = -nx; ny = -ny; }
+    return { x: nx, y: ny };
+  });
+
+  return { kind: 'polygon', x: cx, y: cy, points, normals };
+}
+
+/** Andrew's monotone chain; drops collinear and duplicate points. Fewer than 3 points come back as is */
+export function convexHull(points: readonly Vector2[]): Vector2[] {
+  if (points.length < 3) return points.map(p => ({ x: p.x, y: p.y }));
+
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const cross = (o: Vector2, a: Vector2, b: Vector2) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+  const lower: Vector2[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Vector2[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+
+  lower.pop();
+  upper.pop();
+  return [...lower, ...upper].map(p => ({ x: p.x, y: p.y }));
+}
+
+/**
+ * Fewer hull corners for a cheaper narrowphase: repeatedly drops the corner whose
+ * removal loses the least area. The result stays inside the original hull
+ */
+export function simplifyHull(hull: readonly Vector2[], maxVertices: number): Vector2[] {
+  const points = [...hull];
+  const limit = Math.max(3, maxVertices);
+  while (points.length > limit) {
+    let best = 0;
+    let bestArea = Infinity;
+    for (let i = 0; i < points.length; i++) {
+      const prev = points[(i + points.length - 1) % points.length];
+      const next = points[(i + 1) % points.length];
+      const p = points[i];
+      const area = Math.abs((p.x - prev.x) * (next.y - prev.y) - (p.y - prev.y) * (next.x - prev.x));
+      if (area < bestArea) { bestArea = area; best = i; }
+    }
+    points.splice(best, 1);
+  }
+  return points;
+}
+
+/** `sides` corners on a circle — stand-in polygon for round things */
+export function regularPolygon(radius: number, sides: number): Vector2[] {
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = (i / sides) * Math.PI * 2;
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+}
@@ -0,0 +1,40 @@
+import type { GameObject } from '@/engine/GameObject';
+import type { ColliderComponent } from '@/engine/components/ColliderComponent';
+import type { Vector2 } from '@/shared/types';
+
+/**
+ * Collision layer bits. A collider sits on `layer` and reports contacts only with
+ * colliders whose layer is in its `mask` (both ways). Games define their own bits:
+ * `const FRAGMENTS = 1 << 1`.
+ */
+export const CollisionLayers = {
+  NONE: 0,
+  DEFAULT: 1,
+  ALL: 0xffffffff,
+} as const;
+
+/** What a component's `onCollision*` callbacks receive, from its own object's point of view */
+export interface Collision {
+  /** The other object and its collider */
+  gameObject: GameObject;
+  collider: ColliderComponent;
+  /** Unit vector from the other object towards this one */
+  normal: Vector2;
+  /** Overlap depth before resolution; for exits — the last one seen */
+  penetration: number;
+}
+
+/** One collider found by a PhysicsSystem scene query */
+export interface QueryHit {
+  gameObject: GameObject;
+  collider: ColliderComponent;
+  /** Point on (or, for point queries, inside) the collider */
+  point: Vector2;
+  /** Collider surface normal at `point`, facing the query */
+  normal: Vector2;
+}
+
+export interface RaycastHit extends QueryHit {
+  /** Distance from the ray origin to `point` */
+  distance: number;
+}
@@ -0,0 +1,65 @@
+// engine/random/SeededRandom.ts
+
+/**
+ * Small deterministic PRNG (mulberry32).
+ * Use the shared `rng` instead of Math.random anywhere gameplay or visuals must be
+ * reproducible — replays seed it and expect the same sequence of calls.
+ */
+export class SeededRandom {
+  private _seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.randomSeed()) {
+    this._seed = seed >>> 0;
+    this.state = this._seed;
+  }
+
+  static randomSeed(): number {
+    return (Math.random() * 0x100000000) >>> 0;
+  }
+
+  get seed(): number {
+    return this._seed;
+  }
+
+  /** Restart the sequence from `seed`. */
+  setSeed(seed: number): void {
+    this._seed = seed >>> 0;
+    this.state = this._seed;
+  }
+
+  /** Internal state, e.g. to compare two runs for divergence. */
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /** Float in [0, 1). Drop-in replacement for Math.random(). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /** Float in [min, max). */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Integer in [min, max] inclusive. */
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
+
+/** Shared game RNG. Seeded by ReplayService when recording or playing back. */
+export const rng = new SeededRandom();
@@ -0,0 +1,2 @@
+// Random package - детерминированный генератор случайных чисел
+export { SeededRandom, rng } from './SeededRandom';
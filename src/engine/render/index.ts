@@ -2,6 +2,7 @@
 export { PixiRenderer } from './PixiRenderer';
 export { RENDER_CONFIG, type RenderConfig } from './RenderConfig';
 export { LayerManager, LAYER_DEPTHS, type LayerDepth } from './LayerManager';
+export { compareRenderOrder } from './renderOrder';
 export { 
   computeLayout, 
   createSafeAreaProbe, 
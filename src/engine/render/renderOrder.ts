@@ -0,0 +1,31 @@
+import type * as PIXI from 'pixi.js';
+
+/**
+ * Draw order of two display objects: negative when `a` is drawn below `b`, positive when
+ * above, 0 when they aren't on the same stage. Follows Pixi's rules: parents before their
+ * children, siblings by zIndex where the parent sorts them, then by child index.
+ */
+export function compareRenderOrder(a: PIXI.Container, b: PIXI.Container): number {
+  if (a === b) return 0;
+  const pathA = ancestry(a);
+  const pathB = ancestry(b);
+  if (pathA[0] !== pathB[0]) return 0;
+
+  let depth = 1;
+  while (depth < pathA.length && depth < pathB.length && pathA[depth] === pathB[depth]) depth++;
+  // One is an ancestor of the other — the ancestor is drawn first
+  if (depth === pathA.length || depth === pathB.length) return pathA.length - pathB.length;
+
+  const parent = pathA[depth - 1];
+  const childA = pathA[depth];
+  const childB = pathB[depth];
+  if (parent.sortableChildren && childA.zIndex !== childB.zIndex) return childA.zIndex - childB.zIndex;
+  return parent.children.indexOf(childA) - parent.children.indexOf(childB);
+}
+
+/** Root first, the object itself last */
+function ancestry(container: PIXI.Container): PIXI.Container[] {
+  const path: PIXI.Container[] = [];
+  for (let node: PIXI.Container | null = container; node; node = node.parent) path.push(node);
+  return path.reverse();
+}
@@ -0,0 +1,389 @@
+import * as PIXI from 'pixi.js';
+import { logger } from '@/engine/logging';
+import { eventBus, type AppEvents } from '@/engine/events/EventBus';
+import { InputManager, type PointerInputEvent } from '@/engine/input/InputManager';
+import { GestureRecognizer } from '@/engine/input/GestureRecognizer';
+import { SceneManager } from '@/engine/scene/SceneManager';
+import { rng, SeededRandom } from '@/engine/random';
+import { playerProfileSchema, profileActions, profileStore } from '@/stores/game';
+import type { Game } from '@/engine/Game';
+import {
+  REPLAY_FORMAT_VERSION,
+  type ReplayFingerprint,
+  type ReplayFrame,
+  type ReplayGestureEvent,
+  type ReplayInputEvent,
+  type ReplayMode,
+  type ReplayRecording,
+  type ReplayResult,
+} from './types';
+
+const GESTURE_EVENTS = ['gesture-tap', 'gesture-double-tap', 'gesture-long-press', 'gesture-swipe'] as const;
+
+/** Startup request parsed from the URL (`?record`, `?replay=<url>[&headless]`). */
+interface StartupRequest {
+  mode: 'record' | 'play';
+  recording?: ReplayRecording;
+  headless?: boolean;
+}
+
+/**
+ * Records and plays back sessions deterministically.
+ *
+ * While active, the service owns the game loop: it detaches Game from the PIXI ticker
+ * and calls `game.tick(dt)` itself — with the real frame time when recording and with
+ * the recorded one on playback. Input is captured as InputManager pointer events plus
+ * the gestures GestureRecognizer produced; on playback device input and gesture
+ * recognition are muted and the recorded events are injected at the same frames.
+ * The shared `rng` is seeded from the recording.
+ *
+ * Faithful playback needs the same starting state, so record from startup (`?record`).
+ * GSAP tweens and setTimeout-based logic run on wall-clock time and are not replayed.
+ */
+export class ReplayService {
+  private static instance: ReplayService | null = null;
+
+  private game: Game | null = null;
+  private mode: ReplayMode = 'idle';
+  private startup: StartupRequest | null = null;
+  private recording: ReplayRecording | null = null;
+  private pendingEvents: ReplayInputEvent[] = [];
+  private playbackFrame = 0;
+  private playbackResolve: ((result: ReplayResult) => void) | null = null;
+  private unsubscribes: (() => void)[] = [];
+  private readonly tickerCallback = (ticker: PIXI.Ticker) => this.onTick(ticker.deltaMS / 1000);
+
+  public static getInstance(): ReplayService {
+    if (!this.instance) {
+      this.instance = new ReplayService();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Read URL flags and seed the RNG. Call before `game.startGame()` so scene setup
+   * already draws from the seeded sequence.
+   */
+  public async initialize(game: Game): Promise<void> {
+    this.game = game;
+
+    const params = new URLSearchParams(window.location.search);
+    const replayUrl = params.get('replay');
+
+    try {
+      if (replayUrl) {
+        const recording = await this.fetchRecording(replayUrl);
+        this.prepareState(recording);
+        this.startup = { mode: 'play', recording, headless: params.has('headless') };
+        logger.info(`🎬 Replay loaded: ${recording.frames.length} frames`, { source: 'replay' });
+      } else if (params.has('record')) {
+        rng.setSeed(SeededRandom.randomSeed());
+        this.startup = { mode: 'record' };
+      }
+    } catch (error) {
+      logger.error('❌ Failed to load replay', error as Error, { source: 'replay' });
+    }
+  }
+
+  /**
+   * Start what the URL asked for. Call right after `game.startGame()`.
+   */
+  public startFromUrl(): void {
+    const startup = this.startup;
+    this.startup = null;
+    if (!startup) return;
+
+    if (startup.mode === 'record') {
+      this.startRecording({ keepSeed: true });
+    } else if (startup.recording) {
+      void this.play(startup.recording, { headless: startup.headless, keepState: true });
+    }
+  }
+
+  public get currentMode(): ReplayMode {
+    return this.mode;
+  }
+
+  // ===== Recording =====
+
+  /**
+   * Start recording from the current state. The RNG is reseeded unless `keepSeed` is set.
+   */
+  public startRecording(options: { keepSeed?: boolean } = {}): void {
+    if (!this.game || this.mode !== 'idle') {
+      logger.warn(`⚠️ Cannot start recording (mode: ${this.mode})`, { source: 'replay' });
+      return;
+    }
+    if (!options.keepSeed) {
+      rng.setSeed(SeededRandom.randomSeed());
+    }
+
+    this.recording = {
+      version: REPLAY_FORMAT_VERSION,
+      seed: rng.seed,
+      createdAt: new Date().toISOString(),
+      viewport: this.getViewport(),
+      // Saved form (BigNum amounts as strings), like a save — structuredClone would drop their class
+      profile: JSON.parse(JSON.stringify(profileStore.get())),
+      frames: [],
+    };
+    this.pendingEvents = [];
+
+    this.unsubscribes.push(
+      eventBus.on('pointer-start', (data) => this.capture({ type: 'pointer-start', position: { ...data.position } })),
+      eventBus.on('pointer-move', (data) => this.capture({ type: 'pointer-move', position: { ...data.position } })),
+      eventBus.on('pointer-end', () => this.capture({ type: 'pointer-end' })),
+      ...GESTURE_EVENTS.map(type =>
+        eventBus.on(type, (data: AppEvents[typeof type]) => this.capture({ type, data: structuredClone(data) } as ReplayGestureEvent))
+      ),
+    );
+
+    this.takeOverLoop();
+    this.mode = 'recording';
+    logger.info(`⏺️ Replay recording started (seed ${rng.seed})`, { source: 'replay' });
+  }
+
+  /**
+   * Stop recording and return the finished recording.
+   */
+  public stopRecording(): ReplayRecording | null {
+    if (this.mode !== 'recording' || !this.recording) return null;
+
+    this.clearSubscriptions();
+    this.releaseLoop();
+    this.mode = 'idle';
+
+    const recording = this.finalize(this.recording);
+    this.recording = null;
+    logger.info(`⏹️ Replay recording stopped: ${recording.frames.length} frames`, { source: 'replay' });
+    return recording;
+  }
+
+  /**
+   * Snapshot of the recording so far (recording continues).
+   */
+  public exportRecording(): ReplayRecording | null {
+    if (!this.recording) return null;
+    return this.finalize(structuredClone(this.recording));
+  }
+
+  // ===== Playback =====
+
+  /**
+   * Play a recording. Resolves when the last frame has run.
+   * Headless playback runs every frame synchronously, without waiting for the renderer.
+   */
+  public play(
+    recording: ReplayRecording,
+    options: { headless?: boolean; keepState?: boolean } = {}
+  ): Promise<ReplayResult> {
+    if (!this.game || this.mode !== 'idle') {
+      return Promise.reject(new Error(`[ReplayService] cannot play (mode: ${this.mode})`));
+    }
+    if (recording.version !== REPLAY_FORMAT_VERSION) {
+      return Promise.reject(new Error(`[ReplayService] unsupported replay version ${recording.version}`));
+    }
+    if (!options.keepState) {
+      this.prepareState(recording);
+    }
+
+    const viewport = this.getViewport();
+    if (viewport.width !== recording.viewport.width || viewport.height !== recording.viewport.height) {
+      logger.warn('⚠️ Viewport differs from the recording, pointer positions may miss', {
+        source: 'replay',
+        recorded: recording.viewport,
+        current: viewport,
+      });
+    }
+
+    this.recording = recording;
+    this.playbackFrame = 0;
+    this.mode = 'playing';
+    InputManager.getInstance().setLiveInputEnabled(false);
+    GestureRecognizer.getInstance().setEnabled(false);
+    logger.info(`▶️ Replay playback started${options.headless ? ' (headless)' : ''}`, { source: 'replay' });
+
+    return new Promise<ReplayResult>((resolve) => {
+      this.playbackResolve = resolve;
+      if (options.headless) {
+        this.game!.stopGame();
+        while (this.mode === 'playing') this.playNextFrame();
+      } else {
+        this.takeOverLoop();
+      }
+    });
+  }
+
+  /**
+   * Abort playback or recording and give the loop back to Game.
+   */
+  public stop(): void {
+    if (this.mode === 'recording') {
+      this.stopRecording();
+    } else if (this.mode === 'playing') {
+      this.finishPlayback();
+    }
+  }
+
+  /**
+   * Fingerprint of the current simulation state (RNG position + scene transforms).
+   */
+  public fingerprint(): ReplayFingerprint {
+    return { rngState: rng.getState(), sceneChecksum: this.sceneChecksum() };
+  }
+
+  public destroy(): void {
+    this.stop();
+    this.game = null;
+  }
+
+  // ===== Internals =====
+
+  private onTick(frameTime: number): void {
+    if (this.mode === 'recording') {
+      this.recordFrame(frameTime);
+    } else if (this.mode === 'playing') {
+      this.playNextFrame();
+    }
+  }
+
+  private recordFrame(frameTime: number): void {
+    const frame: ReplayFrame = { dt: frameTime };
+    if (this.pendingEvents.length > 0) {
+      frame.events = this.pendingEvents;
+      this.pendingEvents = [];
+    }
+    this.recording!.frames.push(frame);
+    this.game!.tick(frameTime);
+  }
+
+  private playNextFrame(): void {
+    const frames = this.recording!.frames;
+    if (this.playbackFrame >= frames.length) {
+      this.finishPlayback();
+      return;
+    }
+
+    const frame = frames[this.playbackFrame++];
+    if (frame.events) {
+      for (const event of frame.events) this.inject(event);
+    }
+    this.game!.tick(frame.dt);
+  }
+
+  private finishPlayback(): void {
+    const recording = this.recording!;
+    const actual = this.fingerprint();
+    const expected = recording.final;
+    const diverged = !!expected
+      && (expected.rngState !== actual.rngState || expected.sceneChecksum !== actual.sceneChecksum);
+
+    const result: ReplayResult = {
+      frames: this.playbackFrame,
+      duration: recording.frames.slice(0, this.playbackFrame).reduce((sum, f) => sum + f.dt, 0),
+      diverged,
+      expected,
+      actual,
+    };
+
+    this.releaseLoop();
+    InputManager.getInstance().setLiveInputEnabled(true);
+    GestureRecognizer.getInstance().setEnabled(true);
+    this.recording = null;
+    this.mode = 'idle';
+
+    if (diverged) {
+      logger.warn('⚠️ Replay diverged from the recording', { source: 'replay', expected, actual });
+    } else {
+      logger.info(`✅ Replay finished: ${result.frames} frames`, { source: 'replay' });
+    }
+
+    this.playbackResolve?.(result);
+    this.playbackResolve = null;
+  }
+
+  private inject(event: ReplayInputEvent): void {
+    switch (event.type) {
+      case 'pointer-start':
+      case 'pointer-move':
+      case 'pointer-end':
+        InputManager.getInstance().injectPointerEvent(event as PointerInputEvent);
+        break;
+      default:
+        eventBus.emit(event.type, event.data as never);
+    }
+  }
+
+  private capture(event: ReplayInputEvent): void {
+    this.pendingEvents.push(event);
+  }
+
+  private prepareState(recording: ReplayRecording): void {
+    rng.setSeed(recording.seed);
+    if (recording.profile) {
+      const result = playerProfileSchema.safeParse(recording.profile);
+      if (result.success) profileActions.loadProfile(result.data);
+      else logger.warn('⚠️ Recorded profile is invalid, playing back on the current one', { source: 'replay' });
+    }
+  }
+
+  private finalize(recording: ReplayRecording): ReplayRecording {
+    recording.final = this.fingerprint();
+    return recording;
+  }
+
+  private takeOverLoop(): void {
+    const ticker = this.getTicker();
+    this.game!.stopGame();
+    ticker?.add(this.tickerCallback);
+  }
+
+  private releaseLoop(): void {
+    this.getTicker()?.remove(this.tickerCallback);
+    this.game?.resumeGame();
+  }
+
+  private getTicker(): PIXI.Ticker | null {
+    return this.game?.getManager<{ getApp(): PIXI.Application }>('renderer')?.getApp()?.ticker ?? null;
+  }
+
+  private getViewport(): { width: number; height: number } {
+    const canvas = document.getElementById('pixi-canvas');
+    const rect = canvas?.getBoundingClientRect();
+    return { width: Math.round(rect?.width ?? 0), height: Math.round(rect?.height ?? 0) };
+  }
+
+  private async fetchRecording(url: string): Promise<ReplayRecording> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`[ReplayService] failed to fetch ${url}: ${response.status}`);
+    }
+    return (await response.json()) as ReplayRecording;
+  }
+
+  private sceneChecksum(): string {
+    // FNV-1a over names and transforms, rounded to hide float noise in formatting
+    let hash = 0x811c9dc5;
+    const feed = (text: string) => {
+      for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+      }
+    };
+
+    const scene = SceneManager().current;
+    if (scene) {
+      for (const go of scene.gameObjects) {
+        feed(`${go.name}:${go.x.toFixed(2)},${go.y.toFixed(2)},${go.rotation.toFixed(3)},${go.scale.toFixed(3)};`);
+      }
+    }
+    return hash.toString(16).padStart(8, '0');
+  }
+
+  private clearSubscriptions(): void {
+    for (const unsub of this.unsubscribes) unsub();
+    this.unsubscribes.length = 0;
+  }
+}
+
+export const replayService = ReplayService.getInstance();
@@ -0,0 +1,3 @@
+// Replay package - запись и детерминированное воспроизведение сессий
+export { ReplayService, replayService } from './ReplayService';
+export * from './types';
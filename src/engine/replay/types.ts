@@ -0,0 +1,51 @@
+import type { AppEvents } from '@/engine/events/EventBus';
+import type { PointerInputEvent } from '@/engine/input/InputManager';
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+/** Gesture recognised during recording — re-emitted as-is on playback. */
+export type ReplayGestureEvent =
+  | { type: 'gesture-tap'; data: AppEvents['gesture-tap'] }
+  | { type: 'gesture-double-tap'; data: AppEvents['gesture-double-tap'] }
+  | { type: 'gesture-long-press'; data: AppEvents['gesture-long-press'] }
+  | { type: 'gesture-swipe'; data: AppEvents['gesture-swipe'] };
+
+export type ReplayInputEvent = PointerInputEvent | ReplayGestureEvent;
+
+/**
+ * One rendered frame: raw frame time (seconds, before clamping) and the input
+ * that arrived since the previous frame.
+ */
+export interface ReplayFrame {
+  dt: number;
+  events?: ReplayInputEvent[];
+}
+
+export interface ReplayRecording {
+  version: number;
+  seed: number;
+  createdAt: string;
+  /** Canvas size in CSS px — pointer positions are only meaningful at the same size. */
+  viewport: { width: number; height: number };
+  /** Profile at the start of recording, restored before playback. */
+  profile?: unknown;
+  frames: ReplayFrame[];
+  /** State after the last frame, used to detect divergence on playback. */
+  final?: ReplayFingerprint;
+}
+
+export interface ReplayFingerprint {
+  rngState: number;
+  sceneChecksum: string;
+}
+
+export interface ReplayResult {
+  frames: number;
+  /** Simulated time in seconds (sum of frame dt). */
+  duration: number;
+  diverged: boolean;
+  expected?: ReplayFingerprint;
+  actual: ReplayFingerprint;
+}
+
+export type ReplayMode = 'idle' | 'recording' | 'playing';
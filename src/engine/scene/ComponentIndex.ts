@@ -1,51 +1,119 @@
 // engine/scene/ComponentIndex.ts
 import type { GameObject } from '../GameObject';
+import { Query } from './Query';
 
-type ComponentType = new (...args: any[]) => any;
+export type ComponentType = abstract new (...args: any[]) => any;
 
 /**
  * O(1) component-type → Set<GameObject> lookup for a Scene.
  * Maintained automatically by Scene.add/remove and GameObject.add/remove.
+ * Also owns the cached multi-component queries (see Query) and keeps them in sync.
  */
 export class ComponentIndex {
   private index = new Map<Function, Set<GameObject>>();
+  private queries = new Map<string, Query>();
 
   track(gameObject: GameObject, componentType: Function): void {
-    let set = this.index.get(componentType);
-    if (!set) {
-      set = new Set();
-      this.index.set(componentType, set);
-    }
-    set.add(gameObject);
+    this.addToIndex(gameObject, componentType);
+    this.refreshQueries(gameObject, componentType);
   }
 
+  /** Call after the component is already gone from the GameObject. */
   untrack(gameObject: GameObject, componentType: Function): void {
-    const set = this.index.get(componentType);
-    if (set) {
-      set.delete(gameObject);
-      if (set.size === 0) this.index.delete(componentType);
-    }
+    this.removeFromIndex(gameObject, componentType);
+    this.refreshQueries(gameObject, componentType);
   }
 
   trackAll(gameObject: GameObject): void {
     for (const comp of gameObject.getComponents()) {
-      this.track(gameObject, comp.constructor);
+      this.addToIndex(gameObject, comp.constructor);
     }
+    for (const query of this.queries.values()) query._refresh(gameObject);
   }
 
   untrackAll(gameObject: GameObject): void {
     for (const comp of gameObject.getComponents()) {
-      this.untrack(gameObject, comp.constructor);
+      this.removeFromIndex(gameObject, comp.constructor);
     }
+    for (const query of this.queries.values()) query._evict(gameObject);
   }
 
   query(type: ComponentType): ReadonlySet<GameObject> {
     return this.index.get(type) ?? emptySet;
   }
 
+  /**
+   * Cached live query: objects with all `withTypes` and none of `withoutTypes`.
+   * The same type lists (in any order) always return the same Query instance.
+   */
+  getQuery(withTypes: readonly ComponentType[], withoutTypes: readonly ComponentType[] = []): Query {
+    if (withTypes.length === 0) {
+      throw new Error('[ComponentIndex] query requires at least one component type');
+    }
+    const key = `${typeKey(withTypes)}|${typeKey(withoutTypes)}`;
+    let query = this.queries.get(key);
+    if (!query) {
+      query = new Query(this, unique(withTypes), unique(withoutTypes));
+      this.queries.set(key, query);
+      for (const gameObject of this.candidates(withTypes[0])) query._refresh(gameObject);
+    }
+    return query;
+  }
+
   clear(): void {
     this.index.clear();
+    for (const query of this.queries.values()) query._reset();
+    this.queries.clear();
+  }
+
+  private addToIndex(gameObject: GameObject, componentType: Function): void {
+    let set = this.index.get(componentType);
+    if (!set) {
+      set = new Set();
+      this.index.set(componentType, set);
+    }
+    set.add(gameObject);
+  }
+
+  private removeFromIndex(gameObject: GameObject, componentType: Function): void {
+    const set = this.index.get(componentType);
+    if (set) {
+      set.delete(gameObject);
+      if (set.size === 0) this.index.delete(componentType);
+    }
+  }
+
+  private refreshQueries(gameObject: GameObject, componentType: Function): void {
+    for (const query of this.queries.values()) {
+      if (query.dependsOn(componentType)) query._refresh(gameObject);
+    }
+  }
+
+  /** Objects having `type` or any subclass of it. */
+  private *candidates(type: ComponentType): Iterable<GameObject> {
+    for (const [indexedType, set] of this.index) {
+      if (indexedType === type || indexedType.prototype instanceof type) yield* set;
+    }
   }
 }
 
 const emptySet: ReadonlySet<GameObject> = new Set();
+
+const typeIds = new WeakMap<Function, number>();
+let nextTypeId = 0;
+
+function typeKey(types: readonly Function[]): string {
+  const ids = types.map(type => {
+    let id = typeIds.get(type);
+    if (id === undefined) {
+      id = nextTypeId++;
+      typeIds.set(type, id);
+    }
+    return id;
+  });
+  return [...new Set(ids)].sort((a, b) => a - b).join(',');
+}
+
+function unique<T>(items: readonly T[]): T[] {
+  return [...new Set(items)];
+}
@@ -0,0 +1,114 @@
+// engine/scene/Query.ts
+import type { GameObject } from '../GameObject';
+import type { ComponentIndex, ComponentType } from './ComponentIndex';
+
+export type QueryListener = (gameObject: GameObject) => void;
+
+/**
+ * Live set of GameObjects that have every `with` component and none of the `without` ones.
+ * Matching follows GameObject.get — a subclass satisfies its base type.
+ *
+ * Created and cached by ComponentIndex (use `scene.query(...)`), then kept up to date
+ * incrementally as components and objects come and go — no per-frame scans.
+ * Queries are shared and live as long as the scene; unsubscribe listeners, don't dispose.
+ */
+export class Query implements Iterable<GameObject> {
+  private readonly matched = new Set<GameObject>();
+  private readonly addedListeners = new Set<QueryListener>();
+  private readonly removedListeners = new Set<QueryListener>();
+
+  constructor(
+    private readonly index: ComponentIndex,
+    readonly withTypes: readonly ComponentType[],
+    readonly withoutTypes: readonly ComponentType[],
+  ) {}
+
+  /** Current matches. The set is live — do not cache a copy per frame. */
+  get results(): ReadonlySet<GameObject> {
+    return this.matched;
+  }
+
+  get size(): number {
+    return this.matched.size;
+  }
+
+  [Symbol.iterator](): Iterator<GameObject> {
+    return this.matched.values();
+  }
+
+  toArray(): GameObject[] {
+    return Array.from(this.matched);
+  }
+
+  has(gameObject: GameObject): boolean {
+    return this.matched.has(gameObject);
+  }
+
+  /** Narrow the query with more required components (returns a cached query). */
+  with(...types: ComponentType[]): Query {
+    return this.index.getQuery([...this.withTypes, ...types], this.withoutTypes);
+  }
+
+  /** Exclude objects that have any of the given components (returns a cached query). */
+  without(...types: ComponentType[]): Query {
+    return this.index.getQuery(this.withTypes, [...this.withoutTypes, ...types]);
+  }
+
+  /** Subscribe to objects entering the query. Returns an unsubscribe function. */
+  onAdded(listener: QueryListener): () => void {
+    this.addedListeners.add(listener);
+    return () => this.addedListeners.delete(listener);
+  }
+
+  /** Subscribe to objects leaving the query. Returns an unsubscribe function. */
+  onRemoved(listener: QueryListener): () => void {
+    this.removedListeners.add(listener);
+    return () => this.removedListeners.delete(listener);
+  }
+
+  matches(gameObject: GameObject): boolean {
+    for (const type of this.withTypes) {
+      if (!gameObject.get(type)) return false;
+    }
+    for (const type of this.withoutTypes) {
+      if (gameObject.get(type)) return false;
+    }
+    return true;
+  }
+
+  /** True if adding/removing a component of `componentType` can change this query's result. */
+  dependsOn(componentType: Function): boolean {
+    return this.withTypes.some(t => isSubtype(componentType, t))
+      || this.withoutTypes.some(t => isSubtype(componentType, t));
+  }
+
+  /** @internal Re-evaluate a single object. Called by ComponentIndex. */
+  _refresh(gameObject: GameObject): void {
+    const isMatch = this.matches(gameObject);
+    if (isMatch === this.matched.has(gameObject)) return;
+
+    if (isMatch) {
+      this.matched.add(gameObject);
+      for (const listener of this.addedListeners) listener(gameObject);
+    } else {
+      this._evict(gameObject);
+    }
+  }
+
+  /** @internal Forget all matches without notifying. Called on scene teardown. */
+  _reset(): void {
+    this.matched.clear();
+    this.addedListeners.clear();
+    this.removedListeners.clear();
+  }
+
+  /** @internal Drop an object that left the scene. Called by ComponentIndex. */
+  _evict(gameObject: GameObject): void {
+    if (!this.matched.delete(gameObject)) return;
+    for (const listener of this.removedListeners) listener(gameObject);
+  }
+}
+
+function isSubtype(type: Function, base: Function): boolean {
+  return type === base || type.prototype instanceof base;
+}
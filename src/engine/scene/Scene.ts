@@ -3,34 +3,95 @@ import * as PIXI from 'pixi.js';
 import { GameObject } from "../GameObject";
 import { Component } from "../Component";
 import { System } from "../systems/System";
-import { ComponentIndex } from "./ComponentIndex";
+import { ComponentIndex, type ComponentType } from "./ComponentIndex";
+import type { Query } from "./Query";
+import { snapshotScene, restoreScene } from "../serialization/SceneSerializer";
+import type { SceneSnapshot } from "../serialization/types";
 import type { GameManagers } from "../types";
 
 export type UpdateStep = (deltaTime: number) => void;
 
 export abstract class Scene {
+  /** Flat list of every object in the scene, including children of other objects. */
   readonly gameObjects: GameObject[] = [];
   readonly preUpdateSteps: UpdateStep[] = [];
   readonly postUpdateSteps: UpdateStep[] = [];
   readonly componentIndex = new ComponentIndex();
   /** Default container for PixiSpriteRenderer when none is explicitly provided. */
   defaultContainer: PIXI.Container | null = null;
+  /**
+   * Progress between the last two fixed steps (0..1), set by Game every frame.
+   * Renderers blend previous/current transforms with it. Always 1 in variable-step mode.
+   */
+  interpolationAlpha = 1;
+  /**
+   * Overlay scenes (pause menu, dialogs) keep the scene below visible when pushed.
+   * Regular pushed scenes hide it until they are popped.
+   */
+  readonly isOverlay: boolean = false;
+  /** Stable key for save games. Scenes without one cannot be snapshotted. */
+  readonly saveKey: string | null = null;
   protected managers: GameManagers | null = null;
   protected systems: System[] = [];
+  private _visible = true;
 
   initialize(managers: GameManagers) {
     this.managers = managers;
   }
 
+  get isInitialized(): boolean {
+    return this.managers !== null;
+  }
+
+  get visible(): boolean {
+    return this._visible;
+  }
+
+  setVisible(visible: boolean): void {
+    if (this._visible === visible) return;
+    this._visible = visible;
+    this.onVisibilityChanged(visible);
+  }
+
+  /**
+   * Load what the scene needs before it is entered (awaited by `sceneManager.transitionTo`).
+   * Report progress in 0..1 through `onProgress`.
+   */
+  async preload(_onProgress: (progress: number) => void): Promise<void> {}
+
+  /**
+   * Add an object together with all of its children.
+   * An object whose parent lives elsewhere is detached and becomes a root here.
+   */
   add(gameObject: GameObject) {
+    if (gameObject.scene === this) return gameObject;
+    if (gameObject.parent && gameObject.parent.scene !== this) {
+      gameObject.parent.removeChild(gameObject);
+    }
+
     this.gameObjects.push(gameObject);
     gameObject.scene = this;
     gameObject._onAddedToScene(this);
     this.componentIndex.trackAll(gameObject);
+    for (const child of gameObject.children) this.add(child);
     return gameObject;
   }
 
+  /**
+   * Remove an object together with all of its children.
+   * The subtree stays intact, so it can be re-added to a scene later.
+   */
   remove(gameObject: GameObject) {
+    if (gameObject.scene !== this) return;
+    if (gameObject.parent?.scene === this) {
+      gameObject.parent.removeChild(gameObject);
+    }
+    this.removeSubtree(gameObject);
+  }
+
+  private removeSubtree(gameObject: GameObject): void {
+    for (const child of gameObject.children) this.removeSubtree(child);
+
     const index = this.gameObjects.indexOf(gameObject);
     if (index >= 0) {
       this.gameObjects[index] = this.gameObjects[this.gameObjects.length - 1];
@@ -41,10 +102,15 @@ export abstract class Scene {
     }
   }
 
-  onEnter(_previousScene: Scene | null): void {}
+  /** May be async — `sceneManager.transitionTo` waits for it before revealing the scene. */
+  onEnter(_previousScene: Scene | null): void | Promise<void> {}
   onExit(_nextScene: Scene | null): void {}
   onSuspend(): void {}
   onResume(): void {}
+  /** Show/hide the scene's Pixi containers. Defaults to `defaultContainer`. */
+  protected onVisibilityChanged(visible: boolean): void {
+    if (this.defaultContainer) this.defaultContainer.visible = visible;
+  }
 
   addSystem<T extends System>(system: T): T {
     this.systems.push(system);
@@ -65,6 +131,32 @@ export abstract class Scene {
     return this.systems.find((s): s is T => s instanceof type);
   }
 
+  getSystems(): readonly System[] {
+    return this.systems;
+  }
+
+  /**
+   * Serialize the world: every GameObject whose components are all registered
+   * in `componentRegistry`, plus state of systems that have a `saveKey`.
+   */
+  snapshot(): SceneSnapshot {
+    if (!this.saveKey) {
+      throw new Error(`[${this.constructor.name}] cannot snapshot a scene without saveKey`);
+    }
+    return snapshotScene(this, this.saveKey);
+  }
+
+  /**
+   * Rebuild serializable objects and system state from a snapshot.
+   * Call after onEnter has set up systems and containers.
+   */
+  restore(snapshot: SceneSnapshot): boolean {
+    if (!this.saveKey) {
+      throw new Error(`[${this.constructor.name}] cannot restore a scene without saveKey`);
+    }
+    return restoreScene(this, snapshot, this.saveKey, this.managers);
+  }
+
   protected destroyAllSystems(): void {
     for (const s of this.systems) s.destroy();
     this.systems.length = 0;
@@ -81,10 +173,26 @@ export abstract class Scene {
     this.componentIndex.clear();
   }
 
+  /**
+   * Simulation step. In fixed-step mode runs 0..N times per frame with a constant dt,
+   * otherwise once per frame with the frame dt, always before `update`.
+   */
+  fixedUpdate(deltaTime: number) {
+    for (const gameObject of this.gameObjects) gameObject._capturePreviousTransform();
+    for (const s of this.systems) s.fixedUpdate(deltaTime);
+    for (const gameObject of this.gameObjects) {
+      if (!gameObject.parent) gameObject.fixedUpdate(deltaTime);
+    }
+    for (const gameObject of this.gameObjects) gameObject._captureStepTransform();
+  }
+
   update(deltaTime: number) {
     for (const step of this.preUpdateSteps) step(deltaTime);
     for (const s of this.systems) s.update(deltaTime);
-    for (const gameObject of this.gameObjects) gameObject.update(deltaTime);
+    // Children are updated by their parents
+    for (const gameObject of this.gameObjects) {
+      if (!gameObject.parent) gameObject.update(deltaTime);
+    }
     for (const step of this.postUpdateSteps) step(deltaTime);
   }
 
@@ -95,6 +203,15 @@ export abstract class Scene {
     return this.componentIndex.query(type);
   }
 
+  /**
+   * Cached live query over several component types, e.g.
+   * `scene.query(VelocityComponent, CircleColliderComponent).without(StaticTag)`.
+   * Subclasses match their base types, as in GameObject.get.
+   */
+  query(...types: ComponentType[]): Query {
+    return this.componentIndex.getQuery(types);
+  }
+
   /**
    * Найти все GameObject'ы с определенным компонентом (array version, uses index)
    */
@@ -106,13 +223,12 @@ export abstract class Scene {
    * Найти все GameObject'ы с несколькими компонентами
    */
   findGameObjectsWithComponents<T extends Component>(...componentTypes: (new (...args: any[]) => T)[]): GameObject[] {
-    return this.gameObjects.filter(gameObject => 
-      componentTypes.every(componentType => gameObject.has(componentType))
-    );
+    return this.query(...componentTypes).toArray();
   }
 
   /**
-   * Найти GameObject'ы в радиусе от точки
+   * Найти GameObject'ы в радиусе от точки (мировые координаты).
+   * Сравнивает только позиции; для пересечения с формами коллайдеров — PhysicsSystem.overlapCircle
    */
   findGameObjectsInRadius<T extends Component>(
     centerX: number, 
@@ -124,9 +240,11 @@ export abstract class Scene {
       ? this.findGameObjectsWithComponent(componentType)
       : this.gameObjects;
 
+    const world = { x: 0, y: 0 };
     return candidates.filter(gameObject => {
-      const dx = gameObject.x - centerX;
-      const dy = gameObject.y - centerY;
+      gameObject.getWorldPosition(world);
+      const dx = world.x - centerX;
+      const dy = world.y - centerY;
       const distance = Math.sqrt(dx * dx + dy * dy);
       return distance <= radius;
     });
@@ -144,15 +262,18 @@ export abstract class Scene {
     
     if (candidates.length === 0) return null;
 
+    const world = { x: 0, y: 0 };
     let nearest = candidates[0];
+    nearest.getWorldPosition(world);
     let nearestDistance = Math.sqrt(
-      Math.pow(nearest.x - centerX, 2) + Math.pow(nearest.y - centerY, 2)
+      Math.pow(world.x - centerX, 2) + Math.pow(world.y - centerY, 2)
     );
 
     for (let i = 1; i < candidates.length; i++) {
       const gameObject = candidates[i];
+      gameObject.getWorldPosition(world);
       const distance = Math.sqrt(
-        Math.pow(gameObject.x - centerX, 2) + Math.pow(gameObject.y - centerY, 2)
+        Math.pow(world.x - centerX, 2) + Math.pow(world.y - centerY, 2)
       );
       
       if (distance < nearestDistance) {
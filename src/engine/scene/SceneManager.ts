@@ -1,7 +1,31 @@
 // engine/scene/SceneManager.ts
+import * as PIXI from 'pixi.js';
 import { Scene } from "./Scene";
+import { createSceneTransition, type SceneTransition, type SceneTransitionType } from "./SceneTransition";
+import { InputManager } from "../input/InputManager";
+import { eventBus } from "../events/EventBus";
+import { logger } from "../logging";
 import type { GameManagers } from "../types";
 
+export interface SceneTransitionOptions {
+  /** Overlay animation. Defaults to 'fade'. */
+  transition?: SceneTransitionType;
+  /** Required when `transition` is 'custom'. */
+  customTransition?: SceneTransition;
+  /** Seconds per half (cover / reveal). */
+  duration?: number;
+  /** Await `scene.preload()` while the screen is covered. Defaults to true. */
+  preload?: boolean;
+  /**
+   * How the new scene enters the stack:
+   * 'replace' (default) tears the old scene down, 'switch' only exits it, 'push' suspends it.
+   */
+  mode?: 'replace' | 'switch' | 'push';
+}
+
+const TRANSITION_INPUT_LOCK = 'scene-transition';
+const OVERLAY_Z_INDEX = 100_000;
+
 export class SceneManagerInstance {
   private static instance: SceneManagerInstance;
   static getInstance(): SceneManagerInstance {
@@ -9,16 +33,30 @@ export class SceneManagerInstance {
   }
 
   private sceneStack: Scene[] = [];
-  
+  private managers: GameManagers | null = null;
+  private transitioning = false;
+
   get current() {
     return this.sceneStack.at(-1) ?? null;
   }
-  
+
+  get isTransitioning(): boolean {
+    return this.transitioning;
+  }
+
+  /**
+   * Managers used to initialize scenes entered via transitionTo and to draw transition overlays.
+   * Set by Game.startGame().
+   */
+  setManagers(managers: GameManagers) {
+    this.managers = managers;
+  }
+
   switch(nextScene: Scene) {
     const previousScene = this.current;
     if (previousScene) previousScene.onExit(nextScene);
     this.sceneStack = [nextScene];
-    nextScene.onEnter(previousScene);
+    void this.enter(nextScene, previousScene);
   }
 
   /**
@@ -26,8 +64,72 @@ export class SceneManagerInstance {
    * Корректно отписывает старую сцену и инициализирует новую
    */
   replace(newScene: Scene, managers?: GameManagers) {
+    void this.replaceScene(newScene, managers);
+  }
+
+  push(nextScene: Scene) {
+    void this.pushScene(nextScene);
+  }
+
+  pop() {
+    const topScene = this.sceneStack.pop();
+    const currentScene = this.current;
+    if (topScene) topScene.onExit(currentScene);
+    if (currentScene) {
+      currentScene.setVisible(true);
+      currentScene.onResume();
+    }
+  }
+
+  /**
+   * Animated scene change: covers the screen with a Pixi overlay, preloads and enters
+   * the next scene while covered, then reveals it. Input is blocked for the whole transition.
+   */
+  async transitionTo(nextScene: Scene, options: SceneTransitionOptions = {}): Promise<void> {
+    const mode = options.mode ?? 'replace';
+    await this.runTransition(options, nextScene.constructor.name, async (report) => {
+      if (!nextScene.isInitialized && this.managers) {
+        nextScene.initialize(this.managers);
+      }
+      if (options.preload ?? true) {
+        await nextScene.preload(report);
+      }
+
+      if (mode === 'push') {
+        await this.pushScene(nextScene);
+      } else if (mode === 'switch') {
+        const previousScene = this.current;
+        if (previousScene) previousScene.onExit(nextScene);
+        this.sceneStack = [nextScene];
+        await this.enter(nextScene, previousScene);
+      } else {
+        await this.replaceScene(nextScene);
+      }
+    });
+  }
+
+  /**
+   * Animated pop of the top scene.
+   */
+  async transitionBack(options: Omit<SceneTransitionOptions, 'preload' | 'mode'> = {}): Promise<void> {
+    if (this.sceneStack.length < 2) {
+      logger.warn('⚠️ Nothing to pop — scene stack has a single scene', { source: 'scene' });
+      return;
+    }
+    await this.runTransition(options, this.sceneStack.at(-2)!.constructor.name, async () => this.pop());
+  }
+
+  fixedUpdate(deltaTime: number) {
+    this.current?.fixedUpdate(deltaTime);
+  }
+
+  update(deltaTime: number) {
+    this.current?.update(deltaTime);
+  }
+
+  private async replaceScene(newScene: Scene, managers?: GameManagers): Promise<void> {
     const previousScene = this.current;
-    
+
     if (previousScene) {
       // 1. Отписываем старую сцену
       previousScene.onExit(newScene);
@@ -41,36 +143,83 @@ export class SceneManagerInstance {
       // 3. Defensive: destroy remaining systems & componentIndex if scene forgot
       previousScene.destroy();
     }
-    
+
     // 3. Инициализируем новую сцену с менеджерами
     if (managers) {
       newScene.initialize(managers);
     }
-    
+
     // 4. Заменяем сцену
     this.sceneStack = [newScene];
-    newScene.onEnter(previousScene);
+    await this.enter(newScene, previousScene);
   }
-  
-  push(nextScene: Scene) {
+
+  private async pushScene(nextScene: Scene): Promise<void> {
     const previousScene = this.current;
-    if (previousScene) previousScene.onSuspend();
+    if (previousScene) {
+      previousScene.onSuspend();
+      if (!nextScene.isOverlay) previousScene.setVisible(false);
+    }
     this.sceneStack.push(nextScene);
-    nextScene.onEnter(previousScene);
+    await this.enter(nextScene, previousScene);
   }
-  
-  pop() {
-    const topScene = this.sceneStack.pop();
-    const currentScene = this.current;
-    if (topScene) topScene.onExit(currentScene);
-    if (currentScene) currentScene.onResume();
+
+  /** Run (possibly async) onEnter; errors are logged instead of becoming unhandled rejections. */
+  private async enter(scene: Scene, previousScene: Scene | null): Promise<void> {
+    try {
+      await scene.onEnter(previousScene);
+    } catch (error) {
+      logger.error(`❌ ${scene.constructor.name}.onEnter failed`, error as Error, { source: 'scene' });
+    }
   }
-  
-  update(deltaTime: number) {
-    this.current?.update(deltaTime);
+
+  private async runTransition(
+    options: Omit<SceneTransitionOptions, 'mode'>,
+    targetName: string,
+    swap: (reportProgress: (progress: number) => void) => Promise<void>,
+  ): Promise<void> {
+    if (this.transitioning) {
+      logger.warn(`⚠️ Transition to ${targetName} ignored — another transition is running`, { source: 'scene' });
+      return;
+    }
+
+    const type = options.transition ?? 'fade';
+    if (type === 'custom' && !options.customTransition) {
+      throw new Error(`[SceneManager] transition 'custom' requires customTransition`);
+    }
+    const transition = type === 'custom' ? options.customTransition! : createSceneTransition(type);
+    const duration = type === 'none' ? 0 : options.duration ?? 0.35;
+    const from = this.current?.constructor.name ?? null;
+
+    this.transitioning = true;
+    const input = InputManager.getInstance();
+    input.lockInput(TRANSITION_INPUT_LOCK);
+    eventBus.emit('scene-transition-start', { from, to: targetName });
+
+    const stage = this.managers?.stage ?? null;
+    const screen = this.managers?.renderer.getApp().screen ?? new PIXI.Rectangle(0, 0, window.innerWidth, window.innerHeight);
+    const overlay = new PIXI.Container({ label: 'SceneTransitionOverlay' });
+    // Swallow Pixi pointer events on everything below
+    overlay.eventMode = 'static';
+    overlay.hitArea = new PIXI.Rectangle(0, 0, screen.width, screen.height);
+    overlay.zIndex = OVERLAY_Z_INDEX;
+    stage?.addChild(overlay);
+
+    try {
+      await transition.cover(overlay, screen, duration);
+      await swap(progress => eventBus.emit('scene-preload-progress', { scene: targetName, progress }));
+      // The new scene may have added containers above the overlay
+      stage?.addChild(overlay);
+      await transition.reveal(overlay, screen, duration);
+    } finally {
+      overlay.destroy({ children: true });
+      input.unlockInput(TRANSITION_INPUT_LOCK);
+      this.transitioning = false;
+      eventBus.emit('scene-transition-end', { from, to: targetName });
+    }
   }
 }
 
 export const sceneManager = SceneManagerInstance.getInstance();
 /** @deprecated Use `sceneManager` instead */
-export const SceneManager = () => sceneManager;
\ No newline at end of file
+export const SceneManager = () => sceneManager;
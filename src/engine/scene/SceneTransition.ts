@@ -0,0 +1,99 @@
+// engine/scene/SceneTransition.ts
+import * as PIXI from 'pixi.js';
+import { gsap } from 'gsap';
+import { easing } from '@/shared/animation';
+
+export type SceneTransitionType = 'fade' | 'neonWipe' | 'custom' | 'none';
+
+/**
+ * Pixi overlay animation played around a scene change.
+ * `cover` hides the screen (the scene is swapped while covered), `reveal` shows the new scene.
+ * Each half gets `duration` seconds. The overlay container is already on top of the stage.
+ */
+export interface SceneTransition {
+  cover(overlay: PIXI.Container, screen: PIXI.Rectangle, duration: number): Promise<void>;
+  reveal(overlay: PIXI.Container, screen: PIXI.Rectangle, duration: number): Promise<void>;
+}
+
+function tween(target: gsap.TweenTarget, vars: gsap.TweenVars): Promise<void> {
+  return new Promise(resolve => {
+    gsap.to(target, { ...vars, onComplete: () => resolve() });
+  });
+}
+
+/**
+ * Fade through a solid color.
+ */
+export class FadeTransition implements SceneTransition {
+  private curtain: PIXI.Graphics | null = null;
+
+  constructor(private readonly color = 0x000000) {}
+
+  async cover(overlay: PIXI.Container, screen: PIXI.Rectangle, duration: number): Promise<void> {
+    this.curtain = new PIXI.Graphics().rect(0, 0, screen.width, screen.height).fill(this.color);
+    this.curtain.alpha = 0;
+    overlay.addChild(this.curtain);
+    await tween(this.curtain, { alpha: 1, duration, ease: easing.gsap.in });
+  }
+
+  async reveal(_overlay: PIXI.Container, _screen: PIXI.Rectangle, duration: number): Promise<void> {
+    if (!this.curtain) return;
+    await tween(this.curtain, { alpha: 0, duration, ease: easing.gsap.out });
+    this.curtain.destroy();
+    this.curtain = null;
+  }
+}
+
+/**
+ * Dark panel sweeping left to right with a glowing neon edge.
+ */
+export class NeonWipeTransition implements SceneTransition {
+  private panel: PIXI.Container | null = null;
+
+  constructor(
+    private readonly edgeColor = 0x00ffff,
+    private readonly fillColor = 0x05010f,
+  ) {}
+
+  async cover(overlay: PIXI.Container, screen: PIXI.Rectangle, duration: number): Promise<void> {
+    const { width, height } = screen;
+    const panel = new PIXI.Container();
+    panel.addChild(
+      new PIXI.Graphics().rect(0, 0, width, height).fill(this.fillColor),
+      // Soft glow + sharp core along the leading edge
+      new PIXI.Graphics().rect(width - 24, 0, 24, height).fill({ color: this.edgeColor, alpha: 0.25 }),
+      new PIXI.Graphics().rect(width - 6, 0, 6, height).fill(this.edgeColor),
+    );
+    panel.x = -width;
+    overlay.addChild(panel);
+    this.panel = panel;
+
+    await tween(panel, { x: 0, duration, ease: easing.gsap.inOut });
+  }
+
+  async reveal(_overlay: PIXI.Container, screen: PIXI.Rectangle, duration: number): Promise<void> {
+    if (!this.panel) return;
+    // Flip so the neon edge trails on the left while the panel leaves to the right
+    this.panel.scale.x = -1;
+    this.panel.x = screen.width;
+    await tween(this.panel, { x: screen.width * 2, duration, ease: easing.gsap.inOut });
+    this.panel.destroy({ children: true });
+    this.panel = null;
+  }
+}
+
+/**
+ * Instant swap — used for `transition: 'none'`.
+ */
+export class NoTransition implements SceneTransition {
+  async cover(): Promise<void> {}
+  async reveal(): Promise<void> {}
+}
+
+export function createSceneTransition(type: Exclude<SceneTransitionType, 'custom'>): SceneTransition {
+  switch (type) {
+    case 'fade': return new FadeTransition();
+    case 'neonWipe': return new NeonWipeTransition();
+    case 'none': return new NoTransition();
+  }
+}
@@ -1,4 +1,10 @@
 // Scene package - система сцен
 export { Scene } from './Scene';
 export { ComponentIndex } from './ComponentIndex';
+export type { ComponentType } from './ComponentIndex';
+export { Query } from './Query';
+export type { QueryListener } from './Query';
 export { sceneManager, SceneManager } from './SceneManager';
+export type { SceneTransitionOptions } from './SceneManager';
+export { FadeTransition, NeonWipeTransition, NoTransition, createSceneTransition } from './SceneTransition';
+export type { SceneTransition, SceneTransitionType } from './SceneTransition';
@@ -0,0 +1,76 @@
+import type { Component } from '../Component';
+import type { GameManagers } from '../types';
+import type { Scene } from '../scene/Scene';
+
+/** Context handed to component factories on restore. */
+export interface RestoreContext {
+  scene: Scene;
+  managers: GameManagers | null;
+}
+
+export type SerializableComponentType<T extends Component = Component> = new (...args: any[]) => T & {
+  serialize(): unknown;
+  deserialize(data: unknown): void;
+};
+
+/** Builds an empty instance; `deserialize` is applied afterwards, before the component is added. */
+export type ComponentFactory<T extends Component = Component> = (context: RestoreContext) => T;
+
+interface Registration {
+  type: string;
+  factory: ComponentFactory;
+}
+
+/**
+ * Maps component constructors to stable string keys for save games.
+ * Class names are mangled in production builds, so every serializable component
+ * registers itself under an explicit key next to its class:
+ *
+ *   componentRegistry.register('Velocity', VelocityComponent);
+ *   componentRegistry.register('Click', ClickComponent, ({ managers }) => new ClickComponent(0, managers!.effects));
+ */
+export class ComponentRegistry {
+  private static instance: ComponentRegistry | null = null;
+  private byType = new Map<string, Registration>();
+  private byConstructor = new Map<Function, Registration>();
+
+  public static getInstance(): ComponentRegistry {
+    if (!this.instance) {
+      this.instance = new ComponentRegistry();
+    }
+    return this.instance;
+  }
+
+  register<T extends Component>(
+    type: string,
+    ctor: SerializableComponentType<T>,
+    factory: ComponentFactory<T> = () => new ctor()
+  ): void {
+    const existing = this.byType.get(type);
+    if (existing) {
+      // HMR re-evaluates modules — drop the stale constructor
+      for (const [oldCtor, registration] of this.byConstructor) {
+        if (registration === existing) this.byConstructor.delete(oldCtor);
+      }
+    }
+    const registration: Registration = { type, factory };
+    this.byType.set(type, registration);
+    this.byConstructor.set(ctor, registration);
+  }
+
+  /** Registered key of the component's exact class, or undefined if it does not opt in. */
+  getType(component: Component): string | undefined {
+    return this.byConstructor.get(component.constructor)?.type;
+  }
+
+  has(type: string): boolean {
+    return this.byType.has(type);
+  }
+
+  create(type: string, context: RestoreContext): Component | null {
+    const registration = this.byType.get(type);
+    return registration ? registration.factory(context) : null;
+  }
+}
+
+export const componentRegistry = ComponentRegistry.getInstance();
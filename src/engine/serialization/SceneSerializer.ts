@@ -0,0 +1,129 @@
+import { GameObject } from '../GameObject';
+import { logger } from '../logging';
+import type { Scene } from '../scene/Scene';
+import type { GameManagers } from '../types';
+import { componentRegistry } from './ComponentRegistry';
+import {
+  SCENE_SNAPSHOT_VERSION,
+  type SceneSnapshot,
+  type SerializedComponent,
+  type SerializedGameObject,
+} from './types';
+
+/**
+ * An object is saved only if every one of its components is registered.
+ * Anything else (backgrounds, demo props with filters, ...) is scene-authored:
+ * the scene rebuilds it in onEnter and restore leaves it alone.
+ */
+export function isSerializable(gameObject: GameObject): boolean {
+  const components = gameObject.getComponents();
+  return components.length > 0 && components.every(c => componentRegistry.getType(c) !== undefined);
+}
+
+/** Children of scene-authored objects are rebuilt with their parent, so they aren't saved either */
+function isSaved(gameObject: GameObject): boolean {
+  return isSerializable(gameObject) && (!gameObject.parent || isSaved(gameObject.parent));
+}
+
+export function snapshotScene(scene: Scene, saveKey: string): SceneSnapshot {
+  const saved = scene.gameObjects.filter(isSaved);
+  const refs = new Map<GameObject, number>();
+  saved.forEach((go, index) => refs.set(go, index));
+
+  const objects: SerializedGameObject[] = saved.map((go, index) => ({
+    ref: index,
+    parent: go.parent ? refs.get(go.parent) ?? null : null,
+    name: go.name,
+    x: go.x,
+    y: go.y,
+    rotation: go.rotation,
+    scale: go.scale,
+    active: go.active,
+    components: go.getComponents().map((component): SerializedComponent => ({
+      type: componentRegistry.getType(component)!,
+      data: component.serialize!(),
+    })),
+  }));
+
+  const systems: Record<string, unknown> = {};
+  for (const system of scene.getSystems()) {
+    if (system.saveKey && system.serialize) {
+      systems[system.saveKey] = system.serialize();
+    }
+  }
+
+  return { version: SCENE_SNAPSHOT_VERSION, scene: saveKey, savedAt: Date.now(), objects, systems };
+}
+
+/**
+ * Replace the scene's serializable objects with the ones from the snapshot
+ * and feed saved state to systems. Returns false if the snapshot does not fit.
+ */
+export function restoreScene(
+  scene: Scene,
+  snapshot: SceneSnapshot,
+  saveKey: string,
+  managers: GameManagers | null
+): boolean {
+  if (snapshot.version !== SCENE_SNAPSHOT_VERSION || snapshot.scene !== saveKey) {
+    logger.warn('⚠️ Snapshot does not match scene, skipping restore', {
+      source: 'serialization',
+      snapshotVersion: snapshot.version,
+      snapshotScene: snapshot.scene,
+      scene: saveKey,
+    });
+    return false;
+  }
+
+  // Saved roots only — destroy() takes the children with it
+  for (const go of scene.gameObjects.filter(go => isSaved(go) && !go.parent)) {
+    go.destroy();
+  }
+
+  const context = { scene, managers };
+  const created = new Map<number, GameObject>();
+
+  for (const data of snapshot.objects) {
+    const go = new GameObject()
+      .setName(data.name)
+      .setPosition(data.x, data.y)
+      .setRotation(data.rotation)
+      .setScale(data.scale)
+      .setActive(data.active);
+
+    for (const { type, data: componentData } of data.components) {
+      const component = componentRegistry.create(type, context);
+      if (!component) {
+        logger.warn(`⚠️ Unknown component type "${type}" in snapshot`, { source: 'serialization', object: data.name });
+        continue;
+      }
+      component.deserialize?.(componentData);
+      go.add(component);
+    }
+    created.set(data.ref, go);
+  }
+
+  // A child whose parent isn't in the snapshot belongs to a scene-authored object
+  // the scene has already rebuilt — adding it as a root would duplicate it
+  const orphans = new Set<GameObject>();
+  for (const data of snapshot.objects) {
+    if (data.parent === null) continue;
+    const go = created.get(data.ref)!;
+    const parent = created.get(data.parent);
+    if (parent) parent.addChild(go);
+    else orphans.add(go);
+  }
+
+  for (const go of created.values()) {
+    if (!go.parent && !orphans.has(go)) scene.add(go);
+  }
+
+  for (const system of scene.getSystems()) {
+    if (system.saveKey && system.deserialize && system.saveKey in snapshot.systems) {
+      system.deserialize(snapshot.systems[system.saveKey]);
+    }
+  }
+
+  logger.info(`📦 Scene restored: ${created.size} objects`, { source: 'serialization', scene: saveKey });
+  return true;
+}
@@ -0,0 +1,5 @@
+// Serialization package - сохранение и восстановление мира
+export { ComponentRegistry, componentRegistry } from './ComponentRegistry';
+export type { RestoreContext, ComponentFactory, SerializableComponentType } from './ComponentRegistry';
+export { snapshotScene, restoreScene, isSerializable } from './SceneSerializer';
+export * from './types';
@@ -0,0 +1,30 @@
+export const SCENE_SNAPSHOT_VERSION = 1;
+
+export interface SerializedComponent {
+  /** Key the component was registered under in ComponentRegistry. */
+  type: string;
+  data: unknown;
+}
+
+export interface SerializedGameObject {
+  /** Index of this object within the snapshot — runtime ids are not stable across sessions. */
+  ref: number;
+  parent: number | null;
+  name: string;
+  x: number;
+  y: number;
+  rotation: number;
+  scale: number;
+  active: boolean;
+  components: SerializedComponent[];
+}
+
+export interface SceneSnapshot {
+  version: number;
+  /** `Scene.saveKey` of the scene that produced the snapshot. */
+  scene: string;
+  savedAt: number;
+  objects: SerializedGameObject[];
+  /** Keyed by `System.saveKey`. */
+  systems: Record<string, unknown>;
+}
@@ -0,0 +1,32 @@
+import { Capacitor } from '@capacitor/core';
+import { Preferences } from '@capacitor/preferences';
+import { measureKeys, type StorageAdapter, type StorageEstimate } from './StorageAdapter';
+
+/**
+ * Native key-value store (SharedPreferences / UserDefaults). Survives WebView storage eviction,
+ * which localStorage on mobile does not guarantee.
+ */
+export class CapacitorPreferencesAdapter implements StorageAdapter {
+  readonly name = 'capacitor-preferences';
+
+  async isAvailable(): Promise<boolean> {
+    return Capacitor.isPluginAvailable('Preferences');
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const { value } = await Preferences.get({ key });
+    return value;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await Preferences.set({ key, value });
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await Preferences.remove({ key });
+  }
+
+  async estimate(keys: readonly string[]): Promise<StorageEstimate> {
+    return { used: await measureKeys(this, keys), quota: null };
+  }
+}
@@ -0,0 +1,73 @@
+import { measureKeys, type StorageAdapter, type StorageEstimate } from './StorageAdapter';
+
+const STORE_NAME = 'kv';
+
+/**
+ * Key-value store on top of a single IndexedDB object store.
+ * Much larger quota than localStorage and writes don't block the main thread.
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly name = 'indexeddb';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName = 'idle-neon-miner') {}
+
+  async isAvailable(): Promise<boolean> {
+    if (typeof indexedDB === 'undefined') return false;
+    try {
+      await this.open();
+      return true;
+    } catch {
+      // Firefox private mode and some WebViews reject open()
+      return false;
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async estimate(keys: readonly string[]): Promise<StorageEstimate> {
+    const used = await measureKeys(this, keys);
+    try {
+      const { quota } = await navigator.storage.estimate();
+      return { used, quota: quota ?? null };
+    } catch {
+      return { used, quota: null };
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error(`IndexedDB "${this.dbName}" is blocked by another tab`));
+    });
+    // Allow a retry after a failed open
+    this.dbPromise.catch(() => { this.dbPromise = null; });
+    return this.dbPromise;
+  }
+
+  /** Resolve once the transaction commits, not just when the request succeeds */
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error ?? request.error);
+      tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
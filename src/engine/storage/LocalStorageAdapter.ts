@@ -0,0 +1,40 @@
+import { measureKeys, type StorageAdapter, type StorageEstimate } from './StorageAdapter';
+
+/** Browsers don't report the localStorage quota; 5MB is the common limit */
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+
+  async isAvailable(): Promise<boolean> {
+    return LocalStorageAdapter.isSupported();
+  }
+
+  /** Sync probe — PersistenceService uses it to pick a backend before bootstrap selects one */
+  static isSupported(): boolean {
+    try {
+      const testKey = '__storage_test__';
+      localStorage.setItem(testKey, 'test');
+      localStorage.removeItem(testKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async estimate(keys: readonly string[]): Promise<StorageEstimate> {
+    return { used: await measureKeys(this, keys), quota: LOCAL_STORAGE_QUOTA };
+  }
+}
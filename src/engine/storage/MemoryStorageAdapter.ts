@@ -0,0 +1,29 @@
+import { measureKeys, type StorageAdapter, type StorageEstimate } from './StorageAdapter';
+
+/**
+ * Non-persistent fallback (private mode with storage blocked) and a clean backend for headless runs.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private readonly items = new Map<string, string>();
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async estimate(keys: readonly string[]): Promise<StorageEstimate> {
+    return { used: await measureKeys(this, keys), quota: null };
+  }
+}
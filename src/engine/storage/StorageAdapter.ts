@@ -0,0 +1,31 @@
+export interface StorageEstimate {
+  /** Bytes taken by the queried keys (string length, UTF-16 code units) */
+  used: number;
+  /** Backend quota in bytes; null when the platform has no practical limit or does not report one */
+  quota: number | null;
+}
+
+/**
+ * Async key-value backend for saves. All values are strings (JSON produced by PersistenceService).
+ */
+export interface StorageAdapter {
+  /** Short id for logs and the migration marker */
+  readonly name: string;
+
+  isAvailable(): Promise<boolean>;
+
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+
+  estimate(keys: readonly string[]): Promise<StorageEstimate>;
+}
+
+/** Sum of value lengths — shared by adapters that can only measure what they store */
+export async function measureKeys(adapter: StorageAdapter, keys: readonly string[]): Promise<number> {
+  let used = 0;
+  for (const key of keys) {
+    used += (await adapter.getItem(key))?.length ?? 0;
+  }
+  return used;
+}
@@ -0,0 +1,8 @@
+// Storage package - бэкенды для сохранений
+export type { StorageAdapter, StorageEstimate } from './StorageAdapter';
+export { LocalStorageAdapter } from './LocalStorageAdapter';
+export { MemoryStorageAdapter } from './MemoryStorageAdapter';
+export { IndexedDBStorageAdapter } from './IndexedDBStorageAdapter';
+export { CapacitorPreferencesAdapter } from './CapacitorPreferencesAdapter';
+export { selectStorageAdapter } from './selectStorageAdapter';
+export { hashString } from './checksum';
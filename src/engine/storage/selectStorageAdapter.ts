@@ -0,0 +1,27 @@
+import { Capacitor } from '@capacitor/core';
+import { logger } from '@/engine/logging';
+import type { StorageAdapter } from './StorageAdapter';
+import { CapacitorPreferencesAdapter } from './CapacitorPreferencesAdapter';
+import { IndexedDBStorageAdapter } from './IndexedDBStorageAdapter';
+import { LocalStorageAdapter } from './LocalStorageAdapter';
+import { MemoryStorageAdapter } from './MemoryStorageAdapter';
+
+/**
+ * Pick the save backend for the current platform:
+ * native → Capacitor Preferences, web → IndexedDB, then localStorage, then memory.
+ */
+export async function selectStorageAdapter(): Promise<StorageAdapter> {
+  const candidates: StorageAdapter[] = Capacitor.isNativePlatform()
+    ? [new CapacitorPreferencesAdapter(), new LocalStorageAdapter()]
+    : [new IndexedDBStorageAdapter(), new LocalStorageAdapter()];
+
+  for (const adapter of candidates) {
+    if (await adapter.isAvailable()) {
+      logger.info(`💾 Storage backend: ${adapter.name}`, { source: 'persistence' });
+      return adapter;
+    }
+  }
+
+  logger.warn('⚠️ No persistent storage available, saves will be lost on reload', { source: 'persistence' });
+  return new MemoryStorageAdapter();
+}
@@ -33,6 +33,11 @@ export abstract class GlobalSystem {
     this.onUpdate(deltaTime);
   }
 
+  fixedUpdate(deltaTime: number): void {
+    if (!this.isStarted || this.isDestroyed) return;
+    this.onFixedUpdate(deltaTime);
+  }
+
   destroy(): void {
     if (this.isDestroyed) return;
     this.stop();
@@ -47,5 +52,6 @@ export abstract class GlobalSystem {
   protected onStart(): void {}
   protected onStop(): void {}
   protected onUpdate(_deltaTime: number): void {}
+  protected onFixedUpdate(_deltaTime: number): void {}
   protected onDestroy(): void {}
 }
@@ -2,75 +2,202 @@
 import { System } from './System';
 import { Scene } from '@/engine/scene/Scene';
 import { GameObject } from '@/engine/GameObject';
+import type { Component } from '@/engine/Component';
 import { RENDER_CONFIG } from '@/engine/render/RenderConfig';
-import { VelocityComponent, CircleColliderComponent } from '@/engine/components';
+import { VelocityComponent, ColliderComponent } from '@/engine/components';
+import {
+  SpatialHash, CollisionLayers, collideShapes, polygonShape, raycastShape, shapeBounds, supportPoint,
+  type ColliderShape, type QueryHit, type RaycastHit,
+} from '@/engine/physics';
+import type { Vector2 } from '@/shared/types';
 
 interface Bounds {
   x: number; y: number; w: number; h: number;
 }
 
+interface Body {
+  go: GameObject;
+  collider: ColliderComponent;
+  /** Moved by this system: has a VelocityComponent and collideWithBounds */
+  velocity: VelocityComponent | null;
+}
+
+/** Overlapping pair seen on a fixed step; `a` has the lower GameObject id */
+interface Contact {
+  a: Body;
+  b: Body;
+  trigger: boolean;
+  /** From a towards b */
+  nx: number;
+  ny: number;
+  penetration: number;
+}
+
+/** Broadphase cell size (px) — about the diameter of a typical fragment */
+const DEFAULT_CELL_SIZE = 64;
+
 export class PhysicsSystem extends System {
   private bounds: Bounds;
   private gravity: { x: number, y: number };
   // Safety caps to keep motion stable on mobile
   private readonly maxFallSpeed = 360; // px/sec downward cap for fragments
   private readonly maxAngularSpeed = 6; // rad/sec cap
+  private readonly broadphase: SpatialHash;
+  // Pairs overlapping on the previous step, by pairKey — diffed for enter/stay/exit callbacks
+  private contacts = new Map<string, Contact>();
+  // Bodies and shapes the broadphase was last built from (index = hash id), reused by queries.
+  // Stale after every fixed step and every frame (update() and tweens move things too)
+  private bodies: Body[] = [];
+  private shapes: ColliderShape[] = [];
+  private broadphaseStale = true;
+  private indexedColliders = 0;
+  private readonly markStale = () => { this.broadphaseStale = true; };
 
   constructor(
     scene: Scene, 
     bounds: Bounds = { x: 0, y: 0, w: RENDER_CONFIG.referenceResolution.w, h: RENDER_CONFIG.referenceResolution.h },
-    gravity: { x: number, y: number } = { x: 0, y: 0 }
+    gravity: { x: number, y: number } = { x: 0, y: 0 },
+    cellSize = DEFAULT_CELL_SIZE
   ) {
     super(scene);
     this.bounds = bounds;
     this.gravity = gravity;
+    this.broadphase = new SpatialHash(cellSize);
   }
 
   setBounds(bounds: Bounds) { this.bounds = bounds; }
   setGravity(gravity: { x: number, y: number }) { this.gravity = gravity; }
+  setCellSize(cellSize: number) { this.broadphase.cellSize = cellSize; }
+
+  protected onStart(): void {
+    this.scene.postUpdateSteps.push(this.markStale);
+  }
+
+  protected onStop(): void {
+    this.contacts.clear();
+    const index = this.scene.postUpdateSteps.indexOf(this.markStale);
+    if (index >= 0) this.scene.postUpdateSteps.splice(index, 1);
+  }
+
+  protected onFixedUpdate(dt: number): void {
+    const bodies = this.collectBodies();
+    this.integrate(bodies, dt);
+    this.resolveBounds(bodies);
+    const contacts = this.findContacts(bodies);
+    for (const contact of contacts.values()) {
+      if (!contact.trigger) this.resolveContact(contact);
+    }
+    this.dispatchContacts(contacts);
+    // Resolution and callbacks moved things — queries rebuild before their next use
+    this.broadphaseStale = true;
+  }
 
-  protected onUpdate(dt: number): void {
-    const objects = this.collectBodies();
-    this.integrate(objects, dt);
-    this.resolveBounds(objects);
-    this.resolvePairs(objects);
-    
-  }
-
-  private collectBodies(): GameObject[] {
-    const gos: GameObject[] = [];
-    let totalObjects = 0;
-    let activeObjects = 0;
-    let withVelocity = 0;
-    let withCollider = 0;
-    let withBoundsCollision = 0;
-
-    for (const go of this.scene.gameObjects) {
-      totalObjects++;
-      if (!go.active) continue;
-      activeObjects++;
-      
-      if (!go.has(VelocityComponent)) continue;
-      withVelocity++;
-      
-      const collider = go.get(CircleColliderComponent);
-      if (!collider) continue;
-      withCollider++;
-      
-      // The PhysicsSystem should only manage objects that are meant to collide.
-      if (!collider.collideWithBounds) continue;
-      withBoundsCollision++;
-      
-      gos.push(go);
+  /** Nearest collider on the layers in `mask` along the ray; `direction` needn't be normalised */
+  raycast(origin: Vector2, direction: Vector2, maxDistance = Infinity, mask: number = CollisionLayers.ALL): RaycastHit | null {
+    const length = Math.hypot(direction.x, direction.y);
+    if (length === 0 || maxDistance < 0) return null;
+    const dx = direction.x / length;
+    const dy = direction.y / length;
+
+    this.ensureBroadphase();
+    const candidates = this.broadphase.queryRay(origin.x, origin.y, dx, dy, maxDistance);
+
+    let best: RaycastHit | null = null;
+    for (const index of candidates) {
+      const body = this.queryable(index, mask);
+      if (!body) continue;
+      const hit = raycastShape(body.collider.getShape(), origin.x, origin.y, dx, dy, best?.distance ?? maxDistance);
+      if (!hit || (best && hit.distance >= best.distance)) continue;
+      best = {
+        gameObject: body.go,
+        collider: body.collider,
+        distance: hit.distance,
+        point: { x: origin.x + dx * hit.distance, y: origin.y + dy * hit.distance },
+        normal: { x: hit.nx, y: hit.ny },
+      };
     }
+    return best;
+  }
 
-    return gos;
+  /** Colliders on the layers in `mask` touching the circle */
+  overlapCircle(center: Vector2, radius: number, mask: number = CollisionLayers.ALL): QueryHit[] {
+    return this.overlapShape({ kind: 'circle', x: center.x, y: center.y, radius }, mask);
   }
 
-  private integrate(gos: GameObject[], dt: number) {
-    for (const go of gos) {
-      const v = go.require(VelocityComponent);
-      const c = go.get(CircleColliderComponent);
+  /** Colliders on the layers in `mask` touching the box centred at `center`, turned by `rotation` */
+  overlapBox(center: Vector2, width: number, height: number, rotation = 0, mask: number = CollisionLayers.ALL): QueryHit[] {
+    const hw = width / 2;
+    const hh = height / 2;
+    const corners = [{ x: -hw, y: -hh }, { x: hw, y: -hh }, { x: hw, y: hh }, { x: -hw, y: hh }];
+    return this.overlapShape(polygonShape(corners, center.x, center.y, rotation), mask);
+  }
+
+  /** Colliders on the layers in `mask` containing the point (scene coordinates), e.g. for picking */
+  pointQuery(point: Vector2, mask: number = CollisionLayers.ALL): QueryHit[] {
+    return this.overlapShape({ kind: 'circle', x: point.x, y: point.y, radius: 0 }, mask)
+      .map(hit => ({ ...hit, point: { x: point.x, y: point.y } }));
+  }
+
+  private overlapShape(shape: ColliderShape, mask: number): QueryHit[] {
+    this.ensureBroadphase();
+    const box = shapeBounds(shape);
+    const hits: QueryHit[] = [];
+
+    for (const index of this.broadphase.query(box.minX, box.minY, box.maxX, box.maxY)) {
+      const body = this.queryable(index, mask);
+      if (!body) continue;
+      const manifold = collideShapes(shape, body.collider.getShape());
+      if (!manifold) continue;
+      // Deepest point of the query inside the collider, pushed back onto its surface
+      const { nx, ny, penetration } = manifold;
+      const deepest = supportPoint(shape, nx, ny);
+      hits.push({
+        gameObject: body.go,
+        collider: body.collider,
+        point: { x: deepest.x - nx * penetration, y: deepest.y - ny * penetration },
+        normal: { x: -nx, y: -ny },
+      });
+    }
+    return hits;
+  }
+
+  /**
+   * Triggers count; objects disabled or removed since the last build don't. The hash only
+   * picks candidates — callers test the collider's current shape, so moves since the build count
+   */
+  private queryable(index: number, mask: number): Body | null {
+    const body = this.bodies[index];
+    if ((body.collider.layer & mask) === 0) return null;
+    if (!body.go.activeInHierarchy || body.go.scene !== this.scene) return null;
+    return body;
+  }
+
+  /** Rebuilt when stale, or when colliders were added or removed since the build */
+  private ensureBroadphase() {
+    if (!this.broadphaseStale && this.scene.query(ColliderComponent).size === this.indexedColliders) return;
+    this.bodies = this.collectBodies();
+    this.buildBroadphase();
+  }
+
+  private collectBodies(): Body[] {
+    const bodies: Body[] = [];
+
+    for (const go of this.scene.query(ColliderComponent)) {
+      if (!go.activeInHierarchy) continue;
+      const collider = go.get(ColliderComponent)!;
+      const velocity = go.get(VelocityComponent);
+      // Only colliders with collideWithBounds are moved here; the rest are seen by queries,
+      // and by contacts only with staticContacts
+      const simulated = !!velocity && collider.collideWithBounds;
+      bodies.push({ go, collider, velocity: simulated ? velocity! : null });
+    }
+
+    return bodies;
+  }
+
+  private integrate(bodies: Body[], dt: number) {
+    for (const { go, velocity: v, collider: c } of bodies) {
+      if (!v) continue;
 
       // Apply gravity
       if (!v.immovable) {
@@ -84,7 +211,7 @@ export class PhysicsSystem extends System {
       v.vx *= linD; v.vy *= linD; v.angular *= angD;
 
       // Clamp speeds for fragment bodies only (collideWithBounds=true)
-      if (c && c.collideWithBounds) {
+      if (c.collideWithBounds) {
         // Vertical terminal velocity
         if (v.vy > this.maxFallSpeed) v.vy = this.maxFallSpeed;
         if (v.vy < -this.maxFallSpeed) v.vy = -this.maxFallSpeed;
@@ -94,29 +221,30 @@ export class PhysicsSystem extends System {
       }
 
       // Integrate
-      go.x += v.vx * dt;
-      go.y += v.vy * dt;
+      translateWorld(go, v.vx * dt, v.vy * dt);
       go.rotation += v.angular * dt;
     }
   }
 
-  private resolveBounds(gos: GameObject[]) {
+  private resolveBounds(bodies: Body[]) {
     const b = this.bounds;
-    for (const go of gos) {
-      const v = go.require(VelocityComponent);
-      const c = go.require(CircleColliderComponent);
-      if (!c.collideWithBounds) continue;
+    for (const { go, velocity: v, collider: c } of bodies) {
+      if (!v) continue;
+      // Rotation-aware extents, so a turning box or polygon doesn't poke through
+      const box = shapeBounds(c.getShape());
+      let dx = 0;
+      let dy = 0;
 
       // Left/Right
-      if (go.x - c.radius < b.x) {
-        go.x = b.x + c.radius;
+      if (box.minX < b.x) {
+        dx = b.x - box.minX;
         if (!v.immovable) {
           v.vx = -v.vx * (c.bounciness * v.restitution);
           // Prevent objects from getting stuck with very small velocities
           if (Math.abs(v.vx) < 20) v.vx = v.vx > 0 ? 20 : -20;
         }
-      } else if (go.x + c.radius > b.x + b.w) {
-        go.x = b.x + b.w - c.radius;
+      } else if (box.maxX > b.x + b.w) {
+        dx = (b.x + b.w) - box.maxX;
         if (!v.immovable) {
           v.vx = -v.vx * (c.bounciness * v.restitution);
           // Prevent objects from getting stuck with very small velocities
@@ -125,82 +253,159 @@ export class PhysicsSystem extends System {
       }
 
       // Top/Bottom (only if bounds are finite)
-      if (b.y !== -Infinity && go.y - c.radius < b.y) {
-        go.y = b.y + c.radius;
+      if (b.y !== -Infinity && box.minY < b.y) {
+        dy = b.y - box.minY;
         if (!v.immovable) {
           v.vy = -v.vy * (c.bounciness * v.restitution);
           if (Math.abs(v.vy) < 10) v.vy = v.vy > 0 ? 10 : -10;
         }
-      } else if (b.h !== Infinity && go.y + c.radius > b.y + b.h) {
-        go.y = b.y + b.h - c.radius;
+      } else if (b.h !== Infinity && box.maxY > b.y + b.h) {
+        dy = (b.y + b.h) - box.maxY;
         if (!v.immovable) {
           v.vy = -v.vy * (c.bounciness * v.restitution);
           if (Math.abs(v.vy) < 10) v.vy = v.vy > 0 ? 10 : -10;
         }
       }
+
+      if (dx !== 0 || dy !== 0) translateWorld(go, dx, dy);
     }
   }
 
-  private resolvePairs(gos: GameObject[]) {
-    for (let i = 0; i < gos.length; i++) {
-      for (let j = i + 1; j < gos.length; j++) {
-        const a = gos[i];
-        const b = gos[j];
-        const ca = a.require(CircleColliderComponent);
-        const cb = b.require(CircleColliderComponent);
-        const va = a.require(VelocityComponent);
-        const vb = b.require(VelocityComponent);
-
-        const dx = b.x - a.x;
-        const dy = b.y - a.y;
-        const r = ca.radius + cb.radius;
-        const distSq = dx * dx + dy * dy;
-        if (distSq <= 0) continue;
-        if (distSq > r * r) continue;
-
-        const dist = Math.sqrt(distSq);
-        const nx = dx / dist;
-        const ny = dy / dist;
-        const penetration = r - dist;
-
-        // Positional correction (split proportionally by mass, skip immovable)
-        const invMa = va.immovable ? 0 : 1 / va.mass;
-        const invMb = vb.immovable ? 0 : 1 / vb.mass;
-        const invMsum = invMa + invMb;
-        if (invMsum > 0) {
-          const corr = penetration / invMsum * 0.5; // split correction
-          if (invMa > 0) { a.x -= nx * corr * invMa; a.y -= ny * corr * invMa; }
-          if (invMb > 0) { b.x += nx * corr * invMb; b.y += ny * corr * invMb; }
-        }
+  /** Broadphase through the spatial hash, then SAT for pairs whose layers match */
+  private buildBroadphase() {
+    this.broadphase.clear();
+    this.shapes = this.bodies.map(({ collider }, index) => {
+      const shape = collider.getShape();
+      const box = shapeBounds(shape);
+      this.broadphase.insert(index, box.minX, box.minY, box.maxX, box.maxY);
+      return shape;
+    });
+    this.broadphaseStale = false;
+    this.indexedColliders = this.scene.query(ColliderComponent).size;
+  }
+
+  private findContacts(bodies: Body[]): Map<string, Contact> {
+    this.bodies = bodies;
+    this.buildBroadphase();
+    const shapes = this.shapes;
+
+    const contacts = new Map<string, Contact>();
+    this.broadphase.forEachPair((i, j) => {
+      if (bodies[i].go.id > bodies[j].go.id) [i, j] = [j, i];
+      const a = bodies[i];
+      const b = bodies[j];
+      if (!takesContacts(a) || !takesContacts(b)) return;
+      if (!a.collider.collidesWith(b.collider)) return;
+
+      const manifold = collideShapes(shapes[i], shapes[j]);
+      if (!manifold) return;
+      contacts.set(pairKey(a.go, b.go), {
+        a,
+        b,
+        trigger: a.collider.isTrigger || b.collider.isTrigger,
+        ...manifold,
+      });
+    });
+    return contacts;
+  }
+
+  private resolveContact({ a: { go: a, collider: ca, velocity: va }, b: { go: b, collider: cb, velocity: vb }, nx, ny, penetration }: Contact) {
+    // Bodies this system doesn't move are static here
+    const invMa = va && !va.immovable ? 1 / va.mass : 0;
+    const invMb = vb && !vb.immovable ? 1 / vb.mass : 0;
+    const invMsum = invMa + invMb;
+    if (invMsum === 0) return;
+
+    // Positional correction (split proportionally by mass, skip immovable)
+    const corr = penetration / invMsum * 0.5; // split correction
+    if (invMa > 0) translateWorld(a, -nx * corr * invMa, -ny * corr * invMa);
+    if (invMb > 0) translateWorld(b, nx * corr * invMb, ny * corr * invMb);
+
+    // Relative velocity along normal
+    const rvx = (vb?.vx ?? 0) - (va?.vx ?? 0);
+    const rvy = (vb?.vy ?? 0) - (va?.vy ?? 0);
+    const velAlongNormal = rvx * nx + rvy * ny;
+    if (velAlongNormal > 0) return; // separating
+
+    const e = Math.min(ca.bounciness * (va?.restitution ?? 1), cb.bounciness * (vb?.restitution ?? 1));
+
+    const jImpulse = -(1 + e) * velAlongNormal / invMsum;
+    const impulseX = jImpulse * nx;
+    const impulseY = jImpulse * ny;
+
+    if (va && invMa > 0) { va.vx -= impulseX * invMa; va.vy -= impulseY * invMa; }
+    if (vb && invMb > 0) { vb.vx += impulseX * invMb; vb.vy += impulseY * invMb; }
+
+    // Simple tangential friction
+    const tvx = rvx - velAlongNormal * nx;
+    const tvy = rvy - velAlongNormal * ny;
+    const tLen = Math.hypot(tvx, tvy) || 1;
+    const tx = tvx / tLen;
+    const ty = tvy / tLen;
+    const mu = Math.min(ca.friction, cb.friction);
+    const jt = -mu * (rvx * tx + rvy * ty) / invMsum;
+    if (va && invMa > 0) { va.vx -= jt * tx * invMa; va.vy -= jt * ty * invMa; }
+    if (vb && invMb > 0) { vb.vx += jt * tx * invMb; vb.vy += jt * ty * invMb; }
+  }
+
+  /**
+   * Enter for pairs new this step, Stay for ongoing ones, Exit for pairs that stopped
+   * overlapping or lost a body (deactivated, removed). Objects that left the scene get no callbacks.
+   */
+  private dispatchContacts(contacts: Map<string, Contact>) {
+    const previous = this.contacts;
+    this.contacts = contacts;
 
-        // Relative velocity along normal
-        const rvx = vb.vx - va.vx;
-        const rvy = vb.vy - va.vy;
-        const velAlongNormal = rvx * nx + rvy * ny;
-        if (velAlongNormal > 0) continue; // separating
-
-        const e = Math.min(ca.bounciness * va.restitution, cb.bounciness * vb.restitution);
-
-        const jImpulse = -(1 + e) * velAlongNormal / (invMa + invMb || 1);
-        const impulseX = jImpulse * nx;
-        const impulseY = jImpulse * ny;
-
-        if (invMa > 0) { va.vx -= impulseX * invMa; va.vy -= impulseY * invMa; }
-        if (invMb > 0) { vb.vx += impulseX * invMb; vb.vy += impulseY * invMb; }
-
-        // Simple tangential friction
-        const tvx = rvx - velAlongNormal * nx;
-        const tvy = rvy - velAlongNormal * ny;
-        const tLen = Math.hypot(tvx, tvy) || 1;
-        const tx = tvx / tLen;
-        const ty = tvy / tLen;
-        const mu = Math.min(ca.friction, cb.friction);
-        const jt = -mu * (rvx * tx + rvy * ty) / (invMa + invMb || 1);
-        if (invMa > 0) { va.vx -= jt * tx * invMa; va.vy -= jt * ty * invMa; }
-        if (invMb > 0) { vb.vx += jt * tx * invMb; vb.vy += jt * ty * invMb; }
+    for (const [key, contact] of contacts) {
+      const known = previous.has(key);
+      if (contact.trigger) {
+        if (!known) notifyTrigger(contact, 'onTriggerEnter');
+      } else {
+        notifyCollision(contact, known ? 'onCollisionStay' : 'onCollisionEnter');
       }
     }
+
+    for (const [key, contact] of previous) {
+      if (contacts.has(key)) continue;
+      if (contact.trigger) notifyTrigger(contact, 'onTriggerExit');
+      else notifyCollision(contact, 'onCollisionExit');
+    }
   }
 }
 
+/** Shapes, bounds and normals are in world space; children move in their parent's */
+function translateWorld(go: GameObject, dx: number, dy: number) {
+  if (!go.parent) {
+    go.x += dx;
+    go.y += dy;
+    return;
+  }
+  const world = go.getWorldPosition();
+  go.setWorldPosition(world.x + dx, world.y + dy);
+}
+
+/** Bodies this system moves, plus colliders that opted in with staticContacts */
+function takesContacts(body: Body): boolean {
+  return !!body.velocity || body.collider.staticContacts;
+}
 
+function pairKey(a: GameObject, b: GameObject): string {
+  return `${a.id}:${b.id}`;
+}
+
+function notifyCollision(contact: Contact, callback: 'onCollisionEnter' | 'onCollisionStay' | 'onCollisionExit') {
+  const { a, b, nx, ny, penetration } = contact;
+  notify(a.go, component => component[callback]?.({ gameObject: b.go, collider: b.collider, normal: { x: -nx, y: -ny }, penetration }));
+  notify(b.go, component => component[callback]?.({ gameObject: a.go, collider: a.collider, normal: { x: nx, y: ny }, penetration }));
+}
+
+function notifyTrigger({ a, b }: Contact, callback: 'onTriggerEnter' | 'onTriggerExit') {
+  notify(a.go, component => component[callback]?.(b.collider));
+  notify(b.go, component => component[callback]?.(a.collider));
+}
+
+/** getComponents() copies, so callbacks may add or remove components */
+function notify(go: GameObject, call: (component: Component) => void) {
+  if (!go.scene) return;
+  for (const component of go.getComponents()) call(component);
+}
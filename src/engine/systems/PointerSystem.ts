@@ -0,0 +1,122 @@
+// engine/systems/PointerSystem.ts
+import type * as PIXI from 'pixi.js';
+import { System } from './System';
+import { PhysicsSystem } from './PhysicsSystem';
+import type { GameObject } from '@/engine/GameObject';
+import type { Component } from '@/engine/Component';
+import { eventBus } from '@/engine/events/EventBus';
+import { ColliderComponent, PixiSpriteRenderer } from '@/engine/components';
+import { compareRenderOrder } from '@/engine/render/renderOrder';
+import type { Vector2 } from '@/shared/types';
+
+/**
+ * Routes InputManager's pointer events to a single object: the topmost one in render order
+ * under the pointer among objects with a component defining `onPointerDown`. Overlapping
+ * objects below it get nothing, like Pixi's own dispatch. Driven by bus events, so recorded
+ * input replays the same picks.
+ *
+ * Pickable objects need a PixiSpriteRenderer (its sprite gives the render order). They're hit
+ * by their collider when they have one and the scene runs PhysicsSystem, else by the sprite.
+ * A press also ends when the object moves out from under a pointer that is held still.
+ */
+export class PointerSystem extends System {
+  /** Object that got the current press, until it ends or slides off */
+  private pressed: GameObject | null = null;
+  /** Last pointer position of the current press */
+  private pressedAt: Vector2 = { x: 0, y: 0 };
+  private unsubs: (() => void)[] = [];
+
+  protected onStart(): void {
+    this.unsubs.push(
+      eventBus.on('pointer-start', ({ position }) => this.press(position)),
+      eventBus.on('pointer-move', ({ position }) => this.move(position)),
+      eventBus.on('pointer-end', () => this.release()),
+    );
+  }
+
+  protected onStop(): void {
+    this.release();
+    this.unsubs.forEach(unsub => unsub());
+    this.unsubs = [];
+  }
+
+  protected onFixedUpdate(): void {
+    // Objects move under a held pointer too, not only the pointer over them
+    if (this.pressed) this.move(this.pressedAt);
+  }
+
+  /** Topmost pickable object under the pointer (Pixi global coordinates), or null */
+  pick(position: Vector2): GameObject | null {
+    const physics = this.scene.getSystem(PhysicsSystem);
+    // Colliders under the pointer: one query, made when the first collider object comes up
+    // (sprite parents all hold scene coordinates, see hitTest)
+    let colliderHits: Set<GameObject> | null = null;
+    let best: GameObject | null = null;
+    let bestSprite: PIXI.Container | null = null;
+
+    for (const go of this.scene.gameObjects) {
+      if (!isPickable(go)) continue;
+      const sprite = pickSprite(go);
+      if (!sprite) continue;
+      if (physics && go.has(ColliderComponent)) {
+        colliderHits ??= new Set(physics.pointQuery(sprite.parent!.toLocal(position)).map(hit => hit.gameObject));
+        if (!colliderHits.has(go)) continue;
+      } else if (!sprite.containsPoint(sprite.toLocal(position))) {
+        continue;
+      }
+      if (!bestSprite || compareRenderOrder(sprite, bestSprite) > 0) {
+        best = go;
+        bestSprite = sprite;
+      }
+    }
+    return best;
+  }
+
+  /** Whether the pointer is over the object's collider or sprite, ignoring what's drawn above it */
+  hitTest(go: GameObject, sprite: PIXI.Sprite, position: Vector2): boolean {
+    // Canvas CSS px match Pixi global coordinates (autoDensity); the sprite's parent holds scene coordinates
+    const physics = go.has(ColliderComponent) ? this.scene.getSystem(PhysicsSystem) : undefined;
+    if (!physics) return sprite.containsPoint(sprite.toLocal(position));
+    return physics.pointQuery(sprite.parent!.toLocal(position)).some(hit => hit.gameObject === go);
+  }
+
+  private press(position: Vector2) {
+    this.release();
+    const target = this.pick(position);
+    if (!target) return;
+    this.pressed = target;
+    this.pressedAt = { x: position.x, y: position.y };
+    notify(target, component => component.onPointerDown?.(position));
+  }
+
+  private move(position: Vector2) {
+    const pressed = this.pressed;
+    if (!pressed) return;
+    this.pressedAt = { x: position.x, y: position.y };
+    const sprite = isPickable(pressed) ? pickSprite(pressed) : null;
+    if (!sprite || !this.hitTest(pressed, sprite, position)) this.release();
+  }
+
+  private release() {
+    const pressed = this.pressed;
+    if (!pressed) return;
+    this.pressed = null;
+    notify(pressed, component => component.onPointerUp?.());
+  }
+}
+
+function isPickable(go: GameObject): boolean {
+  return go.scene !== null && go.activeInHierarchy && go.getComponents().some(component => component.onPointerDown);
+}
+
+/** The sprite that is hit and ordered by, while it's on stage and visible */
+function pickSprite(go: GameObject): PIXI.Sprite | null {
+  const sprite = go.get(PixiSpriteRenderer)?.sprite;
+  return sprite?.parent && sprite.visible ? sprite : null;
+}
+
+/** getComponents() copies, so callbacks may add or remove components */
+function notify(go: GameObject, call: (component: Component) => void) {
+  if (!go.scene) return;
+  for (const component of go.getComponents()) call(component);
+}
@@ -10,6 +10,14 @@ export abstract class System {
   protected isStarted: boolean = false;
   protected isDestroyed: boolean = false;
 
+  /**
+   * Ключ состояния системы в сохранении сцены (см. Scene.snapshot).
+   * Системы без ключа не сохраняются
+   */
+  readonly saveKey?: string;
+  serialize?(): unknown;
+  deserialize?(data: unknown): void;
+
   constructor(scene: Scene) {
     this._scene = scene;
     
@@ -62,6 +70,18 @@ export abstract class System {
     this.onUpdate(deltaTime);
   }
 
+  /**
+   * Шаг симуляции с фиксированным dt (см. GameConfig.fixedTimestep)
+   * Вызывается перед update
+   */
+  fixedUpdate(deltaTime: number): void {
+    if (!this.isStarted || this.isDestroyed) {
+      return;
+    }
+
+    this.onFixedUpdate(deltaTime);
+  }
+
   /**
    * Уничтожить систему
    * Окончательная очистка всех ресурсов
@@ -125,6 +145,14 @@ export abstract class System {
     // По умолчанию ничего не делаем
   }
 
+  /**
+   * Вызывается на каждом шаге симуляции (физика, экономика)
+   * Переопределяется в наследниках
+   */
+  protected onFixedUpdate(_deltaTime: number): void {
+    // По умолчанию ничего не делаем
+  }
+
   /**
    * Вызывается при уничтожении системы
    * Переопределяется в наследниках для финальной очистки
@@ -2,3 +2,4 @@
 export { System } from './System';
 export { GlobalSystem } from './GlobalSystem';
 export { PhysicsSystem } from './PhysicsSystem';
+export { PointerSystem } from './PointerSystem';
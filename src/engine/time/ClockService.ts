@@ -0,0 +1,87 @@
+import { logger } from '@/engine/logging';
+import { eventBus } from '@/engine/events/EventBus';
+
+/** Device time may disagree with the trusted clock by this much before it counts as a rollback (NTP drift, DST fixes) */
+const ROLLBACK_TOLERANCE_MS = 2 * 60 * 1000;
+
+/**
+ * Wall-clock time that doesn't go backwards when the player changes the device clock.
+ *
+ * The trusted time is anchored to a wall-clock reading and advanced with the monotonic
+ * `performance.now()`. Two checks catch rollbacks:
+ *  - on `restore()`, device time earlier than the last trusted time saved with the profile;
+ *  - during a session, device time falling behind the monotonic estimate.
+ * In both cases the trusted time keeps going from where it was and `clock-rollback-detected` is emitted.
+ * Forward jumps are accepted (sleep/suspend pauses `performance.now()` on some platforms),
+ * so moving the clock forward can't be told apart from real time passing — timed rewards
+ * should never pay out more than one period per jump.
+ */
+export class ClockService {
+  private static instance: ClockService | null = null;
+
+  /** Trusted time at `anchorMono` */
+  private anchorWall = Date.now();
+  private anchorMono = performance.now();
+  private rollbackDetected = false;
+  /** How far behind trusted time the device was at the last report */
+  private reportedLag = 0;
+
+  public static getInstance(): ClockService {
+    if (!this.instance) {
+      this.instance = new ClockService();
+    }
+    return this.instance;
+  }
+
+  /** True once a rollback was seen this session */
+  get hasDetectedRollback(): boolean {
+    return this.rollbackDetected;
+  }
+
+  /**
+   * Re-anchor from a profile: `lastTrusted` is the highest trusted time saved with it (null for a fresh profile)
+   */
+  restore(lastTrusted: number | null): void {
+    const device = Date.now();
+    this.anchorMono = performance.now();
+    this.anchorWall = device;
+
+    if (lastTrusted !== null && device < lastTrusted - ROLLBACK_TOLERANCE_MS) {
+      this.reportRollback(device, lastTrusted);
+    }
+  }
+
+  /** Trusted time in ms since epoch. Never goes backwards within a session */
+  now(): number {
+    const device = Date.now();
+    const monotonic = this.anchorWall + (performance.now() - this.anchorMono);
+
+    if (device < monotonic - ROLLBACK_TOLERANCE_MS) {
+      this.reportRollback(device, monotonic);
+      return monotonic;
+    }
+    if (device > monotonic) {
+      // Real time passed faster than performance.now() saw (suspend) or the clock moved forward
+      this.anchorWall = device;
+      this.anchorMono = performance.now();
+      return device;
+    }
+    return monotonic;
+  }
+
+  private reportRollback(deviceTime: number, trustedTime: number): void {
+    this.anchorWall = trustedTime;
+    this.anchorMono = performance.now();
+
+    // The device stays behind after a rollback — only report when it falls further back
+    const lag = trustedTime - deviceTime;
+    if (this.rollbackDetected && lag < this.reportedLag + ROLLBACK_TOLERANCE_MS) return;
+    this.rollbackDetected = true;
+    this.reportedLag = lag;
+
+    logger.warn('⏰ Device clock rolled back', { deviceTime, trustedTime, source: 'clock' });
+    eventBus.emit('clock-rollback-detected', { deviceTime, trustedTime });
+  }
+}
+
+export const clockService = ClockService.getInstance();
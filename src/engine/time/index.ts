@@ -0,0 +1,2 @@
+// Time package - защищённые от перевода часов часы
+export { ClockService, clockService } from './ClockService';
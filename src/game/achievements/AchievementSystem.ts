@@ -0,0 +1,31 @@
+import { eventBus, type AppEvents } from '@/engine/events/EventBus';
+import { checkStatAchievements, getAchievementEvents, recordAchievementEvent } from './achievements';
+import { ProfileSystem } from '@/game/systems/ProfileSystem';
+import { ACHIEVEMENT_CHECK_INTERVAL } from './data/achievements';
+
+/**
+ * Watches game events for event/counter triggers and polls stat triggers.
+ * Added before the other game systems so events from their offline catch-up count too.
+ */
+export class AchievementSystem extends ProfileSystem {
+  protected readonly tickInterval = ACHIEVEMENT_CHECK_INTERVAL;
+
+  protected onStart(): void {
+    for (const event of getAchievementEvents()) {
+      this.subscribe(event);
+    }
+    super.onStart();
+  }
+
+  protected onTick(): void {
+    checkStatAchievements();
+  }
+
+  protected onLoad(): void {
+    checkStatAchievements();
+  }
+
+  private subscribe<K extends keyof AppEvents>(event: K): void {
+    this.listen(eventBus.on(event, payload => recordAchievementEvent(event, payload)));
+  }
+}
@@ -0,0 +1,93 @@
+import { eventBus, type AppEvents } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { achievementActions, profileStore } from '@/stores/game';
+import { achievementDatabase } from './databases';
+import type { AchievementDefinition, AchievementProgress, StatTrigger } from './types';
+
+/** Events any trigger listens to — AchievementSystem subscribes to exactly these */
+export function getAchievementEvents(): (keyof AppEvents)[] {
+  const events = new Set<keyof AppEvents>();
+  for (const { trigger } of achievementDatabase.all()) {
+    if (trigger.type !== 'stat') events.add(trigger.event);
+  }
+  return [...events];
+}
+
+export function getAchievementProgress(achievementId: string): AchievementProgress | undefined {
+  const achievement = achievementDatabase.get(achievementId);
+  if (!achievement) return undefined;
+
+  const unlocked = achievementActions.isUnlocked(achievementId);
+  const { trigger } = achievement;
+  switch (trigger.type) {
+    case 'event':
+      return { current: unlocked ? 1 : 0, target: 1, unlocked };
+    case 'counter': {
+      const current = unlocked ? trigger.target : achievementActions.getState().progress[achievementId] ?? 0;
+      return { current, target: trigger.target, unlocked };
+    }
+    case 'stat': {
+      const value = trigger.read(profileStore.get());
+      // '<=' goals have no natural progress scale — show done/not done
+      const current = unlocked ? trigger.target : (trigger.compare ?? '>=') === '>=' ? Math.min(value, trigger.target) : 0;
+      return { current, target: trigger.target, unlocked };
+    }
+  }
+}
+
+/**
+ * Unlock once: records the time and emits `achievement-unlocked`. Returns false if already unlocked
+ */
+export function unlockAchievement(achievementId: string): boolean {
+  const achievement = achievementDatabase.get(achievementId);
+  if (!achievement || achievementActions.isUnlocked(achievementId)) return false;
+
+  achievementActions.unlock(achievementId, Date.now());
+  eventBus.emit('achievement-unlocked', { achievementId, name: achievement.name, hidden: achievement.hidden ?? false });
+  logger.info('🏆 Achievement unlocked', { achievementId, source: 'achievements' });
+  return true;
+}
+
+/** Feed a game event to the event and counter triggers that listen to it */
+export function recordAchievementEvent<K extends keyof AppEvents>(event: K, payload: AppEvents[K]): void {
+  for (const achievement of achievementDatabase.all()) {
+    const { trigger } = achievement;
+    if (trigger.type === 'stat' || trigger.event !== event || achievementActions.isUnlocked(achievement.id)) continue;
+
+    // The mapped trigger types pair `event` with its payload; TS can't correlate them through the loop
+    const when = trigger.when as ((payload: AppEvents[K]) => boolean) | undefined;
+    if (when && !when(payload)) continue;
+
+    if (trigger.type === 'event') {
+      unlockAchievement(achievement.id);
+      continue;
+    }
+
+    const amount = (trigger.amount as ((payload: AppEvents[K]) => number) | undefined)?.(payload) ?? 1;
+    const progress = (achievementActions.getState().progress[achievement.id] ?? 0) + amount;
+    if (progress >= trigger.target) {
+      unlockAchievement(achievement.id);
+    } else {
+      achievementActions.setProgress(achievement.id, progress);
+    }
+  }
+}
+
+/** Poll stat triggers against the current profile */
+export function checkStatAchievements(): void {
+  const profile = profileStore.get();
+  for (const achievement of achievementDatabase.all()) {
+    const { trigger } = achievement;
+    if (trigger.type !== 'stat' || achievementActions.isUnlocked(achievement.id)) continue;
+    if (statReached(trigger, trigger.read(profile))) unlockAchievement(achievement.id);
+  }
+}
+
+/** Secret achievements show as "???" until unlocked */
+export function isAchievementRevealed(achievement: AchievementDefinition): boolean {
+  return !achievement.hidden || achievementActions.isUnlocked(achievement.id);
+}
+
+function statReached(trigger: StatTrigger, value: number): boolean {
+  return (trigger.compare ?? '>=') === '>=' ? value >= trigger.target : value <= trigger.target;
+}
@@ -0,0 +1,76 @@
+import type { AchievementDefinition } from '../types';
+
+export const ACHIEVEMENTS: Record<string, AchievementDefinition> = {
+  'first-strike': {
+    id: 'first-strike',
+    name: 'First Strike',
+    description: 'Mine your first asteroid',
+    trigger: { type: 'event', event: 'asteroid-destroyed' },
+  },
+  'rock-breaker': {
+    id: 'rock-breaker',
+    name: 'Rock Breaker',
+    description: 'Break 1,000 asteroids',
+    trigger: { type: 'counter', event: 'asteroid-destroyed', target: 1_000 },
+  },
+  'drone-fleet': {
+    id: 'drone-fleet',
+    name: 'Drone Fleet',
+    description: 'Own 25 Mining Drones',
+    trigger: { type: 'stat', read: profile => profile.generators['mining-drone'] ?? 0, target: 25 },
+  },
+  'tinkerer': {
+    id: 'tinkerer',
+    name: 'Tinkerer',
+    description: 'Buy 100 upgrade levels',
+    trigger: { type: 'counter', event: 'upgrade-purchased', target: 100, amount: e => e.levels },
+  },
+  'smelter': {
+    id: 'smelter',
+    name: 'Smelter',
+    description: 'Complete 50 refinery jobs',
+    trigger: { type: 'counter', event: 'production-job-completed', target: 50 },
+  },
+  'scholar': {
+    id: 'scholar',
+    name: 'Scholar',
+    description: 'Complete 5 research projects',
+    trigger: { type: 'stat', read: profile => profile.research.completed.length, target: 5 },
+  },
+  'millionaire': {
+    id: 'millionaire',
+    name: 'Millionaire',
+    description: 'Earn 1M credits in total',
+    trigger: { type: 'stat', read: profile => profile.prestige.lifetimeEarnings.toNumber(), target: 1_000_000 },
+  },
+  'reborn': {
+    id: 'reborn',
+    name: 'Reborn',
+    description: 'Perform a rebirth',
+    trigger: { type: 'event', event: 'prestige-performed' },
+  },
+  'night-shift': {
+    id: 'night-shift',
+    name: 'Night Shift',
+    description: 'Have a refinery job finish while you were away',
+    hidden: true,
+    trigger: { type: 'event', event: 'production-job-completed', when: e => e.offline },
+  },
+  'market-crash': {
+    id: 'market-crash',
+    name: 'Market Crash',
+    description: 'Sell for 10K credits in a single trade',
+    hidden: true,
+    trigger: { type: 'event', event: 'market-trade', when: e => e.side === 'sell' && e.credits >= 10_000 },
+  },
+  'hoarder': {
+    id: 'hoarder',
+    name: 'Hoarder',
+    description: 'Lose items to a full warehouse',
+    hidden: true,
+    trigger: { type: 'event', event: 'warehouse-full', when: e => e.overflow > 0 && e.policy === 'discard' },
+  },
+};
+
+/** Seconds between stat trigger checks */
+export const ACHIEVEMENT_CHECK_INTERVAL = 1;
@@ -0,0 +1,13 @@
+import { ConfigDatabase } from '@/engine/database';
+import { ACHIEVEMENTS } from './data/achievements';
+import type { AchievementDefinition } from './types';
+
+export const achievementDatabase = new ConfigDatabase<AchievementDefinition>({
+  base: ACHIEVEMENTS,
+  validate: (achievement, id) => {
+    const { trigger } = achievement;
+    if (trigger.type !== 'event' && !(trigger.target > 0)) {
+      throw new Error(`[achievements] "${id}" must have a positive target`);
+    }
+  },
+});
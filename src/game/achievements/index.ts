@@ -0,0 +1,19 @@
+export { AchievementSystem } from './AchievementSystem';
+export {
+  checkStatAchievements,
+  getAchievementEvents,
+  getAchievementProgress,
+  isAchievementRevealed,
+  recordAchievementEvent,
+  unlockAchievement,
+} from './achievements';
+export { achievementDatabase } from './databases';
+export { ACHIEVEMENT_CHECK_INTERVAL } from './data/achievements';
+export type {
+  AchievementDefinition,
+  AchievementProgress,
+  AchievementTrigger,
+  CounterTrigger,
+  EventTrigger,
+  StatTrigger,
+} from './types';
@@ -0,0 +1,46 @@
+import type { AppEvents } from '@/engine/events/EventBus';
+import type { PlayerProfile } from '@/stores/game';
+
+type GameEvent = keyof AppEvents;
+
+/** Unlocks on the first `event` whose payload passes `when` */
+export type EventTrigger = {
+  [K in GameEvent]: { type: 'event'; event: K; when?: (payload: AppEvents[K]) => boolean };
+}[GameEvent];
+
+/** Adds `amount(payload)` (default 1) per matching event; unlocks at `target`. Progress is saved */
+export type CounterTrigger = {
+  [K in GameEvent]: {
+    type: 'counter';
+    event: K;
+    target: number;
+    amount?: (payload: AppEvents[K]) => number;
+    when?: (payload: AppEvents[K]) => boolean;
+  };
+}[GameEvent];
+
+/** Polled against the profile; unlocks once `read(profile)` reaches `target` */
+export interface StatTrigger {
+  type: 'stat';
+  read: (profile: Readonly<PlayerProfile>) => number;
+  /** '>=' (default) — at least `target`; '<=' — at most */
+  compare?: '>=' | '<=';
+  target: number;
+}
+
+export type AchievementTrigger = EventTrigger | CounterTrigger | StatTrigger;
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Secret: name and description are masked in the list until unlocked */
+  hidden?: boolean;
+  trigger: AchievementTrigger;
+}
+
+export interface AchievementProgress {
+  current: number;
+  target: number;
+  unlocked: boolean;
+}
@@ -0,0 +1,69 @@
+import { logger } from '@/engine/logging';
+import { rng, type SeededRandom } from '@/engine/random';
+import { economyActions, overflowPolicyStore } from '@/stores/game';
+import { modifierPipeline } from '@/game/modifiers';
+import { canStoreAll, rollMiningDrop, storeItems } from '@/game/warehouse';
+import { asteroidDatabase } from './databases';
+import { ASTEROID_SPAWN_CONFIG } from './data/asteroids';
+import type { AsteroidTypeDefinition, AsteroidYield } from './types';
+
+/** Weighted pick among all asteroid types */
+export function pickAsteroidType(random: SeededRandom = rng): Readonly<AsteroidTypeDefinition> {
+  const types = asteroidDatabase.all();
+  const totalWeight = types.reduce((sum, type) => sum + type.weight, 0);
+  let roll = random.next() * totalWeight;
+  for (const type of types) {
+    roll -= type.weight;
+    if (roll < 0) return type;
+  }
+  return types[types.length - 1];
+}
+
+/** Roll the loot table of a broken asteroid */
+export function rollAsteroidYield(asteroidType: string, random: SeededRandom = rng): AsteroidYield {
+  const result: AsteroidYield = { resources: {}, items: {} };
+  const type = asteroidDatabase.get(asteroidType);
+  if (!type) return result;
+
+  for (const entry of type.yields) {
+    if (entry.kind === 'resource') {
+      const amount = random.int(entry.min, entry.max);
+      if (amount > 0) result.resources[entry.resourceId] = (result.resources[entry.resourceId] ?? 0) + amount;
+    } else if (random.next() < entry.chance) {
+      result.items[entry.itemId] = (result.items[entry.itemId] ?? 0) + (entry.count ?? 1);
+    }
+  }
+  return result;
+}
+
+/** Loot of a broken asteroid: its loot table plus a regular mining drop */
+export function rollAsteroidLoot(asteroidType: string): AsteroidYield {
+  const loot = rollAsteroidYield(asteroidType);
+  const bonusDrop = rollMiningDrop();
+  if (bonusDrop) loot.items[bonusDrop] = (loot.items[bonusDrop] ?? 0) + 1;
+  return loot;
+}
+
+/**
+ * Pay out a broken asteroid's loot. Items go through the overflow policy; under 'pause'
+ * nothing is paid unless every item fits — returns false and the caller keeps the loot
+ */
+export function collectAsteroidYield(asteroidType: string, loot: AsteroidYield = rollAsteroidLoot(asteroidType)): boolean {
+  if (overflowPolicyStore.get() === 'pause' && !canStoreAll(loot.items)) return false;
+
+  if (Object.keys(loot.resources).length > 0) economyActions.add(loot.resources);
+  for (const [itemId, count] of Object.entries(loot.items)) storeItems(itemId, count);
+
+  logger.debug('🪨 Asteroid loot collected', { asteroidType, ...loot, source: 'asteroids' });
+  return true;
+}
+
+/** Damage of one mining hit */
+export function getMiningDamage(): number {
+  return modifierPipeline.apply('mining.damage', ASTEROID_SPAWN_CONFIG.miningDamage);
+}
+
+/** Credits paid per mining hit (scaled by click upgrades) */
+export function getMiningCredits(): number {
+  return Math.floor(modifierPipeline.apply('click.value', ASTEROID_SPAWN_CONFIG.miningCredits));
+}
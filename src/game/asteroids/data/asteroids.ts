@@ -0,0 +1,66 @@
+import type { AsteroidSpawnConfig, AsteroidTypeDefinition } from '../types';
+
+export const ASTEROID_TYPES: Record<string, AsteroidTypeDefinition> = {
+  rocky: {
+    id: 'rocky',
+    name: 'Rocky Asteroid',
+    hp: 30,
+    radius: 56,
+    speed: [30, 60],
+    weight: 60,
+    color: 0x9a8f85,
+    hardness: 0.3,
+    fragments: 4,
+    yields: [
+      { kind: 'resource', resourceId: 'credits', min: 40, max: 80 },
+      { kind: 'resource', resourceId: 'ore', min: 2, max: 5 },
+      { kind: 'item', itemId: 'iron-ore', chance: 0.6, count: 2 },
+    ],
+  },
+  metallic: {
+    id: 'metallic',
+    name: 'Metallic Asteroid',
+    hp: 80,
+    radius: 64,
+    speed: [20, 45],
+    weight: 30,
+    color: 0xc0c8d0,
+    hardness: 0.6,
+    fragments: 5,
+    yields: [
+      { kind: 'resource', resourceId: 'credits', min: 120, max: 200 },
+      { kind: 'resource', resourceId: 'ore', min: 6, max: 12 },
+      { kind: 'item', itemId: 'iron-ore', chance: 0.8, count: 3 },
+      { kind: 'item', itemId: 'copper-ore', chance: 0.5, count: 2 },
+    ],
+  },
+  crystalline: {
+    id: 'crystalline',
+    name: 'Crystalline Asteroid',
+    hp: 160,
+    radius: 48,
+    speed: [40, 70],
+    weight: 10,
+    color: 0x66ffee,
+    hardness: 0.9,
+    fragments: 6,
+    yields: [
+      { kind: 'resource', resourceId: 'credits', min: 300, max: 500 },
+      { kind: 'resource', resourceId: 'crystals', min: 1, max: 3 },
+      { kind: 'item', itemId: 'neon-crystal', chance: 0.7 },
+      { kind: 'item', itemId: 'void-shard', chance: 0.1 },
+    ],
+  },
+};
+
+export const ASTEROID_SPAWN_CONFIG: AsteroidSpawnConfig = {
+  interval: 4,
+  maxActive: 5,
+  miningTick: 0.25,
+  miningDamage: 5,
+  miningCredits: 10,
+  fragmentLifetime: 2.5,
+  fragmentPoolSize: 24,
+  fractureVariants: 3,
+  shardBakesPerFrame: 2,
+};
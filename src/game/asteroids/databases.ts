@@ -0,0 +1,32 @@
+import { ConfigDatabase } from '@/engine/database';
+import { resourceDatabase } from '@/game/economy';
+import { itemDatabase } from '@/game/warehouse';
+import { ASTEROID_TYPES } from './data/asteroids';
+import type { AsteroidTypeDefinition } from './types';
+
+export const asteroidDatabase = new ConfigDatabase<AsteroidTypeDefinition>({
+  base: ASTEROID_TYPES,
+  validate: (asteroid, id) => {
+    if (asteroid.hp <= 0) throw new Error(`[asteroids] asteroid "${id}" must have positive hp`);
+    if (asteroid.radius <= 0) throw new Error(`[asteroids] asteroid "${id}" must have a positive radius`);
+    if (asteroid.weight <= 0) throw new Error(`[asteroids] asteroid "${id}" must have a positive spawn weight`);
+    if (asteroid.speed[0] > asteroid.speed[1]) throw new Error(`[asteroids] asteroid "${id}" has an inverted speed range`);
+    for (const entry of asteroid.yields) {
+      if (entry.kind === 'resource') {
+        if (!resourceDatabase.has(entry.resourceId)) {
+          throw new Error(`[asteroids] asteroid "${id}" yields unknown resource "${entry.resourceId}"`);
+        }
+        if (entry.min < 0 || entry.min > entry.max) {
+          throw new Error(`[asteroids] asteroid "${id}" has an invalid "${entry.resourceId}" range`);
+        }
+      } else {
+        if (!itemDatabase.has(entry.itemId)) {
+          throw new Error(`[asteroids] asteroid "${id}" yields unknown item "${entry.itemId}"`);
+        }
+        if (entry.chance < 0 || entry.chance > 1) {
+          throw new Error(`[asteroids] asteroid "${id}" "${entry.itemId}" chance must be within 0..1`);
+        }
+      }
+    }
+  },
+});
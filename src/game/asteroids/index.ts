@@ -0,0 +1,4 @@
+export { collectAsteroidYield, getMiningCredits, getMiningDamage, pickAsteroidType, rollAsteroidLoot, rollAsteroidYield } from './asteroids';
+export { asteroidDatabase } from './databases';
+export { ASTEROID_SPAWN_CONFIG } from './data/asteroids';
+export type { AsteroidSpawnConfig, AsteroidTypeDefinition, AsteroidYield, AsteroidYieldEntry } from './types';
@@ -0,0 +1,48 @@
+/** One line of an asteroid's loot table, rolled when it breaks */
+export type AsteroidYieldEntry =
+  | { kind: 'resource'; resourceId: string; min: number; max: number }
+  | { kind: 'item'; itemId: string; chance: number; count?: number };
+
+export interface AsteroidTypeDefinition {
+  id: string;
+  name: string;
+  /** Damage needed to break it */
+  hp: number;
+  /** Collision and sprite radius in game px */
+  radius: number;
+  /** Drift speed range, px/sec */
+  speed: [number, number];
+  /** Relative spawn chance among all types */
+  weight: number;
+  color: number;
+  /** 0..1 — mining particles and drill sound (mining_light / medium / heavy) */
+  hardness: number;
+  /** Pieces it splits into when broken */
+  fragments: number;
+  yields: AsteroidYieldEntry[];
+}
+
+export interface AsteroidSpawnConfig {
+  /** Seconds between spawns */
+  interval: number;
+  maxActive: number;
+  /** Seconds between mining hits while the pointer is held on an asteroid */
+  miningTick: number;
+  /** Damage per mining hit before the `mining.damage` stat */
+  miningDamage: number;
+  /** Credits per mining hit before the `click.value` stat */
+  miningCredits: number;
+  /** Seconds a fragment lives before it fades back into the pool */
+  fragmentLifetime: number;
+  /** Fragments created up front */
+  fragmentPoolSize: number;
+  /** Fracture patterns cut per asteroid type; a broken asteroid uses a random one */
+  fractureVariants: number;
+  /** Shard textures baked per frame, so a burst of breaks doesn't stall a frame */
+  shardBakesPerFrame: number;
+}
+
+export interface AsteroidYield {
+  resources: Record<string, number>;
+  items: Record<string, number>;
+}
@@ -0,0 +1,46 @@
+import { logger } from '@/engine/logging';
+import { clockService } from '@/engine/time';
+import { addAmount } from '@/shared/amount';
+import { economyActions, offlineReportStore } from '@/stores/game';
+import { getSecondsSinceSave } from '@/game/economy';
+import { ProfileSystem } from '@/game/systems/ProfileSystem';
+import { expireBoosts, getOfflineBoostGains } from './boosts';
+import { BOOST_CHECK_INTERVAL } from './data/boosts';
+
+/**
+ * Expires timed boosts on the trusted clock and pays boosts that ran out while the
+ * player was away for the part of the offline window they covered.
+ * Added after EconomySystem: it tops up the offline report EconomySystem has just written.
+ */
+export class BoostSystem extends ProfileSystem {
+  protected readonly tickInterval = BOOST_CHECK_INTERVAL;
+
+  protected onTick(): void {
+    expireBoosts();
+  }
+
+  protected onLoad(): void {
+    this.applyOfflineBoosts();
+    expireBoosts();
+  }
+
+  private applyOfflineBoosts(): void {
+    const elapsed = getSecondsSinceSave();
+    if (elapsed === null) return;
+
+    const now = clockService.now();
+    const gains = getOfflineBoostGains(now - elapsed * 1000, now);
+    if (Object.keys(gains).length === 0) return;
+
+    economyActions.add(gains);
+    const report = offlineReportStore.get();
+    if (report) {
+      const merged = { ...report.gains };
+      for (const [resourceId, amount] of Object.entries(gains)) {
+        merged[resourceId] = addAmount(merged[resourceId] ?? 0, amount);
+      }
+      economyActions.setOfflineReport({ ...report, gains: merged });
+    }
+    logger.info('⚡ Offline boost bonus applied', { gains, source: 'boosts' });
+  }
+}
@@ -0,0 +1,185 @@
+import { atom, computed } from 'nanostores';
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { clockService } from '@/engine/time';
+import { ServiceRegistry, ServiceKeys } from '@/engine/registry';
+import type { MonetizationService } from '@/engine/services/monetization';
+import type { IAPService } from '@/engine/services/iap';
+import { addAmount, mulAmount, subAmount } from '@/shared/amount';
+import { boostActions, boostsStore, type ActiveBoostState, type ResourceAmounts } from '@/stores/game';
+import { monetizationActions } from '@/stores/game/monetization';
+import type { StatModifier } from '@/game/modifiers';
+import { getOfflineConfig, productionRatesStore } from '@/game/economy';
+import { boostDatabase } from './databases';
+import { BOOST_AD_PLACEMENT } from './data/boosts';
+import type { BoostStacking, BoostSummary } from './types';
+
+/**
+ * Time the boost stores are evaluated at; null = now. Offline catch-up moves it
+ * through the away window to read production rates as they were back then
+ */
+const evaluationTimeStore = atom<number | null>(null);
+
+function activeAt(boosts: readonly ActiveBoostState[], time: number | null): ActiveBoostState[] {
+  const at = time ?? clockService.now();
+  return boosts.filter(boost => boost.expiresAt > at);
+}
+
+export function combineMultipliers(stacking: BoostStacking, multipliers: readonly number[]): number {
+  switch (stacking) {
+    case 'max': return Math.max(1, ...multipliers);
+    case 'sum': return 1 + multipliers.reduce((sum, multiplier) => sum + (multiplier - 1), 0);
+    case 'multiply': return multipliers.reduce((product, multiplier) => product * multiplier, 1);
+  }
+}
+
+/** Running boosts, one entry per boost with its grants combined */
+export const activeBoostsStore = computed([boostsStore, evaluationTimeStore], (boosts, time) => {
+  const byBoost = new Map<string, ActiveBoostState[]>();
+  for (const grant of activeAt(boosts, time)) {
+    const list = byBoost.get(grant.boostId);
+    if (list) list.push(grant);
+    else byBoost.set(grant.boostId, [grant]);
+  }
+
+  const summaries: BoostSummary[] = [];
+  for (const [boostId, grants] of byBoost) {
+    const boost = boostDatabase.get(boostId);
+    if (!boost) continue;
+    summaries.push({
+      boost,
+      multiplier: combineMultipliers(boost.stacking, grants.map(grant => grant.multiplier)),
+      stacks: grants.length,
+      expiresAt: Math.max(...grants.map(grant => grant.expiresAt)),
+    });
+  }
+  return summaries;
+});
+
+/** Modifier source — registered as 'boosts' in GameBootstrap */
+export const boostModifiersStore = computed(activeBoostsStore, summaries => {
+  const modifiers: StatModifier[] = [];
+  for (const { boost, multiplier } of summaries) {
+    for (const stat of boost.stats) {
+      modifiers.push({ stat, op: 'multiply', value: multiplier, source: `boost:${boost.id}` });
+    }
+  }
+  return modifiers;
+});
+
+/**
+ * Start a grant of a boost. `durationScale` stretches it (a doubled mission reward
+ * runs twice as long). Past `maxStacks` the grant closest to running out is replaced
+ */
+export function grantBoost(boostId: string, source: string, durationScale = 1): boolean {
+  const boost = boostDatabase.get(boostId);
+  if (!boost) {
+    logger.warn('⚠️ Unknown boost', { boostId, source: 'boosts' });
+    return false;
+  }
+
+  const now = clockService.now();
+  expireBoosts(now);
+
+  const grants = [...boostActions.getAll()];
+  const own = grants.filter(grant => grant.boostId === boostId).sort((a, b) => a.expiresAt - b.expiresAt);
+  const replaced = new Set(own.slice(0, Math.max(0, own.length - boost.maxStacks + 1)));
+  const expiresAt = now + boost.duration * durationScale * 1000;
+
+  boostActions.setAll([
+    ...grants.filter(grant => !replaced.has(grant)),
+    { boostId, multiplier: boost.multiplier, expiresAt, source },
+  ]);
+  eventBus.emit('boost-activated', { boostId, source, expiresAt });
+  logger.debug('⚡ Boost granted', { boostId, from: source, expiresAt, source: 'boosts' });
+  return true;
+}
+
+/** Drop grants that ran out. Returns how many */
+export function expireBoosts(now = clockService.now()): number {
+  const grants = boostActions.getAll();
+  const expired = grants.filter(grant => grant.expiresAt <= now);
+  if (expired.length === 0) return 0;
+
+  boostActions.setAll(grants.filter(grant => grant.expiresAt > now));
+  for (const boostId of new Set(expired.map(grant => grant.boostId))) {
+    eventBus.emit('boost-expired', { boostId });
+  }
+  return expired.length;
+}
+
+/**
+ * Extra offline production from boosts that ran out while the player was away.
+ * Offline progress is credited at the rates after they expired; every stretch of the
+ * credited window before an expiry is topped up to the rates of the boosts still running then.
+ */
+export function getOfflineBoostGains(savedAt: number, now: number): ResourceAmounts {
+  const config = getOfflineConfig();
+  const creditedEnd = savedAt + Math.min(now - savedAt, config.maxSeconds * 1000);
+  const expiries = [...new Set(boostActions.getAll().map(grant => grant.expiresAt))]
+    .filter(expiresAt => expiresAt > savedAt && expiresAt <= now)
+    .sort((a, b) => a - b);
+  if (expiries.length === 0) return {};
+
+  const gains: ResourceAmounts = {};
+  try {
+    evaluationTimeStore.set(now);
+    const finalRates = productionRatesStore.get();
+
+    let from = savedAt;
+    for (const expiresAt of expiries) {
+      const to = Math.min(expiresAt, creditedEnd);
+      if (to <= from) break;
+
+      evaluationTimeStore.set(from);
+      const seconds = ((to - from) / 1000) * config.efficiency;
+      for (const [resourceId, rate] of Object.entries(productionRatesStore.get())) {
+        const extra = mulAmount(subAmount(rate, finalRates[resourceId] ?? 0), seconds);
+        if (extra > 0) gains[resourceId] = addAmount(gains[resourceId] ?? 0, extra);
+      }
+      from = to;
+    }
+  } finally {
+    evaluationTimeStore.set(null);
+  }
+  return gains;
+}
+
+// ─── Sources ─────────────────────────────────────────────────
+
+export function canWatchBoostAd(): boolean {
+  return ServiceRegistry.has(ServiceKeys.MonetizationService);
+}
+
+/** Rewarded ad for an `adOffer` boost; the boost id doubles as the RewardType */
+export async function activateBoostWithAd(boostId: string): Promise<boolean> {
+  const boost = boostDatabase.get(boostId);
+  if (!boost?.adOffer || !canWatchBoostAd()) return false;
+
+  const monetization = ServiceRegistry.get<MonetizationService>(ServiceKeys.MonetizationService);
+  const result = await monetization.offerReward(boostId, BOOST_AD_PLACEMENT);
+  return result.granted && grantBoost(boostId, 'ad');
+}
+
+export function canPurchaseBoost(boostId: string): boolean {
+  return !!boostDatabase.get(boostId)?.productId && ServiceRegistry.has(ServiceKeys.IAPService);
+}
+
+/** Buy a boost through its IAP product */
+export async function purchaseBoost(boostId: string): Promise<boolean> {
+  const productId = boostDatabase.get(boostId)?.productId;
+  if (!productId || !canPurchaseBoost(boostId)) return false;
+
+  const iap = ServiceRegistry.get<IAPService>(ServiceKeys.IAPService);
+  monetizationActions.setPurchaseInProgress(true);
+  try {
+    const result = await iap.purchase(productId);
+    if (!result.success) {
+      logger.info('Boost purchase not completed', { boostId, error: result.error, source: 'boosts' });
+      return false;
+    }
+    return grantBoost(boostId, 'iap');
+  } finally {
+    monetizationActions.setPurchaseInProgress(false);
+  }
+}
@@ -0,0 +1,45 @@
+import type { BoostDefinition } from '../types';
+
+export const BOOSTS: Record<string, BoostDefinition> = {
+  'double-coins': {
+    id: 'double-coins',
+    name: 'Double Coins',
+    description: 'x2 credits from mining and generators',
+    icon: 'coins',
+    stats: ['click.value', 'production.credits'],
+    multiplier: 2,
+    duration: 1_800,
+    stacking: 'sum',
+    maxStacks: 3,
+    adOffer: true,
+  },
+  'mining-frenzy': {
+    id: 'mining-frenzy',
+    name: 'Mining Frenzy',
+    description: 'x1.5 mining damage and drop chance',
+    icon: 'energy',
+    stats: ['mining.damage', 'mining.dropChance'],
+    multiplier: 1.5,
+    duration: 600,
+    stacking: 'max',
+    maxStacks: 1,
+  },
+  overclock: {
+    id: 'overclock',
+    name: 'Overclock',
+    description: 'x3 output of every generator',
+    icon: 'cpu',
+    stats: ['production.credits', 'production.ore', 'production.crystals'],
+    multiplier: 3,
+    duration: 3_600,
+    stacking: 'multiply',
+    maxStacks: 2,
+    productId: 'vibes_overclock_1h',
+  },
+};
+
+/** Seconds between expiry checks */
+export const BOOST_CHECK_INTERVAL = 1;
+
+/** Placement passed to `offerReward` for tray ad offers */
+export const BOOST_AD_PLACEMENT = 'rewarded_boost';
@@ -0,0 +1,15 @@
+import { ConfigDatabase } from '@/engine/database';
+import { BOOSTS } from './data/boosts';
+import type { BoostDefinition } from './types';
+
+export const boostDatabase = new ConfigDatabase<BoostDefinition>({
+  base: BOOSTS,
+  validate: (boost, id) => {
+    if (boost.stats.length === 0) throw new Error(`[boosts] "${id}" affects no stats`);
+    if (!(boost.multiplier > 0)) throw new Error(`[boosts] "${id}" must have a positive multiplier`);
+    if (!(boost.duration > 0)) throw new Error(`[boosts] "${id}" must have a positive duration`);
+    if (!Number.isInteger(boost.maxStacks) || boost.maxStacks < 1) {
+      throw new Error(`[boosts] "${id}" maxStacks must be a positive integer`);
+    }
+  },
+});
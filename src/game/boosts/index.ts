@@ -0,0 +1,16 @@
+export { BoostSystem } from './BoostSystem';
+export {
+  activateBoostWithAd,
+  activeBoostsStore,
+  boostModifiersStore,
+  canPurchaseBoost,
+  canWatchBoostAd,
+  combineMultipliers,
+  expireBoosts,
+  getOfflineBoostGains,
+  grantBoost,
+  purchaseBoost,
+} from './boosts';
+export { boostDatabase } from './databases';
+export { BOOST_AD_PLACEMENT, BOOST_CHECK_INTERVAL } from './data/boosts';
+export type { BoostDefinition, BoostStacking, BoostSummary } from './types';
@@ -0,0 +1,39 @@
+import type { StatId } from '@/game/modifiers';
+
+/**
+ * How concurrent grants of the same boost combine:
+ *   max      — the strongest grant wins
+ *   sum      — bonuses add up: 1 + Σ(multiplier − 1), two ×2 grants make ×3
+ *   multiply — multipliers multiply, two ×2 grants make ×4
+ * Different boosts always multiply with each other (separate pipeline modifiers).
+ */
+export type BoostStacking = 'max' | 'sum' | 'multiply';
+
+export interface BoostDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Icon name for the HUD tray */
+  icon: string;
+  /** Stats multiplied while the boost runs */
+  stats: StatId[];
+  multiplier: number;
+  /** Seconds per grant */
+  duration: number;
+  stacking: BoostStacking;
+  /** Concurrent grants kept; one more replaces the grant closest to running out */
+  maxStacks: number;
+  /** Offered in the HUD tray for a rewarded ad */
+  adOffer?: boolean;
+  /** IAP product that grants it (see purchaseBoost) */
+  productId?: string;
+}
+
+/** Boost as shown in the tray: its grants combined */
+export interface BoostSummary {
+  boost: Readonly<BoostDefinition>;
+  multiplier: number;
+  stacks: number;
+  /** When the last grant runs out (clockService ms) */
+  expiresAt: number;
+}
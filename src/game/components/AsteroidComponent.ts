@@ -0,0 +1,58 @@
+import { Component } from '@/engine/Component';
+import { VelocityComponent } from '@/engine/components';
+import { collectAsteroidYield, rollAsteroidLoot, type AsteroidTypeDefinition, type AsteroidYield } from '@/game/asteroids';
+
+/**
+ * Asteroid type and HP. Drift is integrated here rather than in PhysicsSystem:
+ * asteroids pass through each other and off-screen, where AsteroidSpawnSystem recycles them.
+ */
+export class AsteroidComponent extends Component {
+  static requiredComponents = [VelocityComponent];
+
+  asteroidType = '';
+  hp = 0;
+  maxHp = 0;
+
+  private velocity: VelocityComponent | null = null;
+  /** Loot rolled for the breaking hit, kept while the warehouse can't take it */
+  private loot: AsteroidYield | null = null;
+
+  onAdded(): void {
+    this.velocity = this.gameObject.get(VelocityComponent) ?? null;
+  }
+
+  setType(type: Readonly<AsteroidTypeDefinition>): this {
+    this.asteroidType = type.id;
+    this.hp = type.hp;
+    this.maxHp = type.hp;
+    this.loot = null;
+    return this;
+  }
+
+  get isBroken(): boolean {
+    return this.maxHp > 0 && this.hp <= 0;
+  }
+
+  /** Pay out the loot before the breaking hit; false (nothing paid, roll kept) while it doesn't fit under 'pause' */
+  collectLoot(): boolean {
+    this.loot ??= rollAsteroidLoot(this.asteroidType);
+    if (!collectAsteroidYield(this.asteroidType, this.loot)) return false;
+    this.loot = null;
+    return true;
+  }
+
+  /** Returns true when this hit broke the asteroid */
+  damage(amount: number): boolean {
+    if (this.isBroken || amount <= 0) return false;
+    this.hp = Math.max(0, this.hp - amount);
+    return this.hp === 0;
+  }
+
+  fixedUpdate(deltaTime: number): void {
+    const v = this.velocity;
+    if (!v) return;
+    this.gameObject.x += v.vx * deltaTime;
+    this.gameObject.y += v.vy * deltaTime;
+    this.gameObject.rotation += v.angular * deltaTime;
+  }
+}
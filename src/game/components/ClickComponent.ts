@@ -5,6 +5,8 @@ import { logger } from '@/engine/logging';
 import * as PIXI from 'pixi.js';
 import { EffectSystem, GameObject, IconTextRenderer, TweenComponent } from '@/engine';
 import { eventBus } from '@/engine/events/EventBus';
+import { modifierPipeline } from '@/game/modifiers';
+import { miningPausedStore, rollMiningDrop, storeItems } from '@/game/warehouse';
 
 export class ClickComponent extends Component {
   static requiredComponents = [PixiSpriteRenderer];
@@ -13,7 +15,6 @@ export class ClickComponent extends Component {
   private currencyAmount: number;
   private currencyTexture: PIXI.Texture | null = null;
   private effectSystem: EffectSystem;
-  private readonly boundHandleClick = this.handleClick.bind(this);
 
   constructor(currencyAmount: number, effectSystem: EffectSystem) {
     super();
@@ -49,24 +50,37 @@ export class ClickComponent extends Component {
   private setupInteraction(): void {
     if (!this.spriteComponent) return;
 
+    // Sprite stays interactive only for the pointer cursor. Clicks come from PointerSystem,
+    // which picks the topmost object from InputManager's events so they can be recorded and replayed.
     this.spriteComponent.sprite.interactive = true;
     this.spriteComponent.sprite.cursor = 'pointer';
-    this.spriteComponent.sprite.on('pointerdown', this.boundHandleClick);
   }
 
   private cleanupInteraction(): void {
     if (!this.spriteComponent) return;
 
-    this.spriteComponent.sprite.off('pointerdown', this.boundHandleClick);
     this.spriteComponent.sprite.interactive = false;
     this.spriteComponent.sprite.cursor = 'default';
   }
 
-  private handleClick(_event: PIXI.FederatedPointerEvent): void {
+  onPointerDown(): void {
+    if (this.spriteComponent) this.handleClick();
+  }
+
+  private handleClick(): void {
     if (!this.gameObject.scene) return;
 
+    // Base amount plus click upgrades
+    const amount = Math.floor(modifierPipeline.apply('click.value', this.currencyAmount));
+
     // Emit event to add credits
-    eventBus.emit('add-credits', { amount: this.currencyAmount });
+    eventBus.emit('add-credits', { amount });
+
+    // Chance of an item for the warehouse (held back while it's full under 'pause')
+    if (!miningPausedStore.get()) {
+      const itemId = rollMiningDrop();
+      if (itemId) storeItems(itemId);
+    }
 
     // Add floating text
     this.gameObject.scene.add(
@@ -77,7 +91,7 @@ export class ClickComponent extends Component {
               this.spriteComponent?.getContainer() ?? null, // Ensure null, not undefined
               {
                 iconTexture: this.currencyTexture ?? undefined,
-                text: `+${this.currencyAmount}`,
+                text: `+${amount}`,
                 iconSize: 32,
                 textStyle: { fontFamily: 'Orbitron', fontSize: 24, fill: 0x4ecdc4, align: 'left', fontWeight: 'bold' },
                 layout: 'horizontal'
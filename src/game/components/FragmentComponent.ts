@@ -0,0 +1,41 @@
+import { Component } from '@/engine/Component';
+import { PixiSpriteRenderer } from '@/engine/components/PixiSpriteRenderer';
+import { VelocityComponent } from '@/engine/components';
+
+/** Share of the lifetime spent fading out */
+const FADE_SHARE = 0.4;
+
+/**
+ * Asteroid debris with a limited lifetime. Moved by PhysicsSystem; fades out and
+ * reports `expired` so AsteroidSpawnSystem can return it to the pool.
+ */
+export class FragmentComponent extends Component {
+  static requiredComponents = [PixiSpriteRenderer, VelocityComponent];
+
+  private renderer: PixiSpriteRenderer | null = null;
+  private lifetime = 0;
+  private age = 0;
+
+  onAdded(): void {
+    this.renderer = this.gameObject.get(PixiSpriteRenderer) ?? null;
+  }
+
+  reset(lifetime: number): this {
+    this.lifetime = lifetime;
+    this.age = 0;
+    // Runs before onAdded on the first spawn from the pool
+    this.gameObject.get(PixiSpriteRenderer)?.setAlpha(1);
+    return this;
+  }
+
+  get expired(): boolean {
+    return this.age >= this.lifetime;
+  }
+
+  fixedUpdate(deltaTime: number): void {
+    if (this.expired) return;
+    this.age += deltaTime;
+    const remaining = Math.max(0, this.lifetime - this.age);
+    this.renderer?.setAlpha(Math.min(1, remaining / (this.lifetime * FADE_SHARE)));
+  }
+}
@@ -0,0 +1,91 @@
+import { Component } from '@/engine/Component';
+import { PixiSpriteRenderer } from '@/engine/components/PixiSpriteRenderer';
+import type { EffectSystem } from '@/engine';
+import { eventBus } from '@/engine/events/EventBus';
+import { ASTEROID_SPAWN_CONFIG, asteroidDatabase, getMiningCredits, getMiningDamage } from '@/game/asteroids';
+import { miningPausedStore } from '@/game/warehouse';
+import { AsteroidComponent } from './AsteroidComponent';
+
+/**
+ * Holding the pointer on an asteroid mines it: every `miningTick` seconds a hit deals
+ * `mining.damage`, pays credits and plays the mining effect. Presses come from PointerSystem
+ * (only the topmost asteroid under the pointer is mined), so mining is recorded and replayed.
+ * The breaking hit pays the loot out; under 'pause' the drill stops while the warehouse is
+ * full or the loot doesn't fit, and the asteroid holds together until it does.
+ */
+export class MiningComponent extends Component {
+  static requiredComponents = [PixiSpriteRenderer, AsteroidComponent];
+
+  private spriteComponent: PixiSpriteRenderer | null = null;
+  private asteroid: AsteroidComponent | null = null;
+  private effectSystem: EffectSystem;
+  private mining = false;
+  private cooldown = 0;
+
+  constructor(effectSystem: EffectSystem) {
+    super();
+    this.effectSystem = effectSystem;
+  }
+
+  get isMining(): boolean {
+    return this.mining;
+  }
+
+  onAdded(): void {
+    this.spriteComponent = this.gameObject.get(PixiSpriteRenderer) ?? null;
+    this.asteroid = this.gameObject.get(AsteroidComponent) ?? null;
+    if (this.spriteComponent) {
+      this.spriteComponent.sprite.interactive = true;
+      this.spriteComponent.sprite.cursor = 'pointer';
+    }
+  }
+
+  onPointerDown(): void {
+    if (miningPausedStore.get()) return;
+    this.mining = true;
+    this.cooldown = 0;
+  }
+
+  // Released, or slid off the asteroid: the drill stops
+  onPointerUp(): void {
+    this.mining = false;
+  }
+
+  onRemoved(): void {
+    this.mining = false;
+    if (this.spriteComponent) {
+      this.spriteComponent.sprite.interactive = false;
+      this.spriteComponent.sprite.cursor = 'default';
+    }
+  }
+
+  fixedUpdate(deltaTime: number): void {
+    if (!this.mining) return;
+    this.cooldown -= deltaTime;
+    while (this.mining && this.cooldown <= 0) {
+      this.cooldown += ASTEROID_SPAWN_CONFIG.miningTick;
+      this.mineOnce();
+    }
+  }
+
+  private mineOnce(): void {
+    const asteroid = this.asteroid;
+    if (!asteroid || asteroid.isBroken || miningPausedStore.get()) {
+      this.mining = false;
+      return;
+    }
+
+    const damage = getMiningDamage();
+    if (damage >= asteroid.hp && !asteroid.collectLoot()) {
+      this.mining = false;
+      return;
+    }
+
+    const hardness = asteroidDatabase.get(asteroid.asteroidType)?.hardness ?? 0.5;
+    eventBus.emit('add-credits', { amount: getMiningCredits() });
+    this.effectSystem.triggerMiningEffect(this.gameObject.x, this.gameObject.y, hardness);
+
+    // AsteroidSpawnSystem picks up the broken asteroid on its next step
+    if (asteroid.damage(damage)) this.mining = false;
+  }
+}
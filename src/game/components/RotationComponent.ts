@@ -1,5 +1,6 @@
 // engine/components/VelocityComponent.ts
 import { Component } from '@/engine/Component';
+import { componentRegistry } from '@/engine/serialization/ComponentRegistry';
 
 export class RotationComponent extends Component {
   speed: number;
@@ -12,5 +13,15 @@ export class RotationComponent extends Component {
   update(dt: number) {
     this.gameObject.rotation += this.speed * dt;
   }
+
+  serialize(): { speed: number } {
+    return { speed: this.speed };
+  }
+
+  deserialize(data: unknown): void {
+    this.speed = (data as { speed: number }).speed;
+  }
 }
 
+componentRegistry.register('Rotation', RotationComponent, () => new RotationComponent(0));
+
@@ -1,5 +1,5 @@
 // game/scenes/components/SVGSpriteComponent.ts
-import { PixiSpriteRenderer, SpriteRendererConfig } from '@/engine/components';
+import { PixiSpriteRenderer, PolygonColliderComponent, SpriteRendererConfig } from '@/engine/components';
 import { TextureFactory } from '@/game/graphics/TextureFactory';
 import { logger } from '@/engine/logging';
 import * as PIXI from 'pixi.js';
@@ -39,6 +39,9 @@ export class SVGSpriteComponent extends PixiSpriteRenderer {
       if (this.sprite) {
         this.sprite.texture = texture;
         this.isLoaded = true;
+        // Коллайдер по контуру спрайта снимался с пустой текстуры — пересчитываем
+        const collider = this.gameObject?.get(PolygonColliderComponent);
+        if (collider?.fromSprite) collider.fitToSprite();
         
         // Применяем тинт и альфу после загрузки
         if (this.sprite.tint !== undefined) {
@@ -1,4 +1,7 @@
 // game/scenes/components/index.ts
 export { SpaceBackgroundComponent, SPACE_PRESETS } from './SpaceBackgroundComponent';
 export type { SpaceMood } from './SpaceBackgroundComponent';
-export { SVGSpriteComponent } from './SVGSpriteComponent';
\ No newline at end of file
+export { SVGSpriteComponent } from './SVGSpriteComponent';
+export { AsteroidComponent } from './AsteroidComponent';
+export { MiningComponent } from './MiningComponent';
+export { FragmentComponent } from './FragmentComponent';
@@ -0,0 +1,74 @@
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { addAmount, mulAmount } from '@/shared/amount';
+import { economyActions, type ResourceAmounts } from '@/stores/game';
+import { ProfileSystem } from '@/game/systems/ProfileSystem';
+import { calculateOfflineProgress, getSecondsSinceSave, productionRatesStore, seedEconomyDefaults } from './economy';
+import { OFFLINE_PROGRESS, PRODUCTION_COMMIT_INTERVAL } from './data/economy';
+
+/**
+ * Runs the idle economy: generator production, click income and offline progress.
+ * Production is integrated on the fixed step (deterministic under replay) and committed
+ * to the profile in batches so the store isn't rewritten 60 times a second.
+ */
+export class EconomySystem extends ProfileSystem {
+  protected readonly tickInterval = PRODUCTION_COMMIT_INTERVAL;
+  private pending: ResourceAmounts = {};
+
+  protected onStart(): void {
+    super.onStart();
+    this.listen(
+      eventBus.on('add-credits', ({ amount }) => economyActions.add({ credits: amount })),
+      // Production accumulated before the reset belongs to the finished run
+      eventBus.on('prestige-performed', () => {
+        this.pending = {};
+      }),
+    );
+  }
+
+  protected onStop(): void {
+    this.flush();
+    super.onStop();
+  }
+
+  protected onFixedUpdate(deltaTime: number): void {
+    for (const [resourceId, rate] of Object.entries(productionRatesStore.get())) {
+      this.pending[resourceId] = addAmount(this.pending[resourceId] ?? 0, mulAmount(rate, deltaTime));
+    }
+    super.onFixedUpdate(deltaTime);
+  }
+
+  /** Commits pending production in one store write */
+  protected onTick(): void {
+    if (Object.keys(this.pending).length === 0) return;
+    economyActions.add(this.pending);
+    this.pending = {};
+  }
+
+  /** The new slot's profile replaced the store — anything pending belongs to the old slot */
+  protected onLoad(): void {
+    this.pending = {};
+    seedEconomyDefaults();
+    this.applyOfflineProgress();
+  }
+
+  private applyOfflineProgress(): void {
+    const elapsed = getSecondsSinceSave();
+    if (elapsed === null) return;
+
+    const report = calculateOfflineProgress(productionRatesStore.get(), elapsed);
+    if (Object.keys(report.gains).length === 0) return;
+
+    economyActions.add(report.gains);
+    logger.info('🌙 Offline progress applied', {
+      elapsedSeconds: Math.round(report.elapsedSeconds),
+      creditedSeconds: Math.round(report.creditedSeconds),
+      gains: report.gains,
+      source: 'economy',
+    });
+
+    if (report.elapsedSeconds >= OFFLINE_PROGRESS.minSeconds) {
+      economyActions.setOfflineReport(report);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import type { OfflineProgressConfig } from '../types';
+
+export const OFFLINE_PROGRESS: OfflineProgressConfig = {
+  minSeconds: 60,
+  maxSeconds: 8 * 60 * 60,
+  efficiency: 0.5,
+};
+
+/** Production is accumulated every fixed step but written to the profile this often (seconds) */
+export const PRODUCTION_COMMIT_INTERVAL = 0.2;
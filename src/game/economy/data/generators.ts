@@ -0,0 +1,28 @@
+import type { GeneratorDefinition } from '../types';
+
+export const GENERATORS: Record<string, GeneratorDefinition> = {
+  'mining-drone': {
+    id: 'mining-drone',
+    name: 'Mining Drone',
+    description: 'Chips credits off nearby rocks',
+    produces: { credits: 1 },
+    baseCost: { credits: 15 },
+    costGrowth: 1.15,
+  },
+  'ore-harvester': {
+    id: 'ore-harvester',
+    name: 'Ore Harvester',
+    description: 'Strip-mines asteroids for raw ore',
+    produces: { ore: 0.5 },
+    baseCost: { credits: 100 },
+    costGrowth: 1.17,
+  },
+  'crystal-refinery': {
+    id: 'crystal-refinery',
+    name: 'Crystal Refinery',
+    description: 'Grows neon crystals, slowly',
+    produces: { crystals: 0.1 },
+    baseCost: { credits: 500, ore: 50 },
+    costGrowth: 1.2,
+  },
+};
@@ -0,0 +1,26 @@
+import creditIcon from '@/assets/icons/credit.png';
+import type { ResourceDefinition } from '../types';
+
+export const RESOURCES: Record<string, ResourceDefinition> = {
+  credits: {
+    id: 'credits',
+    name: 'Credits',
+    icon: creditIcon,
+    color: 'var(--color-neon-yellow)',
+    initial: 0,
+  },
+  ore: {
+    id: 'ore',
+    name: 'Ore',
+    color: 'var(--color-neon-cyan)',
+    initial: 0,
+    hiddenUntilOwned: true,
+  },
+  crystals: {
+    id: 'crystals',
+    name: 'Crystals',
+    color: 'var(--color-neon-pink)',
+    initial: 0,
+    hiddenUntilOwned: true,
+  },
+};
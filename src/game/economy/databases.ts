@@ -0,0 +1,23 @@
+import { ConfigDatabase } from '@/engine/database';
+import { RESOURCES } from './data/resources';
+import { GENERATORS } from './data/generators';
+import type { GeneratorDefinition, ResourceDefinition } from './types';
+
+export const resourceDatabase = new ConfigDatabase<ResourceDefinition>({
+  base: RESOURCES,
+  validate: (resource, id) => {
+    if (resource.initial < 0) throw new Error(`[economy] resource "${id}" has a negative initial amount`);
+  },
+});
+
+export const generatorDatabase = new ConfigDatabase<GeneratorDefinition>({
+  base: GENERATORS,
+  validate: (generator, id) => {
+    for (const resourceId of [...Object.keys(generator.produces), ...Object.keys(generator.baseCost)]) {
+      if (!resourceDatabase.has(resourceId)) {
+        throw new Error(`[economy] generator "${id}" references unknown resource "${resourceId}"`);
+      }
+    }
+    if (generator.costGrowth < 1) throw new Error(`[economy] generator "${id}" costGrowth must be >= 1`);
+  },
+});
@@ -0,0 +1,155 @@
+import { computed } from 'nanostores';
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { replayService } from '@/engine/replay';
+import { clockService } from '@/engine/time';
+import { addAmount, geometricCost, maxAffordable, mulAmount } from '@/shared/amount';
+import {
+  economyActions,
+  generatorsStore,
+  persistenceService,
+  profileStore,
+  type OfflineReport,
+  type ResourceAmounts,
+} from '@/stores/game';
+import { modifierPipeline } from '@/game/modifiers';
+import { generatorDatabase, resourceDatabase } from './databases';
+import { OFFLINE_PROGRESS } from './data/economy';
+import type { OfflineProgressConfig } from './types';
+
+/**
+ * Per-second production of every resource for the given owned generators,
+ * after `generator.<id>` and `production.<resource>` modifiers
+ */
+export function computeProductionRates(generators: Record<string, number>): ResourceAmounts {
+  const rates: ResourceAmounts = {};
+  for (const [generatorId, owned] of Object.entries(generators)) {
+    const generator = generatorDatabase.get(generatorId);
+    if (!generator || owned <= 0) continue;
+    for (const [resourceId, rate] of Object.entries(generator.produces)) {
+      const unitRate = modifierPipeline.apply(`generator.${generatorId}`, rate);
+      rates[resourceId] = addAmount(rates[resourceId] ?? 0, mulAmount(unitRate, owned));
+    }
+  }
+  for (const resourceId of Object.keys(rates)) {
+    rates[resourceId] = modifierPipeline.apply(`production.${resourceId}`, rates[resourceId]);
+  }
+  return rates;
+}
+
+export const productionRatesStore = computed(
+  [generatorsStore, modifierPipeline.revision],
+  generators => computeProductionRates(generators)
+);
+
+/**
+ * OFFLINE_PROGRESS with `offline.*` modifiers applied. Efficiency never exceeds 100%
+ */
+export function getOfflineConfig(): OfflineProgressConfig {
+  return {
+    ...OFFLINE_PROGRESS,
+    maxSeconds: modifierPipeline.apply('offline.maxSeconds', OFFLINE_PROGRESS.maxSeconds),
+    efficiency: Math.min(1, modifierPipeline.apply('offline.efficiency', OFFLINE_PROGRESS.efficiency)),
+  };
+}
+
+export function getGeneratorCount(generatorId: string): number {
+  return profileStore.get().generators[generatorId] ?? 0;
+}
+
+/**
+ * Total price of the next `count` units of a generator
+ */
+export function getGeneratorCost(generatorId: string, count = 1): ResourceAmounts {
+  const generator = generatorDatabase.get(generatorId);
+  if (!generator) return {};
+
+  const owned = getGeneratorCount(generatorId);
+  const cost: ResourceAmounts = {};
+  for (const [resourceId, base] of Object.entries(generator.baseCost)) {
+    cost[resourceId] = geometricCost(base, generator.costGrowth, owned, count);
+  }
+  return cost;
+}
+
+/**
+ * How many units the player can buy right now (limited by the scarcest cost resource)
+ */
+export function getMaxAffordableGenerators(generatorId: string): number {
+  const generator = generatorDatabase.get(generatorId);
+  if (!generator) return 0;
+
+  const owned = getGeneratorCount(generatorId);
+  let count = Infinity;
+  for (const [resourceId, base] of Object.entries(generator.baseCost)) {
+    const budget = economyActions.getAmount(resourceId);
+    count = Math.min(count, maxAffordable(base, generator.costGrowth, owned, budget));
+  }
+  return Number.isFinite(count) ? count : 0;
+}
+
+/**
+ * Spend resources and add `count` units. Returns false if unknown or unaffordable
+ */
+export function buyGenerator(generatorId: string, count = 1): boolean {
+  if (!generatorDatabase.has(generatorId) || count <= 0) return false;
+  if (!economyActions.spend(getGeneratorCost(generatorId, count))) return false;
+
+  const owned = getGeneratorCount(generatorId) + count;
+  economyActions.setGeneratorCount(generatorId, owned);
+  eventBus.emit('generator-purchased', { generatorId, count, owned });
+  logger.debug('⚙️ Generator purchased', { generatorId, count, owned, source: 'economy' });
+  return true;
+}
+
+/**
+ * Fill in resources and generators the profile doesn't know yet (fresh save, new content)
+ */
+export function seedEconomyDefaults(): void {
+  const { resources, generators } = profileStore.get();
+
+  const missingResources: ResourceAmounts = {};
+  for (const resource of resourceDatabase.all()) {
+    if (!(resource.id in resources)) missingResources[resource.id] = resource.initial;
+  }
+  if (Object.keys(missingResources).length > 0) {
+    economyActions.add(missingResources, { earned: false });
+  }
+
+  for (const generator of generatorDatabase.all()) {
+    if (!(generator.id in generators) && generator.initialOwned) {
+      economyActions.setGeneratorCount(generator.id, generator.initialOwned);
+    }
+  }
+}
+
+/**
+ * Trusted wall-clock seconds (clockService) since the loaded save was written — the "time away"
+ * every offline catch-up works from. Null without a save, and during replay playback (wall-clock
+ * progress would make the replay diverge from its recording)
+ */
+export function getSecondsSinceSave(): number | null {
+  const savedAt = persistenceService.getProfileSavedAt();
+  if (savedAt === null || replayService.currentMode === 'playing') return null;
+  return Math.max(0, (clockService.now() - savedAt) / 1000);
+}
+
+/**
+ * What `rates` earn over `elapsedSeconds` away, after the cap and efficiency.
+ * Clock going backwards (or no time at all) earns nothing
+ */
+export function calculateOfflineProgress(
+  rates: ResourceAmounts,
+  elapsedSeconds: number,
+  config: OfflineProgressConfig = getOfflineConfig()
+): OfflineReport {
+  const elapsed = Number.isFinite(elapsedSeconds) ? Math.max(0, elapsedSeconds) : 0;
+  const creditedSeconds = Math.min(elapsed, config.maxSeconds);
+
+  const gains: ResourceAmounts = {};
+  for (const [resourceId, rate] of Object.entries(rates)) {
+    const amount = mulAmount(rate, creditedSeconds * config.efficiency);
+    if (amount > 0) gains[resourceId] = amount;
+  }
+  return { elapsedSeconds: elapsed, creditedSeconds, efficiency: config.efficiency, gains };
+}
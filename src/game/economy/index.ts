@@ -0,0 +1,16 @@
+export { EconomySystem } from './EconomySystem';
+export {
+  buyGenerator,
+  calculateOfflineProgress,
+  computeProductionRates,
+  getGeneratorCost,
+  getGeneratorCount,
+  getMaxAffordableGenerators,
+  getOfflineConfig,
+  getSecondsSinceSave,
+  productionRatesStore,
+  seedEconomyDefaults,
+} from './economy';
+export { generatorDatabase, resourceDatabase } from './databases';
+export { OFFLINE_PROGRESS, PRODUCTION_COMMIT_INTERVAL } from './data/economy';
+export type { GeneratorDefinition, OfflineProgressConfig, ResourceDefinition } from './types';
@@ -0,0 +1,37 @@
+import type { ResourceAmounts } from '@/stores/game';
+
+export interface ResourceDefinition {
+  id: string;
+  name: string;
+  /** Image URL for the HUD; falls back to a color dot */
+  icon?: string;
+  /** CSS color for amounts and the fallback dot */
+  color: string;
+  /** Amount a fresh profile starts with */
+  initial: number;
+  /** Hidden from the HUD until the player owns some */
+  hiddenUntilOwned?: boolean;
+}
+
+export interface GeneratorDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Resource produced per owned generator per second */
+  produces: ResourceAmounts;
+  /** Price of the first unit */
+  baseCost: ResourceAmounts;
+  /** Each unit costs `costGrowth` times the previous one */
+  costGrowth: number;
+  /** Units a fresh profile starts with */
+  initialOwned?: number;
+}
+
+export interface OfflineProgressConfig {
+  /** Shorter absences are credited silently, without the welcome back modal */
+  minSeconds: number;
+  /** Cap on credited time */
+  maxSeconds: number;
+  /** Fraction of the online rate earned while away */
+  efficiency: number;
+}
@@ -0,0 +1,122 @@
+import * as PIXI from 'pixi.js';
+import { SeededRandom } from '@/engine/random';
+import type { Vector2 } from '@/shared/types';
+import type { TextureFactory } from './TextureFactory';
+import { fracturePolygon, type FracturePiece } from './utils/fracture';
+
+/** Transparent border around a baked shard so its outline stroke isn't clipped */
+const SHARD_PADDING = 2;
+
+export interface FractureSource {
+  texture: PIXI.Texture;
+  /** Shape outline in the texture's px; defaults to the texture rectangle (SVG textures) */
+  outline?: Vector2[];
+  /** Neon edge drawn along every cut; no stroke when omitted */
+  strokeColor?: number;
+}
+
+export interface FracturePattern {
+  pieces: FracturePiece[];
+  /** Baked texture per piece, null until the baker gets to it */
+  textures: (PIXI.Texture | null)[];
+  /** Sprite anchor per piece that puts the piece centroid at the object's origin */
+  anchors: Vector2[];
+}
+
+/**
+ * Cuts textured shapes into Voronoi shards. Geometry is computed right away from
+ * the given seed, so the simulation never waits for it; shard textures are baked
+ * through `TextureFactory.bakeGraphicsToTexture`, at most `bakesPerFrame` per `update()`,
+ * so a burst of breaks doesn't stall a frame on mobile.
+ */
+export class FractureBaker {
+  private readonly patterns = new Map<string, FracturePattern>();
+  private readonly queue: { pattern: FracturePattern; index: number; source: FractureSource }[] = [];
+
+  constructor(
+    private readonly textureFactory: TextureFactory,
+    private readonly bakesPerFrame: number,
+  ) {}
+
+  /** Cached pattern for `key`; the first call cuts the shape and queues its textures */
+  getPattern(key: string, source: FractureSource, pieceCount: number, seed: number): FracturePattern {
+    const cached = this.patterns.get(key);
+    if (cached) return cached;
+
+    const outline = source.outline ?? textureOutline(source.texture);
+    const pieces = fracturePolygon(outline, pieceCount, new SeededRandom(seed));
+    const pattern: FracturePattern = {
+      pieces,
+      textures: pieces.map(() => null),
+      anchors: pieces.map(piece => {
+        const bounds = pieceBounds(piece);
+        return {
+          x: (SHARD_PADDING - bounds.minX) / bounds.width,
+          y: (SHARD_PADDING - bounds.minY) / bounds.height,
+        };
+      }),
+    };
+    this.patterns.set(key, pattern);
+    pieces.forEach((_, index) => this.queue.push({ pattern, index, source }));
+    return pattern;
+  }
+
+  get pendingBakes(): number {
+    return this.queue.length;
+  }
+
+  /** Bake queued shard textures within the per-frame budget */
+  update(): void {
+    for (let i = 0; i < this.bakesPerFrame && this.queue.length > 0; i++) {
+      const job = this.queue.shift()!;
+      job.pattern.textures[job.index] = this.bakePiece(job.source, job.pattern.pieces[job.index]);
+    }
+  }
+
+  destroy(): void {
+    this.queue.length = 0;
+    for (const pattern of this.patterns.values()) {
+      for (const texture of pattern.textures) texture?.destroy(true);
+    }
+    this.patterns.clear();
+  }
+
+  private bakePiece(source: FractureSource, piece: FracturePiece): PIXI.Texture {
+    const bounds = pieceBounds(piece);
+    // Shard texture px q shows source px q + offset
+    const offsetX = piece.centroid.x + bounds.minX - SHARD_PADDING;
+    const offsetY = piece.centroid.y + bounds.minY - SHARD_PADDING;
+    const points = piece.points.flatMap(p => [p.x - bounds.minX + SHARD_PADDING, p.y - bounds.minY + SHARD_PADDING]);
+
+    const graphics = new PIXI.Graphics()
+      .poly(points)
+      .fill({ texture: source.texture, textureSpace: 'global', matrix: new PIXI.Matrix().translate(-offsetX, -offsetY) });
+    if (source.strokeColor !== undefined) {
+      graphics.stroke({ width: 1.5, color: source.strokeColor, alpha: 0.9 });
+    }
+
+    const texture = this.textureFactory.bakeGraphicsToTexture(graphics, bounds.width, bounds.height);
+    graphics.destroy();
+    return texture;
+  }
+}
+
+function textureOutline(texture: PIXI.Texture): Vector2[] {
+  const { width, height } = texture;
+  return [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+}
+
+/** Bounds of the piece outline (relative to its centroid) and the padded texture size */
+function pieceBounds(piece: FracturePiece) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of piece.points) {
+    minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+  }
+  return {
+    minX,
+    minY,
+    width: Math.ceil(maxX - minX) + SHARD_PADDING * 2,
+    height: Math.ceil(maxY - minY) + SHARD_PADDING * 2,
+  };
+}
@@ -1,2 +1,3 @@
 export { TextureFactory } from './TextureFactory';
+export { FractureBaker, type FractureSource, type FracturePattern } from './FractureBaker';
 export * from './filters';
@@ -0,0 +1,140 @@
+import type { SeededRandom } from '@/engine/random';
+import type { Vector2 } from '@/shared/types';
+
+/** One Voronoi cell of a fractured shape */
+export interface FracturePiece {
+  /** Outline relative to `centroid` */
+  points: Vector2[];
+  /** Centre of mass in the source shape's space */
+  centroid: Vector2;
+  area: number;
+}
+
+/** Cells smaller than this (px²) are slivers from clipping and get dropped */
+const MIN_PIECE_AREA = 4;
+/** Rejection-sampling attempts per requested seed */
+const SEED_ATTEMPTS = 20;
+
+export function polygonArea(points: readonly Vector2[]): number {
+  return Math.abs(signedArea(points));
+}
+
+export function polygonCentroid(points: readonly Vector2[]): Vector2 {
+  const area = signedArea(points);
+  if (Math.abs(area) < 1e-9) {
+    // Degenerate — average of the vertices
+    const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+    return { x: sum.x / points.length, y: sum.y / points.length };
+  }
+
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+  return { x: cx / (6 * area), y: cy / (6 * area) };
+}
+
+/** Even-odd rule */
+export function pointInPolygon(point: Vector2, points: readonly Vector2[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Clip a polygon to the half-plane of points closer to `a` than to `b`
+ * (Sutherland–Hodgman against their perpendicular bisector)
+ */
+export function clipToBisector(points: readonly Vector2[], a: Vector2, b: Vector2): Vector2[] {
+  const nx = b.x - a.x;
+  const ny = b.y - a.y;
+  const mx = (a.x + b.x) / 2;
+  const my = (a.y + b.y) / 2;
+  const side = (p: Vector2) => (p.x - mx) * nx + (p.y - my) * ny;
+
+  const result: Vector2[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const current = points[i];
+    const next = points[(i + 1) % points.length];
+    const sc = side(current);
+    const sn = side(next);
+    if (sc <= 0) result.push(current);
+    if ((sc <= 0) !== (sn <= 0)) {
+      const t = sc / (sc - sn);
+      result.push({ x: current.x + (next.x - current.x) * t, y: current.y + (next.y - current.y) * t });
+    }
+  }
+  return result;
+}
+
+/** Voronoi cells of `seeds`, each clipped to `outline`. Cells keep the seed order */
+export function voronoiCells(outline: readonly Vector2[], seeds: readonly Vector2[]): Vector2[][] {
+  return seeds.map(seed => {
+    let cell: Vector2[] = [...outline];
+    for (const other of seeds) {
+      if (other === seed || cell.length < 3) continue;
+      cell = clipToBisector(cell, seed, other);
+    }
+    return cell;
+  });
+}
+
+/**
+ * Cut a shape into about `pieceCount` Voronoi pieces. Seeds are sampled inside
+ * the outline with `random`, so the same generator state gives the same cut.
+ */
+export function fracturePolygon(outline: readonly Vector2[], pieceCount: number, random: SeededRandom): FracturePiece[] {
+  if (outline.length < 3) return [];
+
+  const seeds = sampleSeeds(outline, Math.max(1, Math.floor(pieceCount)), random);
+  const pieces: FracturePiece[] = [];
+  for (const cell of voronoiCells(outline, seeds)) {
+    if (cell.length < 3) continue;
+    const area = polygonArea(cell);
+    if (area < MIN_PIECE_AREA) continue;
+    const centroid = polygonCentroid(cell);
+    pieces.push({
+      points: cell.map(p => ({ x: p.x - centroid.x, y: p.y - centroid.y })),
+      centroid,
+      area,
+    });
+  }
+  return pieces;
+}
+
+function signedArea(points: readonly Vector2[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+function sampleSeeds(outline: readonly Vector2[], count: number, random: SeededRandom): Vector2[] {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of outline) {
+    minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+  }
+
+  const seeds: Vector2[] = [];
+  for (let attempt = 0; attempt < count * SEED_ATTEMPTS && seeds.length < count; attempt++) {
+    const point = { x: random.range(minX, maxX), y: random.range(minY, maxY) };
+    if (pointInPolygon(point, outline)) seeds.push(point);
+  }
+  // Thin shapes can reject every sample — fall back to a single piece
+  return seeds.length > 0 ? seeds : [polygonCentroid(outline)];
+}
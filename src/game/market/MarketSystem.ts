@@ -0,0 +1,23 @@
+import { getOfflineConfig, getSecondsSinceSave } from '@/game/economy';
+import { ProfileSystem } from '@/game/systems/ProfileSystem';
+import { MARKET_TICK_SECONDS } from './data/market';
+import { loadMarket, tickMarket } from './market';
+
+/**
+ * Drifts market prices every MARKET_TICK_SECONDS with the market's own seeded RNG.
+ * Missed ticks are replayed step by step on load, continuing the same RNG sequence.
+ */
+export class MarketSystem extends ProfileSystem {
+  protected readonly tickInterval = MARKET_TICK_SECONDS;
+
+  protected onTick(seconds: number): void {
+    tickMarket(Math.round(seconds / MARKET_TICK_SECONDS));
+  }
+
+  protected onLoad(): void {
+    loadMarket();
+    const secondsAway = getSecondsSinceSave();
+    if (secondsAway === null) return;
+    tickMarket(Math.floor(Math.min(secondsAway, getOfflineConfig().maxSeconds) / MARKET_TICK_SECONDS));
+  }
+}
@@ -0,0 +1,30 @@
+import type { MarketListing } from '../types';
+
+export const MARKET_LISTINGS: Record<string, MarketListing> = {
+  ore: {
+    resourceId: 'ore',
+    basePrice: 4,
+    volatility: 0.04,
+    recovery: 0.05,
+    impact: 0.002,
+    buySpread: 0.25,
+  },
+  crystals: {
+    resourceId: 'crystals',
+    basePrice: 150,
+    volatility: 0.08,
+    recovery: 0.03,
+    impact: 0.02,
+    buySpread: 0.4,
+  },
+};
+
+/** Seconds between price drift steps */
+export const MARKET_TICK_SECONDS = 5;
+
+/** Samples kept per resource for the price chart */
+export const PRICE_HISTORY_LENGTH = 60;
+
+/** Prices stay within [floor, ceiling] × base price */
+export const MARKET_PRICE_FLOOR = 0.1;
+export const MARKET_PRICE_CEILING = 5;
@@ -0,0 +1,20 @@
+import { ConfigDatabase } from '@/engine/database';
+import { resourceDatabase } from '@/game/economy';
+import { MARKET_LISTINGS } from './data/market';
+import type { MarketListing } from './types';
+
+export const marketDatabase = new ConfigDatabase<MarketListing>({
+  base: MARKET_LISTINGS,
+  validate: (listing, id) => {
+    if (listing.resourceId !== id) throw new Error(`[market] listing "${id}" has resourceId "${listing.resourceId}"`);
+    if (!resourceDatabase.has(id)) throw new Error(`[market] listing "${id}" references unknown resource`);
+    if (id === 'credits') throw new Error(`[market] credits are the currency and can't be listed`);
+    if (listing.basePrice <= 0) throw new Error(`[market] listing "${id}" must have a positive base price`);
+    if (listing.recovery < 0 || listing.recovery > 1) throw new Error(`[market] listing "${id}" recovery must be in [0, 1]`);
+    if (listing.volatility < 0 || listing.volatility >= 1) {
+      throw new Error(`[market] listing "${id}" volatility must be in [0, 1)`);
+    }
+    if (listing.impact <= 0) throw new Error(`[market] listing "${id}" must have a positive impact`);
+    if (listing.buySpread < 0) throw new Error(`[market] listing "${id}" buy spread can't be negative`);
+  },
+});
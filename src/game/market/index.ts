@@ -0,0 +1,21 @@
+export { MarketSystem } from './MarketSystem';
+export {
+  buyResource,
+  getMarketPrice,
+  getMaxPurchasable,
+  getPurchaseQuote,
+  getSaleQuote,
+  isMarketUnlocked,
+  loadMarket,
+  sellResource,
+  tickMarket,
+} from './market';
+export { clampPrice, driftPrice, maxPurchasable, quotePurchase, quoteSale } from './pricing';
+export { marketDatabase } from './databases';
+export {
+  MARKET_PRICE_CEILING,
+  MARKET_PRICE_FLOOR,
+  MARKET_TICK_SECONDS,
+  PRICE_HISTORY_LENGTH,
+} from './data/market';
+export type { MarketListing, TradeQuote } from './types';
@@ -0,0 +1,120 @@
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { SeededRandom } from '@/engine/random';
+import { RingBuffer } from '@/shared';
+import { economyActions, marketActions } from '@/stores/game';
+import { isFeatureUnlocked } from '@/game/research';
+import { marketDatabase } from './databases';
+import { PRICE_HISTORY_LENGTH } from './data/market';
+import { clampPrice, driftPrice, maxPurchasable, quotePurchase, quoteSale } from './pricing';
+import type { TradeQuote } from './types';
+
+/*
+ * The market has its own RNG rather than the shared `rng`: its state is saved with the
+ * profile, so prices replay identically after a load and clicks elsewhere don't shift them.
+ * Ring buffers are the working copy of the price history; the profile keeps a snapshot.
+ */
+const marketRng = new SeededRandom(0);
+const histories = new Map<string, RingBuffer<number>>();
+
+/** Re-read RNG state and price history from the profile (on start and slot switch) */
+export function loadMarket(): void {
+  const { rngState, history } = marketActions.getState();
+  marketRng.setState(rngState);
+  histories.clear();
+  for (const listing of marketDatabase.all()) {
+    histories.set(listing.resourceId, new RingBuffer(PRICE_HISTORY_LENGTH, history[listing.resourceId] ?? []));
+  }
+}
+
+export function isMarketUnlocked(): boolean {
+  return isFeatureUnlocked('market');
+}
+
+/** Current sell price per unit; undefined for resources that aren't listed */
+export function getMarketPrice(resourceId: string): number | undefined {
+  const listing = marketDatabase.get(resourceId);
+  if (!listing) return undefined;
+  return clampPrice(marketActions.getState().prices[resourceId] ?? listing.basePrice, listing);
+}
+
+/** Advance prices by `ticks` drift steps and record one history sample per step */
+export function tickMarket(ticks = 1): void {
+  if (ticks <= 0) return;
+  const prices: Record<string, number> = {};
+  for (const listing of marketDatabase.all()) {
+    prices[listing.resourceId] = getMarketPrice(listing.resourceId)!;
+  }
+  if (histories.size === 0) loadMarket();
+
+  for (let i = 0; i < ticks; i++) {
+    for (const listing of marketDatabase.all()) {
+      const price = driftPrice(prices[listing.resourceId], listing, marketRng.next());
+      prices[listing.resourceId] = price;
+      histories.get(listing.resourceId)!.push(price);
+    }
+  }
+
+  const history: Record<string, number[]> = {};
+  for (const [resourceId, buffer] of histories) {
+    history[resourceId] = buffer.toArray();
+  }
+  marketActions.setState({ prices, history, rngState: marketRng.getState() });
+}
+
+export function getSaleQuote(resourceId: string, amount: number): TradeQuote | null {
+  const listing = marketDatabase.get(resourceId);
+  if (!listing) return null;
+  return quoteSale(getMarketPrice(resourceId)!, listing, Math.min(amount, economyActions.getAmount(resourceId)));
+}
+
+export function getPurchaseQuote(resourceId: string, amount: number): TradeQuote | null {
+  const listing = marketDatabase.get(resourceId);
+  if (!listing) return null;
+  return quotePurchase(getMarketPrice(resourceId)!, listing, amount);
+}
+
+/** Whole units of `resourceId` the player's credits can buy right now */
+export function getMaxPurchasable(resourceId: string): number {
+  const listing = marketDatabase.get(resourceId);
+  if (!listing) return 0;
+  return maxPurchasable(getMarketPrice(resourceId)!, listing, economyActions.getAmount('credits'));
+}
+
+/**
+ * Sell up to `amount` units (capped at what the player owns) for credits.
+ * Proceeds don't count as prestige earnings — otherwise buying and reselling would farm points.
+ * Returns the executed quote, or null if the market is locked or nothing was sold
+ */
+export function sellResource(resourceId: string, amount: number): TradeQuote | null {
+  if (!isMarketUnlocked()) return null;
+  const quote = getSaleQuote(resourceId, amount);
+  if (!quote || quote.amount <= 0) return null;
+  if (!economyActions.spend({ [resourceId]: quote.amount })) return null;
+
+  economyActions.add({ credits: quote.credits }, { earned: false });
+  commitTrade(resourceId, 'sell', quote);
+  return quote;
+}
+
+/**
+ * Buy `amount` units with credits at the ask price.
+ * Returns the executed quote, or null if the market is locked or the player can't afford it
+ */
+export function buyResource(resourceId: string, amount: number): TradeQuote | null {
+  if (!isMarketUnlocked()) return null;
+  const quote = getPurchaseQuote(resourceId, amount);
+  if (!quote || quote.amount <= 0) return null;
+  if (!economyActions.spend({ credits: quote.credits })) return null;
+
+  economyActions.add({ [resourceId]: quote.amount });
+  commitTrade(resourceId, 'buy', quote);
+  return quote;
+}
+
+function commitTrade(resourceId: string, side: 'sell' | 'buy', quote: TradeQuote): void {
+  const { prices } = marketActions.getState();
+  marketActions.setState({ prices: { ...prices, [resourceId]: quote.priceAfter } });
+  eventBus.emit('market-trade', { resourceId, side, amount: quote.amount, credits: quote.credits });
+  logger.debug('💱 Market trade', { resourceId, side, amount: quote.amount, credits: quote.credits, source: 'market' });
+}
@@ -0,0 +1,56 @@
+import { MARKET_PRICE_CEILING, MARKET_PRICE_FLOOR } from './data/market';
+import type { MarketListing, TradeQuote } from './types';
+
+/*
+ * Pure price math. Trades move the price continuously: every unit sold knocks it down by
+ * a factor of e^(−impact), so a sale of n units pays the integral
+ *   price · (1 − e^(−impact·n)) / impact
+ * and a large dump can never earn more than price / impact. Buying mirrors it upwards.
+ */
+
+export function clampPrice(price: number, listing: MarketListing): number {
+  const min = listing.basePrice * MARKET_PRICE_FLOOR;
+  const max = listing.basePrice * MARKET_PRICE_CEILING;
+  if (!Number.isFinite(price)) return listing.basePrice;
+  return Math.min(max, Math.max(min, price));
+}
+
+/**
+ * One drift step: pull towards the base price, then a random swing.
+ * `random` is a [0, 1) draw from the market RNG
+ */
+export function driftPrice(price: number, listing: MarketListing, random: number): number {
+  const recovered = price + (listing.basePrice - price) * listing.recovery;
+  const swing = recovered * listing.volatility * (random * 2 - 1);
+  return clampPrice(recovered + swing, listing);
+}
+
+export function quoteSale(price: number, listing: MarketListing, amount: number): TradeQuote {
+  if (amount <= 0) return { amount: 0, credits: 0, priceAfter: price };
+  const factor = Math.exp(-listing.impact * amount);
+  return {
+    amount,
+    credits: price * (1 - factor) / listing.impact,
+    priceAfter: clampPrice(price * factor, listing),
+  };
+}
+
+export function quotePurchase(price: number, listing: MarketListing, amount: number): TradeQuote {
+  if (amount <= 0) return { amount: 0, credits: 0, priceAfter: price };
+  const ask = price * (1 + listing.buySpread);
+  const factor = Math.exp(listing.impact * amount);
+  return {
+    amount,
+    credits: ask * (factor - 1) / listing.impact,
+    priceAfter: clampPrice(price * factor, listing),
+  };
+}
+
+/** Whole units purchasable with `budget` credits (inverse of quotePurchase) */
+export function maxPurchasable(price: number, listing: MarketListing, budget: number): number {
+  if (budget <= 0) return 0;
+  const ask = price * (1 + listing.buySpread);
+  const amount = Math.floor(Math.log1p(budget * listing.impact / ask) / listing.impact);
+  // Guard against rounding putting the last unit just over budget
+  return quotePurchase(price, listing, amount).credits > budget ? Math.max(0, amount - 1) : amount;
+}
@@ -0,0 +1,22 @@
+export interface MarketListing {
+  /** Traded resource; prices are in credits */
+  resourceId: string;
+  /** Price the market drifts back to */
+  basePrice: number;
+  /** Random swing per tick, as a fraction of the current price (0.05 = up to ±5%) */
+  volatility: number;
+  /** Share of the gap to base price closed per tick (0..1) */
+  recovery: number;
+  /** Exponential price impact per unit traded: selling n units multiplies the price by e^(−impact·n) */
+  impact: number;
+  /** Buy price markup over the sell price (0.2 = +20%) */
+  buySpread: number;
+}
+
+export interface TradeQuote {
+  amount: number;
+  /** Credits received (sell) or paid (buy) */
+  credits: number;
+  /** Price once the trade has gone through */
+  priceAfter: number;
+}
@@ -0,0 +1,34 @@
+import { eventBus, type AppEvents } from '@/engine/events/EventBus';
+import { clockService } from '@/engine/time';
+import { missionActions } from '@/stores/game';
+import { ProfileSystem } from '@/game/systems/ProfileSystem';
+import { getMissionEvents, recordMissionEvent, refreshMissions } from './missions';
+import { MISSION_CHECK_INTERVAL } from './data/missions';
+
+/**
+ * Tracks mission progress from game events and rolls boards over at the reset hour.
+ * Time comes from the rollback-resistant clockService, re-anchored from each loaded profile.
+ */
+export class MissionSystem extends ProfileSystem {
+  protected readonly tickInterval = MISSION_CHECK_INTERVAL;
+
+  protected onStart(): void {
+    super.onStart();
+    for (const event of getMissionEvents()) {
+      this.subscribe(event);
+    }
+  }
+
+  protected onTick(): void {
+    refreshMissions();
+  }
+
+  protected onLoad(): void {
+    clockService.restore(missionActions.getState().lastSeenAt);
+    refreshMissions();
+  }
+
+  private subscribe<K extends keyof AppEvents>(event: K): void {
+    this.listen(eventBus.on(event, payload => recordMissionEvent(event, payload)));
+  }
+}
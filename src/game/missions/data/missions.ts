@@ -0,0 +1,107 @@
+import type { MissionConfig, MissionDefinition } from '../types';
+
+export const MISSIONS: Record<string, MissionDefinition> = {
+  // ─── Daily ─────────────────────────────────────────────────
+  'daily-clicks': {
+    id: 'daily-clicks',
+    name: 'Rock Breaker',
+    description: 'Mine 200 asteroids',
+    period: 'daily',
+    objective: { event: 'asteroid-destroyed', target: 200 },
+    reward: 'credit-cache',
+  },
+  'daily-generators': {
+    id: 'daily-generators',
+    name: 'Expansion',
+    description: 'Buy 10 generators',
+    period: 'daily',
+    objective: { event: 'generator-purchased', target: 10, amount: e => e.count },
+    reward: 'ore-crate',
+  },
+  'daily-upgrades': {
+    id: 'daily-upgrades',
+    name: 'Tune-up',
+    description: 'Buy 5 upgrade levels',
+    period: 'daily',
+    objective: { event: 'upgrade-purchased', target: 5, amount: e => e.levels },
+    reward: 'credit-cache',
+  },
+  'daily-refinery': {
+    id: 'daily-refinery',
+    name: 'Smelting Shift',
+    description: 'Complete 5 refinery jobs',
+    period: 'daily',
+    objective: { event: 'production-job-completed', target: 5 },
+    reward: 'ore-crate',
+  },
+  'daily-trader': {
+    id: 'daily-trader',
+    name: 'Day Trader',
+    description: 'Sell on the market 3 times',
+    period: 'daily',
+    objective: { event: 'market-trade', target: 3, when: e => e.side === 'sell' },
+    reward: 'crystal-pouch',
+  },
+  'daily-research': {
+    id: 'daily-research',
+    name: 'Curiosity',
+    description: 'Start a research project',
+    period: 'daily',
+    objective: { event: 'research-started', target: 1 },
+    reward: 'frenzy-charge',
+  },
+
+  // ─── Weekly ────────────────────────────────────────────────
+  'weekly-clicks': {
+    id: 'weekly-clicks',
+    name: 'Asteroid Belt',
+    description: 'Mine 5,000 asteroids',
+    period: 'weekly',
+    objective: { event: 'asteroid-destroyed', target: 5_000 },
+    reward: 'relic-drop',
+  },
+  'weekly-refinery': {
+    id: 'weekly-refinery',
+    name: 'Foundry Week',
+    description: 'Complete 50 refinery jobs',
+    period: 'weekly',
+    objective: { event: 'production-job-completed', target: 50 },
+    reward: 'relic-drop',
+  },
+  'weekly-research': {
+    id: 'weekly-research',
+    name: 'Breakthroughs',
+    description: 'Complete 3 research projects',
+    period: 'weekly',
+    objective: { event: 'research-completed', target: 3 },
+    reward: 'crystal-pouch',
+  },
+  'weekly-market': {
+    id: 'weekly-market',
+    name: 'Tycoon',
+    description: 'Earn 50K credits from market sales',
+    period: 'weekly',
+    objective: { event: 'market-trade', target: 50_000, amount: e => e.credits, when: e => e.side === 'sell' },
+    reward: 'relic-drop',
+  },
+  'weekly-achievements': {
+    id: 'weekly-achievements',
+    name: 'Overachiever',
+    description: 'Unlock 2 achievements',
+    period: 'weekly',
+    objective: { event: 'achievement-unlocked', target: 2 },
+    reward: 'overclock-chip',
+  },
+};
+
+export const MISSION_CONFIG: MissionConfig = {
+  resetHour: 4,
+  counts: { daily: 3, weekly: 2 },
+  streakRewards: ['credit-cache', 'ore-crate', 'credit-cache', 'crystal-pouch', 'credit-cache', 'ore-crate', 'relic-drop'],
+};
+
+/** Seconds between rollover checks */
+export const MISSION_CHECK_INTERVAL = 5;
+
+/** Placement passed to `offerReward` for the "double reward" button */
+export const MISSION_AD_PLACEMENT = 'rewarded_mission_claim';
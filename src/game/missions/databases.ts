@@ -0,0 +1,22 @@
+import { ConfigDatabase } from '@/engine/database';
+import { rewardDatabase } from '@/game/rewards';
+import { MISSION_CONFIG, MISSIONS } from './data/missions';
+import type { MissionDefinition } from './types';
+
+export const missionDatabase = new ConfigDatabase<MissionDefinition>({
+  base: MISSIONS,
+  validate: (mission, id) => {
+    if (!rewardDatabase.has(mission.reward)) throw new Error(`[missions] "${id}" grants unknown reward "${mission.reward}"`);
+    if (!(mission.objective.target > 0)) throw new Error(`[missions] "${id}" must have a positive target`);
+  },
+});
+
+for (const rewardType of MISSION_CONFIG.streakRewards) {
+  if (!rewardDatabase.has(rewardType)) throw new Error(`[missions] streak grants unknown reward "${rewardType}"`);
+}
+for (const period of ['daily', 'weekly'] as const) {
+  const pool = missionDatabase.all().filter(mission => mission.period === period).length;
+  if (pool < MISSION_CONFIG.counts[period]) {
+    throw new Error(`[missions] ${period} pool has ${pool} missions, ${MISSION_CONFIG.counts[period]} are rolled`);
+  }
+}
@@ -0,0 +1,20 @@
+export { MissionSystem } from './MissionSystem';
+export {
+  MISSION_PERIODS,
+  canClaimStreak,
+  canDoubleWithAd,
+  claimMission,
+  claimMissionWithAd,
+  claimStreakReward,
+  getMissionEvents,
+  getNextReset,
+  getStreakReward,
+  hasClaimableMissionsStore,
+  isMissionComplete,
+  recordMissionEvent,
+  refreshMissions,
+} from './missions';
+export { dayIndex, nextResetAt, periodKey, weekIndex } from './period';
+export { missionDatabase } from './databases';
+export { MISSION_AD_PLACEMENT, MISSION_CHECK_INTERVAL, MISSION_CONFIG } from './data/missions';
+export type { MissionConfig, MissionDefinition, MissionObjective } from './types';
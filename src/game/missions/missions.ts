@@ -0,0 +1,177 @@
+import { computed } from 'nanostores';
+import { eventBus, type AppEvents } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { SeededRandom } from '@/engine/random';
+import { clockService } from '@/engine/time';
+import { ServiceRegistry, ServiceKeys } from '@/engine/registry';
+import type { MonetizationService } from '@/engine/services/monetization';
+import { missionActions, missionsStore, type MissionBoardState, type MissionPeriod } from '@/stores/game';
+import { grantReward } from '@/game/rewards';
+import { missionDatabase } from './databases';
+import { MISSION_AD_PLACEMENT, MISSION_CONFIG } from './data/missions';
+import { dayIndex, nextResetAt, periodKey } from './period';
+import type { MissionDefinition } from './types';
+
+export const MISSION_PERIODS: readonly MissionPeriod[] = ['daily', 'weekly'];
+
+/** Events any mission in the pool listens to — MissionSystem subscribes to exactly these */
+export function getMissionEvents(): (keyof AppEvents)[] {
+  return [...new Set(missionDatabase.all().map(mission => mission.objective.event))];
+}
+
+export function getNextReset(period: MissionPeriod, now = clockService.now()): number {
+  return nextResetAt(now, period, MISSION_CONFIG.resetHour);
+}
+
+export function isMissionComplete(period: MissionPeriod, index: number): boolean {
+  const slot = missionActions.getBoard(period).slots[index];
+  const mission = slot && missionDatabase.get(slot.missionId);
+  return !!mission && slot.progress >= mission.objective.target;
+}
+
+/** True while a finished mission or today's streak reward waits to be claimed */
+export const hasClaimableMissionsStore = computed(missionsStore, missions => {
+  const { streak } = missions;
+  if (streak.count > 0 && streak.lastDay !== null && streak.claimedDay !== streak.lastDay) return true;
+  return MISSION_PERIODS.some(period => missions[period].slots.some(slot => {
+    const mission = missionDatabase.get(slot.missionId);
+    return !slot.claimed && !!mission && slot.progress >= mission.objective.target;
+  }));
+});
+
+/**
+ * Roll over boards whose period ended, update the login streak and record the trusted time.
+ * Call on load and periodically; cheap when nothing changed
+ */
+export function refreshMissions(now = clockService.now()): void {
+  for (const period of MISSION_PERIODS) {
+    const key = periodKey(now, period, MISSION_CONFIG.resetHour);
+    if (missionActions.getBoard(period).periodKey !== key) {
+      missionActions.setBoard(period, rollBoard(period, key));
+      logger.info('📋 Missions rolled over', { period, periodKey: key, source: 'missions' });
+    }
+  }
+
+  const today = dayIndex(now, MISSION_CONFIG.resetHour);
+  const streak = missionActions.getState().streak;
+  if (streak.lastDay !== today) {
+    const count = streak.lastDay === today - 1 ? streak.count + 1 : 1;
+    missionActions.setStreak({ ...streak, count, lastDay: today });
+  }
+
+  const { lastSeenAt } = missionActions.getState();
+  if (lastSeenAt === null || now > lastSeenAt) missionActions.setLastSeenAt(now);
+}
+
+/** Feed a game event to the current missions that track it */
+export function recordMissionEvent<K extends keyof AppEvents>(event: K, payload: AppEvents[K]): void {
+  for (const period of MISSION_PERIODS) {
+    const board = missionActions.getBoard(period);
+    let changed = false;
+
+    const slots = board.slots.map(slot => {
+      const mission = missionDatabase.get(slot.missionId);
+      if (!mission || mission.objective.event !== event || slot.progress >= mission.objective.target) return slot;
+
+      // The mapped objective type pairs `event` with its payload; TS can't correlate them here
+      const when = mission.objective.when as ((payload: AppEvents[K]) => boolean) | undefined;
+      if (when && !when(payload)) return slot;
+      const amount = (mission.objective.amount as ((payload: AppEvents[K]) => number) | undefined)?.(payload) ?? 1;
+
+      changed = true;
+      const progress = Math.min(mission.objective.target, slot.progress + amount);
+      if (progress >= mission.objective.target) {
+        eventBus.emit('mission-completed', { missionId: mission.id, period });
+      }
+      return { ...slot, progress };
+    });
+
+    if (changed) missionActions.setBoard(period, { ...board, slots });
+  }
+}
+
+/**
+ * Grant a completed mission's reward once. `multiplier` > 1 is for the rewarded-ad bonus.
+ * Returns false if the mission isn't complete or was already claimed
+ */
+export function claimMission(period: MissionPeriod, index: number, multiplier = 1): boolean {
+  const board = missionActions.getBoard(period);
+  const slot = board.slots[index];
+  if (!slot || slot.claimed || !isMissionComplete(period, index)) return false;
+
+  const mission = missionDatabase.get(slot.missionId)!;
+  missionActions.setBoard(period, {
+    ...board,
+    slots: board.slots.map((s, i) => (i === index ? { ...s, claimed: true } : s)),
+  });
+  grantReward(mission.reward, `mission:${mission.id}`, multiplier);
+  return true;
+}
+
+/** True when a rewarded ad can double mission rewards (a MonetizationService is registered) */
+export function canDoubleWithAd(): boolean {
+  return ServiceRegistry.has(ServiceKeys.MonetizationService);
+}
+
+/**
+ * Offer a rewarded ad for the mission's reward type and claim it doubled if the ad pays out.
+ * Nothing is claimed when the ad fails, so the player can still claim normally
+ */
+export async function claimMissionWithAd(period: MissionPeriod, index: number): Promise<boolean> {
+  const slot = missionActions.getBoard(period).slots[index];
+  if (!slot || slot.claimed || !isMissionComplete(period, index) || !canDoubleWithAd()) return false;
+
+  const mission = missionDatabase.get(slot.missionId)!;
+  const monetization = ServiceRegistry.get<MonetizationService>(ServiceKeys.MonetizationService);
+  const result = await monetization.offerReward(mission.reward, MISSION_AD_PLACEMENT);
+  return result.granted && claimMission(period, index, 2);
+}
+
+export function getStreakReward(day: number): string {
+  const { streakRewards } = MISSION_CONFIG;
+  return streakRewards[(Math.max(1, day) - 1) % streakRewards.length];
+}
+
+export function canClaimStreak(): boolean {
+  const { lastDay, claimedDay, count } = missionActions.getState().streak;
+  return count > 0 && lastDay !== null && claimedDay !== lastDay;
+}
+
+/** Grant today's login streak reward. Returns false if already claimed today */
+export function claimStreakReward(): boolean {
+  if (!canClaimStreak()) return false;
+
+  const streak = missionActions.getState().streak;
+  const rewardType = getStreakReward(streak.count);
+  missionActions.setStreak({ ...streak, claimedDay: streak.lastDay });
+  grantReward(rewardType, 'streak');
+  eventBus.emit('login-streak-claimed', { day: streak.count, rewardType });
+  return true;
+}
+
+/**
+ * Pick the period's missions. Seeded by the period key, so every reload (or rollback)
+ * within the same period rolls the same set
+ */
+function rollBoard(period: MissionPeriod, key: string): MissionBoardState {
+  const random = new SeededRandom(hashString(key));
+  const pool: MissionDefinition[] = missionDatabase.all().filter(mission => mission.period === period);
+  const picked: MissionDefinition[] = [];
+  while (picked.length < MISSION_CONFIG.counts[period] && pool.length > 0) {
+    picked.push(pool.splice(random.int(0, pool.length - 1), 1)[0]);
+  }
+  return {
+    periodKey: key,
+    slots: picked.map(mission => ({ missionId: mission.id, progress: 0, claimed: false })),
+  };
+}
+
+/** FNV-1a */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
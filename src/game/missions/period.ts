@@ -0,0 +1,38 @@
+import type { MissionPeriod } from '@/stores/game';
+
+/*
+ * Calendar math for rollovers. A "day" runs from `resetHour` local time to `resetHour`
+ * the next day; a week starts on Monday at `resetHour`. Day indexes count days since
+ * 1970-01-01 in that shifted local calendar, so consecutive days differ by exactly 1.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Local calendar date the game considers "today" at `time` */
+function gameDate(time: number, resetHour: number): Date {
+  return new Date(time - resetHour * HOUR_MS);
+}
+
+export function dayIndex(time: number, resetHour: number): number {
+  const date = gameDate(time, resetHour);
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+/** 1970-01-01 was a Thursday; +3 moves week boundaries to Monday */
+export function weekIndex(time: number, resetHour: number): number {
+  return Math.floor((dayIndex(time, resetHour) + 3) / 7);
+}
+
+/** Changes exactly when the period rolls over */
+export function periodKey(time: number, period: MissionPeriod, resetHour: number): string {
+  return period === 'daily' ? `d${dayIndex(time, resetHour)}` : `w${weekIndex(time, resetHour)}`;
+}
+
+/** Next rollover of `period` after `time`, in ms since epoch */
+export function nextResetAt(time: number, period: MissionPeriod, resetHour: number): number {
+  const date = gameDate(time, resetHour);
+  // getDay(): 0 = Sunday … 6 = Saturday → days until the next Monday
+  const days = period === 'daily' ? 1 : ((8 - date.getDay()) % 7 || 7);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, resetHour).getTime();
+}
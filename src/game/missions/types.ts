@@ -0,0 +1,34 @@
+import type { AppEvents } from '@/engine/events/EventBus';
+import type { MissionPeriod } from '@/stores/game';
+import type { RewardType } from '@/stores/game/monetization';
+
+type GameEvent = keyof AppEvents;
+
+/** Adds `amount(payload)` (default 1) per matching event until `target` */
+export type MissionObjective = {
+  [K in GameEvent]: {
+    event: K;
+    target: number;
+    amount?: (payload: AppEvents[K]) => number;
+    when?: (payload: AppEvents[K]) => boolean;
+  };
+}[GameEvent];
+
+export interface MissionDefinition {
+  id: string;
+  name: string;
+  description: string;
+  period: MissionPeriod;
+  objective: MissionObjective;
+  /** Granted on claim (see game/rewards) */
+  reward: RewardType;
+}
+
+export interface MissionConfig {
+  /** Local hour (0–23) at which daily and weekly missions roll over; weeks start on Monday */
+  resetHour: number;
+  /** Missions rolled per period */
+  counts: Record<MissionPeriod, number>;
+  /** Login streak reward for day N is `streakRewards[(N − 1) % length]` */
+  streakRewards: RewardType[];
+}
@@ -0,0 +1,95 @@
+import { atom, type ReadableAtom } from 'nanostores';
+import { logger } from '@/engine/logging';
+import { sanitizeAmount } from '@/shared/amount';
+import type { StatId, StatModifier } from './types';
+
+/**
+ * Collects stat modifiers from every source (upgrades, research, boosts…) and applies them:
+ * (base + Σflat) × (1 + Σpercent) × Πmultiply.
+ *
+ * A source is a nanostore of modifiers; when any source changes, the cache is dropped and
+ * `revision` ticks so computed stores depending on it (production rates) recompute.
+ */
+export class ModifierPipeline {
+  private static instance: ModifierPipeline;
+  static getInstance(): ModifierPipeline {
+    return (ModifierPipeline.instance ??= new ModifierPipeline());
+  }
+
+  private sources = new Map<string, { store: ReadableAtom<StatModifier[]>; unsubscribe: () => void }>();
+  private byStat: Map<StatId, StatModifier[]> | null = null;
+  private readonly revisionStore = atom(0);
+
+  /** Ticks on every modifier change — add to computed() dependencies */
+  get revision(): ReadableAtom<number> {
+    return this.revisionStore;
+  }
+
+  /**
+   * Add a modifier source. Re-registering an id replaces the previous source
+   */
+  registerSource(id: string, store: ReadableAtom<StatModifier[]>): void {
+    this.unregisterSource(id);
+    // listen() (unlike subscribe) doesn't fire immediately — one invalidate is enough
+    const unsubscribe = store.listen(() => this.invalidate());
+    this.sources.set(id, { store, unsubscribe });
+    this.invalidate();
+    logger.debug('🧮 Modifier source registered', { id, source: 'modifiers' });
+  }
+
+  unregisterSource(id: string): void {
+    const entry = this.sources.get(id);
+    if (!entry) return;
+    entry.unsubscribe();
+    this.sources.delete(id);
+    this.invalidate();
+  }
+
+  /** Final value of `stat` for the given base */
+  apply(stat: StatId, base: number): number {
+    const modifiers = this.getModifiers(stat);
+    if (modifiers.length === 0) return base;
+
+    let flat = 0;
+    let percent = 0;
+    let multiplier = 1;
+    for (const modifier of modifiers) {
+      switch (modifier.op) {
+        case 'flat': flat += modifier.value; break;
+        case 'percent': percent += modifier.value; break;
+        case 'multiply': multiplier *= modifier.value; break;
+      }
+    }
+    return sanitizeAmount((base + flat) * Math.max(0, 1 + percent) * multiplier);
+  }
+
+  getModifiers(stat: StatId): readonly StatModifier[] {
+    return this.index().get(stat) ?? [];
+  }
+
+  /** Every active modifier (debug console) */
+  all(): StatModifier[] {
+    return Array.from(this.index().values()).flat();
+  }
+
+  private index(): Map<StatId, StatModifier[]> {
+    if (this.byStat) return this.byStat;
+
+    const byStat = new Map<StatId, StatModifier[]>();
+    for (const { store } of this.sources.values()) {
+      for (const modifier of store.get()) {
+        const list = byStat.get(modifier.stat);
+        if (list) list.push(modifier);
+        else byStat.set(modifier.stat, [modifier]);
+      }
+    }
+    return (this.byStat = byStat);
+  }
+
+  private invalidate(): void {
+    this.byStat = null;
+    this.revisionStore.set(this.revisionStore.get() + 1);
+  }
+}
+
+export const modifierPipeline = ModifierPipeline.getInstance();
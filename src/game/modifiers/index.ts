@@ -0,0 +1,2 @@
+export { ModifierPipeline, modifierPipeline } from './ModifierPipeline';
+export type { ModifierOperation, StatId, StatModifier } from './types';
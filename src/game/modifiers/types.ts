@@ -0,0 +1,33 @@
+/**
+ * Stat ids queried through the modifier pipeline. Dynamic parts:
+ *   generator.<generatorId> — per-unit output of a generator
+ *   production.<resourceId> — total output of a resource
+ */
+export type StatId =
+  | 'click.value'
+  | 'offline.efficiency'
+  | 'offline.maxSeconds'
+  | 'warehouse.tier'
+  | 'refinery.slots'
+  | 'refinery.speed'
+  | 'research.speed'
+  | 'mining.dropChance'
+  | 'mining.damage'
+  | `generator.${string}`
+  | `production.${string}`;
+
+/**
+ * How a modifier combines with the base value:
+ *   flat     — added to the base
+ *   percent  — all percents are summed, then applied once: × (1 + Σ)
+ *   multiply — applied one after another: × value
+ */
+export type ModifierOperation = 'flat' | 'percent' | 'multiply';
+
+export interface StatModifier {
+  stat: StatId;
+  op: ModifierOperation;
+  value: number;
+  /** Who granted it (upgrade id, boost id…) — for debugging */
+  source: string;
+}
@@ -0,0 +1,13 @@
+import type { PrestigeConfig } from '../types';
+
+export const PRESTIGE_CONFIG: PrestigeConfig = {
+  formula: {
+    threshold: 1_000_000,
+    exponent: 0.5,
+    coefficient: 1,
+  },
+  minGain: 1,
+  bonusPerPoint: 0.02,
+  bonusStats: ['click.value', 'production.credits', 'production.ore', 'production.crystals'],
+  resetSections: ['resources', 'generators', 'upgrades', 'warehouse', 'production'],
+};
@@ -0,0 +1,11 @@
+export {
+  canPrestige,
+  getPrestigeMultiplier,
+  getProjectedGain,
+  performPrestige,
+  pointsForEarnings,
+  prestigeModifiersStore,
+  projectedGainStore,
+} from './prestige';
+export { PRESTIGE_CONFIG } from './data/prestige';
+export type { PrestigeConfig, PrestigeFormula } from './types';
@@ -0,0 +1,67 @@
+import { computed } from 'nanostores';
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { prestigeActions, prestigeStore, profileActions } from '@/stores/game';
+import { seedEconomyDefaults } from '@/game/economy';
+import { sanitizeAmount } from '@/shared/amount';
+import { BigNum, type BigNumSource } from '@/shared/bignum';
+import type { StatModifier } from '@/game/modifiers';
+import { PRESTIGE_CONFIG } from './data/prestige';
+import type { PrestigeFormula } from './types';
+
+/** Total points lifetime earnings are worth (not the gain — see getProjectedGain) */
+export function pointsForEarnings(lifetimeEarnings: BigNumSource, formula: PrestigeFormula = PRESTIGE_CONFIG.formula): number {
+  const earnings = BigNum.from(lifetimeEarnings);
+  if (!earnings.gt(0)) return 0;
+  const points = earnings.div(formula.threshold).pow(formula.exponent).mul(formula.coefficient);
+  return sanitizeAmount(Math.floor(points.toNumber()));
+}
+
+/** Points a prestige right now would add */
+export function getProjectedGain(): number {
+  const { points, lifetimeEarnings } = prestigeActions.getState();
+  return Math.max(0, pointsForEarnings(lifetimeEarnings) - points);
+}
+
+export const projectedGainStore = computed(prestigeStore, () => getProjectedGain());
+
+export function canPrestige(): boolean {
+  return getProjectedGain() >= PRESTIGE_CONFIG.minGain;
+}
+
+/** Bonus multiplier `points` give to every prestige stat, e.g. 1.2 */
+export function getPrestigeMultiplier(points: number = prestigeActions.getState().points): number {
+  return 1 + points * PRESTIGE_CONFIG.bonusPerPoint;
+}
+
+/**
+ * Permanent bonuses from owned points — registered as the 'prestige' modifier source
+ */
+export const prestigeModifiersStore = computed(prestigeStore, ({ points }) => {
+  if (points <= 0) return [];
+  return PRESTIGE_CONFIG.bonusStats.map((stat): StatModifier => ({
+    stat,
+    op: 'percent',
+    value: points * PRESTIGE_CONFIG.bonusPerPoint,
+    source: 'prestige',
+  }));
+});
+
+/**
+ * Reset the run (PRESTIGE_CONFIG.resetSections) and bank the projected points.
+ * Returns the points gained, or null if the gain is below `minGain`
+ */
+export function performPrestige(): number | null {
+  const gain = getProjectedGain();
+  if (gain < PRESTIGE_CONFIG.minGain) return null;
+
+  const { points, resets, runEarnings, lifetimeEarnings } = prestigeActions.getState();
+  profileActions.resetSections(PRESTIGE_CONFIG.resetSections);
+  prestigeActions.setState({ points: points + gain, resets: resets + 1, runEarnings: BigNum.ZERO });
+  seedEconomyDefaults();
+
+  const payload = { pointsGained: gain, totalPoints: points + gain, resets: resets + 1, runEarnings, lifetimeEarnings };
+  eventBus.emit('prestige-performed', payload);
+  logger.info('🌌 Prestige performed', { ...payload, source: 'prestige' });
+  return gain;
+}
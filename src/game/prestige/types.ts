@@ -0,0 +1,25 @@
+import type { PlayerProfile } from '@/stores/game';
+import type { StatId } from '@/game/modifiers';
+
+/**
+ * Total points for lifetime earnings E: floor(coefficient · (E / threshold)^exponent).
+ * A prestige pays the difference between that total and the points already owned
+ */
+export interface PrestigeFormula {
+  /** Lifetime credits needed for the first point */
+  threshold: number;
+  /** < 1 gives diminishing returns */
+  exponent: number;
+  coefficient: number;
+}
+
+export interface PrestigeConfig {
+  formula: PrestigeFormula;
+  /** Smallest gain that allows a prestige */
+  minGain: number;
+  /** Percent bonus per owned point, applied to every stat in `bonusStats` */
+  bonusPerPoint: number;
+  bonusStats: StatId[];
+  /** Profile sections put back to defaults on prestige; everything else is meta-progress */
+  resetSections: Exclude<keyof PlayerProfile, 'version'>[];
+}
@@ -0,0 +1,36 @@
+import type { INotificationScheduler, ScheduleFn } from '@/engine/notifications';
+import { getOfflineConfig } from '@/game/economy';
+import { productionActions } from '@/stores/game';
+import { recipeDatabase } from './databases';
+import { getSlotRemainingTime } from './production';
+
+/**
+ * "Refinery done" reminder per busy slot, fired when its queue runs dry.
+ * Skipped if the queue outlasts the offline cap — it wouldn't actually finish.
+ */
+export class ProductionNotificationScheduler implements INotificationScheduler {
+  readonly id = 'production';
+
+  onAppPause(schedule: ScheduleFn): void {
+    const maxSeconds = getOfflineConfig().maxSeconds;
+
+    productionActions.getSlots().forEach((slot, index) => {
+      const lastRecipeId = slot.queue.at(-1);
+      if (!lastRecipeId) return;
+
+      const remaining = getSlotRemainingTime(slot);
+      if (remaining <= 0 || remaining > maxSeconds) return;
+
+      const recipe = recipeDatabase.get(lastRecipeId);
+      void schedule({
+        key: `production-slot-${index}`,
+        title: 'Refinery done',
+        body: slot.queue.length > 1
+          ? `Refinery ${index + 1} finished ${slot.queue.length} jobs`
+          : `${recipe?.name ?? 'Job'} is ready in refinery ${index + 1}`,
+        fireAt: new Date(Date.now() + remaining * 1000),
+        category: 'gameplay',
+      });
+    });
+  }
+}
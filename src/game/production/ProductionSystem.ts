@@ -0,0 +1,36 @@
+import { logger } from '@/engine/logging';
+import { getOfflineConfig, getSecondsSinceSave, PRODUCTION_COMMIT_INTERVAL } from '@/game/economy';
+import { ProfileSystem } from '@/game/systems/ProfileSystem';
+import { advanceProduction } from './production';
+
+/**
+ * Runs refinery queues in PRODUCTION_COMMIT_INTERVAL batches; the unfinished part is
+ * committed on stop so a closed game doesn't lose job progress.
+ */
+export class ProductionSystem extends ProfileSystem {
+  protected readonly tickInterval = PRODUCTION_COMMIT_INTERVAL;
+
+  protected onStop(): void {
+    this.flush();
+    super.onStop();
+  }
+
+  protected onTick(seconds: number): void {
+    advanceProduction(seconds);
+  }
+
+  protected onLoad(): void {
+    const secondsAway = getSecondsSinceSave();
+    if (secondsAway === null) return;
+
+    const elapsed = Math.min(secondsAway, getOfflineConfig().maxSeconds);
+    const completed = advanceProduction(elapsed, true);
+    if (completed.length > 0) {
+      logger.info('🏭 Offline production caught up', {
+        elapsedSeconds: Math.round(elapsed),
+        jobs: completed.length,
+        source: 'production',
+      });
+    }
+  }
+}
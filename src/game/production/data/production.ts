@@ -0,0 +1,5 @@
+/** Slots before Refinery Bay upgrades */
+export const BASE_PRODUCTION_SLOTS = 1;
+
+/** Jobs per slot, running one included */
+export const PRODUCTION_QUEUE_LIMIT = 5;
@@ -0,0 +1,44 @@
+import type { RecipeDefinition } from '../types';
+
+export const RECIPES: Record<string, RecipeDefinition> = {
+  'smelt-iron': {
+    id: 'smelt-iron',
+    name: 'Smelt Iron',
+    description: 'Melt raw iron ore into ingots',
+    inputs: { 'iron-ore': 5 },
+    outputs: { items: { 'iron-ingot': 1 } },
+    duration: 20,
+  },
+  'draw-copper': {
+    id: 'draw-copper',
+    name: 'Draw Copper Wire',
+    description: 'Pull copper ore into wire spools',
+    inputs: { 'copper-ore': 5 },
+    outputs: { items: { 'copper-wire': 2 } },
+    duration: 30,
+  },
+  'crush-ore': {
+    id: 'crush-ore',
+    name: 'Crush Ore',
+    description: 'Grind iron ore into bulk ore for upgrades',
+    inputs: { 'iron-ore': 10 },
+    outputs: { resources: { ore: 5 } },
+    duration: 15,
+  },
+  'grind-lens': {
+    id: 'grind-lens',
+    name: 'Grind Focus Lens',
+    description: 'Shape neon crystals around a copper coil',
+    inputs: { 'neon-crystal': 3, 'copper-wire': 2 },
+    outputs: { items: { 'focus-lens': 1 } },
+    duration: 60,
+  },
+  'distill-void': {
+    id: 'distill-void',
+    name: 'Distill Void Shard',
+    description: 'Boil a void shard down to pure crystals',
+    inputs: { 'void-shard': 1 },
+    outputs: { resources: { crystals: 3 } },
+    duration: 90,
+  },
+};
@@ -0,0 +1,21 @@
+import { ConfigDatabase } from '@/engine/database';
+import { resourceDatabase } from '@/game/economy';
+import { itemDatabase } from '@/game/warehouse';
+import { RECIPES } from './data/recipes';
+import type { RecipeDefinition } from './types';
+
+export const recipeDatabase = new ConfigDatabase<RecipeDefinition>({
+  base: RECIPES,
+  validate: (recipe, id) => {
+    const itemIds = [...Object.keys(recipe.inputs), ...Object.keys(recipe.outputs.items ?? {})];
+    for (const itemId of itemIds) {
+      if (!itemDatabase.has(itemId)) throw new Error(`[production] recipe "${id}" references unknown item "${itemId}"`);
+    }
+    for (const resourceId of Object.keys(recipe.outputs.resources ?? {})) {
+      if (!resourceDatabase.has(resourceId)) {
+        throw new Error(`[production] recipe "${id}" references unknown resource "${resourceId}"`);
+      }
+    }
+    if (recipe.duration <= 0) throw new Error(`[production] recipe "${id}" must have a positive duration`);
+  },
+});
@@ -0,0 +1,18 @@
+export { ProductionSystem } from './ProductionSystem';
+export { ProductionNotificationScheduler } from './ProductionNotificationScheduler';
+export {
+  advanceProduction,
+  cancelJob,
+  getProductionSlotCount,
+  getProductionSlots,
+  getRecipeDuration,
+  getSlotRemainingTime,
+  hasRecipeInputs,
+  isSlotWaiting,
+  productionSlotCountStore,
+  queueRecipe,
+} from './production';
+export { advanceSlots, slotRemainingTime } from './queue';
+export { recipeDatabase } from './databases';
+export { BASE_PRODUCTION_SLOTS, PRODUCTION_QUEUE_LIMIT } from './data/production';
+export type { CompletedJob, RecipeDefinition, RecipeOutputs } from './types';
@@ -0,0 +1,149 @@
+import { computed } from 'nanostores';
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { economyActions, itemTotalsStore, overflowPolicyStore, productionActions, type ProductionSlotState } from '@/stores/game';
+import { modifierPipeline } from '@/game/modifiers';
+import { canStoreAll, storeItems, takeItems } from '@/game/warehouse';
+import { recipeDatabase } from './databases';
+import { advanceSlots, slotRemainingTime } from './queue';
+import { BASE_PRODUCTION_SLOTS, PRODUCTION_QUEUE_LIMIT } from './data/production';
+import type { CompletedJob } from './types';
+
+export function getProductionSlotCount(): number {
+  return Math.max(1, Math.floor(modifierPipeline.apply('refinery.slots', BASE_PRODUCTION_SLOTS)));
+}
+
+export const productionSlotCountStore = computed(modifierPipeline.revision, () => getProductionSlotCount());
+
+/** Job length after `refinery.speed` modifiers; undefined for unknown recipes */
+export function getRecipeDuration(recipeId: string): number | undefined {
+  const recipe = recipeDatabase.get(recipeId);
+  if (!recipe) return undefined;
+  const speed = modifierPipeline.apply('refinery.speed', 1);
+  return speed > 0 ? recipe.duration / speed : recipe.duration;
+}
+
+/** Profile slots padded up to the current slot count */
+export function getProductionSlots(): ProductionSlotState[] {
+  const slots = [...productionActions.getSlots()];
+  while (slots.length < getProductionSlotCount()) {
+    slots.push({ queue: [], progress: 0 });
+  }
+  return slots;
+}
+
+/** Seconds until the slot's queue is empty */
+export function getSlotRemainingTime(slot: ProductionSlotState): number {
+  return slotRemainingTime(slot, getRecipeDuration);
+}
+
+export function hasRecipeInputs(recipeId: string): boolean {
+  const recipe = recipeDatabase.get(recipeId);
+  if (!recipe) return false;
+  const totals = itemTotalsStore.get();
+  return Object.entries(recipe.inputs).every(([itemId, count]) => (totals[itemId] ?? 0) >= count);
+}
+
+/**
+ * Pay the inputs and queue a job. Without `slot`, picks the slot that frees up soonest.
+ * Returns the slot index, or null if inputs are missing or every queue is full
+ */
+export function queueRecipe(recipeId: string, slot?: number): number | null {
+  const recipe = recipeDatabase.get(recipeId);
+  if (!recipe || !hasRecipeInputs(recipeId)) return null;
+
+  const slots = getProductionSlots();
+  const target = slot ?? pickSlot(slots);
+  if (target === null || !slots[target] || slots[target].queue.length >= PRODUCTION_QUEUE_LIMIT) return null;
+
+  for (const [itemId, count] of Object.entries(recipe.inputs)) {
+    takeItems(itemId, count);
+  }
+  slots[target] = { ...slots[target], queue: [...slots[target].queue, recipeId] };
+  productionActions.setSlots(slots);
+
+  logger.debug('🏭 Job queued', { recipeId, slot: target, source: 'production' });
+  return target;
+}
+
+/**
+ * Remove a queued job and put its inputs back into the warehouse (overflow policy applies).
+ * Under 'pause' the job stays queued while its inputs don't fit.
+ * Cancelling the running job loses its progress
+ */
+export function cancelJob(slot: number, index: number): boolean {
+  const slots = getProductionSlots();
+  const recipeId = slots[slot]?.queue[index];
+  if (recipeId === undefined) return false;
+
+  const recipe = recipeDatabase.get(recipeId);
+  if (!fitsUnderPause(recipe?.inputs)) return false;
+
+  const queue = slots[slot].queue.filter((_, i) => i !== index);
+  slots[slot] = { queue, progress: index === 0 ? 0 : slots[slot].progress };
+  productionActions.setSlots(slots);
+
+  for (const [itemId, count] of Object.entries(recipe?.inputs ?? {})) {
+    storeItems(itemId, count);
+  }
+  return true;
+}
+
+/**
+ * Advance all slots by `seconds` and deliver finished jobs. Under 'pause' a job whose
+ * outputs don't fit waits finished in its slot until there is room.
+ * `offline` marks catch-up after a load so listeners can tell it from live completions
+ */
+export function advanceProduction(seconds: number, offline = false): CompletedJob[] {
+  const current = productionActions.getSlots();
+  if (seconds <= 0 || current.every(slot => slot.queue.length === 0)) return [];
+
+  const { slots, completed } = advanceSlots(current, seconds, getRecipeDuration, job => deliverJob(job.recipeId));
+  productionActions.setSlots(slots);
+
+  for (const job of completed) {
+    eventBus.emit('production-job-completed', { ...job, offline });
+  }
+  return completed;
+}
+
+/** Whether a finished job is waiting for warehouse room for its outputs */
+export function isSlotWaiting(slot: ProductionSlotState): boolean {
+  const recipeId = slot.queue[0];
+  const duration = recipeId === undefined ? undefined : getRecipeDuration(recipeId);
+  return duration !== undefined && slot.progress >= duration;
+}
+
+/** False (nothing delivered) while the outputs don't fit under 'pause' */
+function deliverJob(recipeId: string): boolean {
+  const recipe = recipeDatabase.get(recipeId);
+  if (!recipe) return true;
+  if (!fitsUnderPause(recipe.outputs.items)) return false;
+
+  for (const [itemId, count] of Object.entries(recipe.outputs.items ?? {})) {
+    storeItems(itemId, count);
+  }
+  if (recipe.outputs.resources) {
+    economyActions.add(recipe.outputs.resources);
+  }
+  return true;
+}
+
+/** 'pause' refuses overflow instead of destroying it, so crafted goods must fit whole */
+function fitsUnderPause(items: Readonly<Record<string, number>> | undefined): boolean {
+  return overflowPolicyStore.get() !== 'pause' || canStoreAll(items ?? {});
+}
+
+function pickSlot(slots: ProductionSlotState[]): number | null {
+  let best: number | null = null;
+  let bestTime = Infinity;
+  slots.forEach((slot, index) => {
+    if (slot.queue.length >= PRODUCTION_QUEUE_LIMIT) return;
+    const time = getSlotRemainingTime(slot);
+    if (time < bestTime) {
+      best = index;
+      bestTime = time;
+    }
+  });
+  return best;
+}
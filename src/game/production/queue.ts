@@ -0,0 +1,67 @@
+import type { ProductionSlotState } from '@/stores/game';
+import type { CompletedJob } from './types';
+
+export interface AdvanceResult {
+  slots: ProductionSlotState[];
+  completed: CompletedJob[];
+}
+
+/**
+ * Run every slot's queue forward by `seconds`, finishing as many jobs as fit.
+ * `getDuration` returns the effective job length; unknown recipes (undefined) are dropped.
+ * `deliver` hands a finished job over; when it refuses, the job waits finished at the
+ * head of its queue and is offered again on the next advance. Input is not mutated
+ */
+export function advanceSlots(
+  slots: readonly ProductionSlotState[],
+  seconds: number,
+  getDuration: (recipeId: string) => number | undefined,
+  deliver: (job: CompletedJob) => boolean = () => true
+): AdvanceResult {
+  const completed: CompletedJob[] = [];
+
+  const next = slots.map((slot, index) => {
+    const queue = [...slot.queue];
+    let progress = slot.progress;
+    let budget = seconds;
+
+    while (queue.length > 0 && budget > 0) {
+      const duration = getDuration(queue[0]);
+      if (duration === undefined) {
+        queue.shift();
+        progress = 0;
+        continue;
+      }
+
+      const remaining = Math.max(0, duration - progress);
+      if (budget < remaining) {
+        progress += budget;
+        break;
+      }
+      budget -= remaining;
+      const job = { slot: index, recipeId: queue[0] };
+      if (!deliver(job)) {
+        progress = duration;
+        break;
+      }
+      queue.shift();
+      completed.push(job);
+      progress = 0;
+    }
+
+    return { queue, progress: queue.length > 0 ? progress : 0 };
+  });
+
+  return { slots: next, completed };
+}
+
+/** Seconds until every job in the slot is done */
+export function slotRemainingTime(
+  slot: ProductionSlotState,
+  getDuration: (recipeId: string) => number | undefined
+): number {
+  return slot.queue.reduce(
+    (total, recipeId, index) => total + Math.max(0, (getDuration(recipeId) ?? 0) - (index === 0 ? slot.progress : 0)),
+    0
+  );
+}
@@ -0,0 +1,23 @@
+import type { ResourceAmounts } from '@/stores/game';
+
+export interface RecipeOutputs {
+  /** Items delivered to the warehouse (subject to its overflow policy) */
+  items?: Record<string, number>;
+  resources?: ResourceAmounts;
+}
+
+export interface RecipeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Warehouse items consumed when the job is queued */
+  inputs: Record<string, number>;
+  outputs: RecipeOutputs;
+  /** Seconds per job at base refinery speed */
+  duration: number;
+}
+
+export interface CompletedJob {
+  slot: number;
+  recipeId: string;
+}
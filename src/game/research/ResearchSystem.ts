@@ -0,0 +1,26 @@
+import { getOfflineConfig, getSecondsSinceSave, PRODUCTION_COMMIT_INTERVAL } from '@/game/economy';
+import { ProfileSystem } from '@/game/systems/ProfileSystem';
+import { advanceResearch } from './research';
+
+/**
+ * Advances the one active research node, in the same batches as production. A node
+ * finished during load catch-up emits `research-completed` with `offline: true`.
+ */
+export class ResearchSystem extends ProfileSystem {
+  protected readonly tickInterval = PRODUCTION_COMMIT_INTERVAL;
+
+  protected onStop(): void {
+    this.flush();
+    super.onStop();
+  }
+
+  protected onTick(seconds: number): void {
+    advanceResearch(seconds);
+  }
+
+  protected onLoad(): void {
+    const secondsAway = getSecondsSinceSave();
+    if (secondsAway === null) return;
+    advanceResearch(Math.min(secondsAway, getOfflineConfig().maxSeconds), true);
+  }
+}
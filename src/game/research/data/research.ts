@@ -0,0 +1,71 @@
+import type { ResearchNodeDefinition } from '../types';
+
+export const RESEARCH_NODES: Record<string, ResearchNodeDefinition> = {
+  'drill-calibration': {
+    id: 'drill-calibration',
+    name: 'Drill Calibration',
+    description: '+50% asteroid click payout',
+    prerequisites: [],
+    cost: { credits: 300 },
+    duration: 30,
+    effects: [{ stat: 'click.value', op: 'percent', value: 0.5 }],
+  },
+  'basic-metallurgy': {
+    id: 'basic-metallurgy',
+    name: 'Basic Metallurgy',
+    description: '+10% refinery speed',
+    prerequisites: [],
+    cost: { credits: 500 },
+    duration: 60,
+    effects: [{ stat: 'refinery.speed', op: 'percent', value: 0.1 }],
+  },
+  'deep-scanners': {
+    id: 'deep-scanners',
+    name: 'Deep Scanners',
+    description: '+10% item drop chance when mining',
+    prerequisites: ['drill-calibration'],
+    cost: { credits: 1_500, ore: 20 },
+    duration: 90,
+    effects: [{ stat: 'mining.dropChance', op: 'flat', value: 0.1 }],
+  },
+  'swarm-logic': {
+    id: 'swarm-logic',
+    name: 'Swarm Logic',
+    description: 'Mining Drones produce x1.5',
+    prerequisites: ['drill-calibration'],
+    cost: { credits: 2_000 },
+    duration: 120,
+    effects: [{ stat: 'generator.mining-drone', op: 'multiply', value: 1.5 }],
+  },
+  'trade-protocols': {
+    id: 'trade-protocols',
+    name: 'Trade Protocols',
+    description: 'Unlocks the market',
+    prerequisites: ['basic-metallurgy'],
+    cost: { credits: 3_000 },
+    duration: 180,
+    effects: [],
+    unlocks: ['market'],
+  },
+  'cryo-storage': {
+    id: 'cryo-storage',
+    name: 'Cryo Storage',
+    description: '+1 warehouse tier',
+    prerequisites: ['basic-metallurgy', 'deep-scanners'],
+    cost: { credits: 5_000, ore: 100 },
+    duration: 240,
+    effects: [{ stat: 'warehouse.tier', op: 'flat', value: 1 }],
+  },
+  'quantum-sleep': {
+    id: 'quantum-sleep',
+    name: 'Quantum Sleep',
+    description: '+10% offline efficiency, +20% research speed',
+    prerequisites: ['swarm-logic', 'trade-protocols'],
+    cost: { crystals: 10 },
+    duration: 600,
+    effects: [
+      { stat: 'offline.efficiency', op: 'flat', value: 0.1 },
+      { stat: 'research.speed', op: 'percent', value: 0.2 },
+    ],
+  },
+};
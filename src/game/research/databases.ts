@@ -0,0 +1,60 @@
+import { ConfigDatabase } from '@/engine/database';
+import { resourceDatabase } from '@/game/economy';
+import { RESEARCH_NODES } from './data/research';
+import type { ResearchNodeDefinition } from './types';
+
+export const researchDatabase = new ConfigDatabase<ResearchNodeDefinition>({
+  base: RESEARCH_NODES,
+  validate: (node, id) => {
+    for (const prerequisite of node.prerequisites) {
+      if (prerequisite === id) throw new Error(`[research] node "${id}" requires itself`);
+      if (!(prerequisite in RESEARCH_NODES)) {
+        throw new Error(`[research] node "${id}" requires unknown node "${prerequisite}"`);
+      }
+    }
+    for (const resourceId of Object.keys(node.cost)) {
+      if (!resourceDatabase.has(resourceId)) {
+        throw new Error(`[research] node "${id}" costs unknown resource "${resourceId}"`);
+      }
+    }
+    if (node.duration <= 0) throw new Error(`[research] node "${id}" must have a positive duration`);
+    if (node.effects.length === 0 && !node.unlocks?.length) {
+      throw new Error(`[research] node "${id}" has no effects or unlocks`);
+    }
+  },
+});
+
+/**
+ * Node ids ordered so every node comes after its prerequisites (Kahn's algorithm).
+ * Throws if the prerequisites form a cycle
+ */
+function topologicalOrder(): string[] {
+  const pending = new Map(researchDatabase.all().map(node => [node.id, node.prerequisites.length]));
+  const dependents = new Map<string, string[]>();
+  for (const node of researchDatabase.all()) {
+    for (const prerequisite of node.prerequisites) {
+      dependents.set(prerequisite, [...(dependents.get(prerequisite) ?? []), node.id]);
+    }
+  }
+
+  const order: string[] = [];
+  const ready = [...pending].filter(([, count]) => count === 0).map(([id]) => id);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const dependent of dependents.get(id) ?? []) {
+      const count = pending.get(dependent)! - 1;
+      pending.set(dependent, count);
+      if (count === 0) ready.push(dependent);
+    }
+  }
+
+  if (order.length < pending.size) {
+    const stuck = [...pending].filter(([id]) => !order.includes(id)).map(([id]) => id);
+    throw new Error(`[research] prerequisite cycle between: ${stuck.join(', ')}`);
+  }
+  return order;
+}
+
+/** Validated once at load — the rest of the module relies on the tree being a DAG */
+export const researchOrder: readonly string[] = topologicalOrder();
@@ -0,0 +1,15 @@
+export { ResearchSystem } from './ResearchSystem';
+export {
+  advanceResearch,
+  cancelResearch,
+  getResearchDuration,
+  getResearchRemainingTime,
+  getResearchStatus,
+  isFeatureUnlocked,
+  researchLayout,
+  researchModifiersStore,
+  startResearch,
+  unlockedFeaturesStore,
+} from './research';
+export { researchDatabase, researchOrder } from './databases';
+export type { FeatureId, ResearchLayout, ResearchNodeDefinition, ResearchNodeStatus } from './types';
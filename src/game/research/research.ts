@@ -0,0 +1,127 @@
+import { computed } from 'nanostores';
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { completedResearchStore, economyActions, researchActions } from '@/stores/game';
+import { modifierPipeline, type StatModifier } from '@/game/modifiers';
+import { researchDatabase, researchOrder } from './databases';
+import type { FeatureId, ResearchLayout, ResearchNodeStatus } from './types';
+
+/** Research length after `research.speed` modifiers; undefined for unknown nodes */
+export function getResearchDuration(nodeId: string): number | undefined {
+  const node = researchDatabase.get(nodeId);
+  if (!node) return undefined;
+  const speed = modifierPipeline.apply('research.speed', 1);
+  return speed > 0 ? node.duration / speed : node.duration;
+}
+
+export function getResearchStatus(nodeId: string, completed: ReadonlySet<string> = completedResearchStore.get()): ResearchNodeStatus {
+  if (completed.has(nodeId)) return 'done';
+  if (researchActions.getState().active?.nodeId === nodeId) return 'inProgress';
+  const node = researchDatabase.get(nodeId);
+  return node?.prerequisites.every(id => completed.has(id)) ? 'available' : 'locked';
+}
+
+/** Seconds left on the active node, 0 when idle */
+export function getResearchRemainingTime(): number {
+  const active = researchActions.getState().active;
+  if (!active) return 0;
+  return Math.max(0, (getResearchDuration(active.nodeId) ?? 0) - active.progress);
+}
+
+/**
+ * Grid position per node for the tree view. Column is the longest prerequisite chain,
+ * row is the order within the column
+ */
+export const researchLayout: Readonly<Record<string, ResearchLayout>> = (() => {
+  const layout: Record<string, ResearchLayout> = {};
+  const rows: number[] = [];
+  for (const id of researchOrder) {
+    const node = researchDatabase.get(id)!;
+    const column = node.prerequisites.reduce((max, prerequisite) => Math.max(max, layout[prerequisite].column + 1), 0);
+    rows[column] = (rows[column] ?? -1) + 1;
+    layout[id] = { column, row: rows[column] };
+  }
+  return layout;
+})();
+
+/**
+ * Pay the cost and make `nodeId` the active research. Only one node runs at a time.
+ * Returns false if the node is not available, something is already running or the cost can't be paid
+ */
+export function startResearch(nodeId: string): boolean {
+  const node = researchDatabase.get(nodeId);
+  if (!node || researchActions.getState().active || getResearchStatus(nodeId) !== 'available') return false;
+  if (!economyActions.spend(node.cost)) return false;
+
+  researchActions.setActive({ nodeId, progress: 0 });
+  eventBus.emit('research-started', { nodeId });
+  logger.debug('🔬 Research started', { nodeId, source: 'research' });
+  return true;
+}
+
+/** Stop the active research and refund its cost in full. Progress is lost */
+export function cancelResearch(): boolean {
+  const active = researchActions.getState().active;
+  if (!active) return false;
+
+  researchActions.setActive(null);
+  const node = researchDatabase.get(active.nodeId);
+  if (node) economyActions.add(node.cost, { earned: false });
+  logger.debug('🔬 Research cancelled', { nodeId: active.nodeId, source: 'research' });
+  return true;
+}
+
+/**
+ * Advance the active research by `seconds`. Returns the id of the node that finished, if any.
+ * `offline` marks catch-up after a load so listeners can tell it from live completions
+ */
+export function advanceResearch(seconds: number, offline = false): string | null {
+  const active = researchActions.getState().active;
+  if (!active || seconds <= 0) return null;
+
+  const duration = getResearchDuration(active.nodeId);
+  if (duration === undefined) {
+    // Node removed from the data since the save — drop it rather than stall forever
+    logger.warn('⚠️ Active research references unknown node', { nodeId: active.nodeId, source: 'research' });
+    researchActions.setActive(null);
+    return null;
+  }
+
+  const progress = active.progress + seconds;
+  if (progress < duration) {
+    researchActions.setActive({ nodeId: active.nodeId, progress });
+    return null;
+  }
+
+  researchActions.complete(active.nodeId);
+  eventBus.emit('research-completed', { nodeId: active.nodeId, offline });
+  logger.info('🔬 Research completed', { nodeId: active.nodeId, offline, source: 'research' });
+  return active.nodeId;
+}
+
+/**
+ * Modifiers granted by completed nodes — registered as the 'research' modifier source
+ */
+export const researchModifiersStore = computed(completedResearchStore, completed => {
+  const modifiers: StatModifier[] = [];
+  for (const nodeId of completed) {
+    const node = researchDatabase.get(nodeId);
+    if (!node) continue;
+    for (const effect of node.effects) {
+      modifiers.push({ ...effect, source: nodeId });
+    }
+  }
+  return modifiers;
+});
+
+export const unlockedFeaturesStore = computed(completedResearchStore, completed => {
+  const features = new Set<FeatureId>();
+  for (const nodeId of completed) {
+    researchDatabase.get(nodeId)?.unlocks?.forEach(feature => features.add(feature));
+  }
+  return features;
+});
+
+export function isFeatureUnlocked(feature: FeatureId): boolean {
+  return unlockedFeaturesStore.get().has(feature);
+}
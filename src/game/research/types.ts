@@ -0,0 +1,28 @@
+import type { ResourceAmounts } from '@/stores/game';
+import type { StatModifier } from '@/game/modifiers';
+
+/** Features a node can switch on (bottom bar modes and the like) */
+export type FeatureId = 'market';
+
+export interface ResearchNodeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** All must be completed before the node can start */
+  prerequisites: string[];
+  /** Paid when research starts, refunded on cancel */
+  cost: ResourceAmounts;
+  /** Seconds at base research speed */
+  duration: number;
+  /** Permanent modifiers once completed */
+  effects: Array<Omit<StatModifier, 'source'>>;
+  unlocks?: FeatureId[];
+}
+
+export type ResearchNodeStatus = 'locked' | 'available' | 'inProgress' | 'done';
+
+/** Column/row of a node in the tree view: column = longest prerequisite chain */
+export interface ResearchLayout {
+  column: number;
+  row: number;
+}
@@ -0,0 +1,39 @@
+import type { RewardDefinition } from '../types';
+
+export const REWARDS: Record<string, RewardDefinition> = {
+  'credit-cache': {
+    id: 'credit-cache',
+    name: 'Credit Cache',
+    resources: { credits: 250 },
+    productionSeconds: 600,
+  },
+  'ore-crate': {
+    id: 'ore-crate',
+    name: 'Ore Crate',
+    resources: { ore: 50 },
+    items: { 'iron-ore': 10, 'copper-ore': 10 },
+  },
+  'crystal-pouch': {
+    id: 'crystal-pouch',
+    name: 'Crystal Pouch',
+    resources: { crystals: 5 },
+    items: { 'neon-crystal': 3 },
+  },
+  'relic-drop': {
+    id: 'relic-drop',
+    name: 'Relic Drop',
+    productionSeconds: 1_800,
+    items: { 'ancient-relic': 1 },
+  },
+  'frenzy-charge': {
+    id: 'frenzy-charge',
+    name: 'Frenzy Charge',
+    boost: 'mining-frenzy',
+  },
+  'overclock-chip': {
+    id: 'overclock-chip',
+    name: 'Overclock Chip',
+    resources: { crystals: 5 },
+    boost: 'overclock',
+  },
+};
@@ -0,0 +1,22 @@
+import { ConfigDatabase } from '@/engine/database';
+import { resourceDatabase } from '@/game/economy';
+import { itemDatabase } from '@/game/warehouse';
+import { boostDatabase } from '@/game/boosts';
+import { REWARDS } from './data/rewards';
+import type { RewardDefinition } from './types';
+
+export const rewardDatabase = new ConfigDatabase<RewardDefinition>({
+  base: REWARDS,
+  validate: (reward, id) => {
+    for (const resourceId of Object.keys(reward.resources ?? {})) {
+      if (!resourceDatabase.has(resourceId)) throw new Error(`[rewards] "${id}" grants unknown resource "${resourceId}"`);
+    }
+    for (const itemId of Object.keys(reward.items ?? {})) {
+      if (!itemDatabase.has(itemId)) throw new Error(`[rewards] "${id}" grants unknown item "${itemId}"`);
+    }
+    if (reward.boost && !boostDatabase.has(reward.boost)) throw new Error(`[rewards] "${id}" grants unknown boost "${reward.boost}"`);
+    if (!reward.resources && !reward.items && !reward.productionSeconds && !reward.boost) {
+      throw new Error(`[rewards] "${id}" grants nothing`);
+    }
+  },
+});
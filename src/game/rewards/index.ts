@@ -0,0 +1,3 @@
+export { getRewardResources, grantReward } from './rewards';
+export { rewardDatabase } from './databases';
+export type { RewardDefinition } from './types';
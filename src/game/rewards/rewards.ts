@@ -0,0 +1,50 @@
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { mulAmount } from '@/shared/amount';
+import { economyActions, type ResourceAmounts } from '@/stores/game';
+import type { RewardType } from '@/stores/game/monetization';
+import { productionRatesStore } from '@/game/economy';
+import { storeItems } from '@/game/warehouse';
+import { grantBoost } from '@/game/boosts';
+import { rewardDatabase } from './databases';
+
+/** Resources the reward is worth right now (fixed amounts plus production seconds) */
+export function getRewardResources(rewardType: RewardType, multiplier = 1): ResourceAmounts {
+  const reward = rewardDatabase.get(rewardType);
+  if (!reward) return {};
+
+  const amounts: ResourceAmounts = { ...reward.resources };
+  if (reward.productionSeconds) {
+    for (const [resourceId, rate] of Object.entries(productionRatesStore.get())) {
+      amounts[resourceId] = (amounts[resourceId] ?? 0) + mulAmount(rate, reward.productionSeconds);
+    }
+  }
+  for (const resourceId of Object.keys(amounts)) {
+    amounts[resourceId] = mulAmount(amounts[resourceId], multiplier);
+  }
+  return amounts;
+}
+
+/**
+ * Pay out a reward. `source` tags analytics (e.g. 'mission:daily-clicks', 'streak', 'ad').
+ * Items go through the warehouse, so its overflow policy applies. Returns false for unknown types
+ */
+export function grantReward(rewardType: RewardType, source: string, multiplier = 1): boolean {
+  const reward = rewardDatabase.get(rewardType);
+  if (!reward) {
+    logger.warn('⚠️ Unknown reward type', { rewardType, source: 'rewards' });
+    return false;
+  }
+
+  economyActions.add(getRewardResources(rewardType, multiplier));
+  for (const [itemId, count] of Object.entries(reward.items ?? {})) {
+    storeItems(itemId, count * multiplier);
+  }
+  if (reward.boost) {
+    grantBoost(reward.boost, source, multiplier);
+  }
+
+  eventBus.emit('reward-granted', { rewardType, source });
+  logger.debug('🎁 Reward granted', { rewardType, from: source, multiplier, source: 'rewards' });
+  return true;
+}
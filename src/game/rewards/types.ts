@@ -0,0 +1,17 @@
+import type { ResourceAmounts } from '@/stores/game';
+import type { RewardType } from '@/stores/game/monetization';
+
+/**
+ * What a RewardType pays out. The same ids go to `MonetizationService.offerReward`,
+ * so a rewarded ad, a mission and a login streak can all grant the same reward
+ */
+export interface RewardDefinition {
+  id: RewardType;
+  name: string;
+  resources?: ResourceAmounts;
+  /** Seconds of current production, so the reward scales with progress */
+  productionSeconds?: number;
+  items?: Record<string, number>;
+  /** Timed boost started on grant (see game/boosts); the reward multiplier stretches its duration */
+  boost?: string;
+}
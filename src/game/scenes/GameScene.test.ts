@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import * as PIXI from 'pixi.js';
+import { Component } from '@/engine/Component';
+import { GameObject } from '@/engine/GameObject';
+import { VelocityComponent } from '@/engine/components';
+import type { EffectSystem } from '@/engine/effects/EffectSystem';
+import { AsteroidComponent } from '../components/AsteroidComponent';
+import { AsteroidSpawnSystem } from '../systems/AsteroidSpawnSystem';
+import { GameScene } from './GameScene';
+
+/** Not registered — stands in for scene-authored objects like the demo props */
+class SceneAuthoredComponent extends Component {}
+
+function createScene(): { scene: GameScene; spawner: AsteroidSpawnSystem } {
+  const scene = new GameScene();
+  const spawner = scene.addSystem(new AsteroidSpawnSystem(scene, new PIXI.Container(), {} as EffectSystem));
+  // Scene-authored parent with a child whose components are all registered
+  const prop = new GameObject().setName('Prop').add(new SceneAuthoredComponent());
+  prop.addChild(new GameObject().setName('Prop child').add(new VelocityComponent()));
+  scene.add(prop);
+  return { scene, spawner };
+}
+
+function asteroidStates(scene: GameScene) {
+  return scene.gameObjects
+    .filter(go => go.scene && go.active && go.has(AsteroidComponent))
+    .map(go => ({
+      type: go.require(AsteroidComponent).asteroidType,
+      hp: go.require(AsteroidComponent).hp,
+      x: go.x,
+      y: go.y,
+      rotation: go.rotation,
+      vx: go.require(VelocityComponent).vx,
+    }))
+    .sort((a, b) => a.x - b.x);
+}
+
+describe('GameScene snapshot', () => {
+  it('round-trips drifting asteroids through AsteroidSpawnSystem', () => {
+    const { scene: source, spawner } = createScene();
+    for (let i = 0; i < 600; i++) source.fixedUpdate(1 / 60);
+    expect(spawner.activeAsteroids).toBeGreaterThan(0);
+
+    const first = source.gameObjects.find(go => go.active && go.has(AsteroidComponent))!;
+    first.require(AsteroidComponent).damage(5);
+
+    const snapshot = JSON.parse(JSON.stringify(source.snapshot()));
+    const { scene: target, spawner: restored } = createScene();
+    expect(target.restore(snapshot)).toBe(true);
+
+    expect(restored.activeAsteroids).toBe(spawner.activeAsteroids);
+    expect(asteroidStates(target)).toEqual(asteroidStates(source));
+  });
+
+  it('leaves children of scene-authored objects to the scene', () => {
+    const { scene: source } = createScene();
+    const snapshot = source.snapshot();
+    expect(snapshot.objects.map(object => object.name)).not.toContain('Prop child');
+
+    const { scene: target } = createScene();
+    target.restore(snapshot);
+    expect(target.gameObjects.filter(go => go.name === 'Prop child')).toHaveLength(1);
+  });
+});
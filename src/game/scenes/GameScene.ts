@@ -10,19 +10,24 @@ import * as PIXI from 'pixi.js';
 import { computeLayout, readSafeInsets } from '@/engine/render/LayoutEngine';
 import { RENDER_CONFIG } from '@/engine/render/RenderConfig';
 import { LayerManager } from '@/engine/render/LayerManager';
-import { PixiSpriteRenderer } from '@/engine/components';
+import { PixiSpriteRenderer, PolygonColliderComponent } from '@/engine/components';
+import { CollisionLayers } from '@/engine/physics';
 
 // Events & Coordinates
 import { eventBus } from '@/engine/events/EventBus';
+import { persistenceService } from '@/stores/game/persistence';
 import { CoordinateService } from '@/engine/coordinates';
 
 // Audio & Effects
 import { AudioManager } from '@/engine/audio/AudioManager';
+import type { AssetManager } from '@/engine/assets/AssetManager';
 import { EffectSystem } from '@/engine/effects/EffectSystem';
+import { PhysicsSystem, PointerSystem } from '@/engine/systems';
 
 
 // Game systems
 import { SpaceBackgroundSystem } from '../systems/SpaceBackgroundSystem';
+import { AsteroidSpawnSystem } from '../systems/AsteroidSpawnSystem';
 
 // Game components
 import { SVGSpriteComponent } from '../components';
@@ -37,9 +42,10 @@ import { NeonGlowScanlineFilter } from '../graphics/filters/NeonGlowScanlineFilt
 // Assets
 import { SVG_PATHS } from '@/assets/svg';
 
-type Deps = { stage: PIXI.Container; game: Game; audio: AudioManager };
+type Deps = { stage: PIXI.Container; game: Game; audio: AudioManager; assets: AssetManager };
 
 export class GameScene extends Scene {
+  readonly saveKey = 'game';
   private bgC?: PIXI.Container;
   private gameC?: PIXI.Container;
   private fx?: EffectSystem;
@@ -54,8 +60,14 @@ export class GameScene extends Scene {
 
   // важно: не .bind() на (un)subscribe
   private readonly onResize = () => this.relayout();
+  private readonly worldProvider = () => this.snapshot();
   /** ————— Lifecycle ————— */
 
+  async preload(onProgress: (progress: number) => void) {
+    const { assets } = this.requireManagers();
+    await assets.loader.loadTextureGroup(SVG_PATHS, (key) => `svg-${key}`, onProgress);
+  }
+
   async onEnter() {
     logger.info('🎬 GameScene entered');
     const { stage, game, audio } = this.requireManagers();
@@ -65,27 +77,38 @@ export class GameScene extends Scene {
         .initLayerManager()
         .initEffects(game)
         .initSpaceBackgroundSystem()
+        .initPhysics()
+        .initAsteroids()
         .hookResize()
         .relayout();
 
     // play music
     audio.playMusic('main_theme');
     this.initDemoObjects();
+    await this.restoreWorld();
   }
 
   onExit() {
     logger.info('🎬 GameScene exited');
+    persistenceService.releaseWorldProvider(this.worldProvider);
     this.unsubscribeFromEvents.forEach(unsub => unsub());
     this.unsubscribeFromEvents = [];
     eventBus.off('window-resize', this.onResize);
 
     this.destroyAllSystems();
     
-    // контейнеры отпустим; Pixi сцена их зачистит по своему жизненному циклу
+    // Снимаем контейнеры со stage; спрайты GameObject'ов уберут свои рендереры
+    this.bgC?.removeFromParent();
+    this.gameC?.removeFromParent();
     this.bgC = undefined;
     this.gameC = undefined;
   }
 
+  protected onVisibilityChanged(visible: boolean) {
+    if (this.bgC) this.bgC.visible = visible;
+    if (this.gameC) this.gameC.visible = visible;
+  }
+
   // Systems are updated automatically by Scene.update() via addSystem()
 
   /** ————— Layout ————— */
@@ -103,6 +126,8 @@ export class GameScene extends Scene {
     this.bgC.x = layout.bg.x; this.bgC.y = layout.bg.y;
     this.bgC.hitArea = new PIXI.Rectangle(0, 0, layout.bg.w, layout.bg.h);
     this.getSystem(SpaceBackgroundSystem)?.resize(layout.bg.w, layout.bg.h);
+    // fragments bounce off the visible game area
+    this.getSystem(PhysicsSystem)?.setBounds(CoordinateService.getInstance().getGameBounds());
 
     // game
     this.gameC.x = layout.game.x; this.gameC.y = layout.game.y;
@@ -150,6 +175,26 @@ export class GameScene extends Scene {
     return this;
   }
 
+  private initPhysics() {
+    // Gravity pulls asteroid fragments down; asteroids themselves drift freely
+    this.addSystem(new PhysicsSystem(this, undefined, { x: 0, y: 300 }));
+    // Clicks and mining go to the topmost object under the pointer only
+    this.addSystem(new PointerSystem(this));
+    return this;
+  }
+
+  private initAsteroids() {
+    if (!this.gameC || !this.fx) {
+      logger.warn('⚠️ AsteroidSpawnSystem не запущена (нет контейнера или EffectSystem)');
+      return this;
+    }
+
+    this.addSystem(new AsteroidSpawnSystem(this, this.gameC, this.fx));
+
+    logger.info('✅ AsteroidSpawnSystem инициализирована');
+    return this;
+  }
+
 
   private async initDemoObjects() {
     this.gameAssetService = ServiceRegistry.get<GameAssetService>('gameAssetService');
@@ -198,6 +243,8 @@ export class GameScene extends Scene {
            }
          )],
        }))
+       // Clicks pick by the logo's opaque outline; it only takes part in queries
+       .add(new PolygonColliderComponent({ fromSprite: true, collideWithBounds: false, mask: CollisionLayers.NONE }))
        .add(new ClickComponent(100, this.fx))
        .add(new RotationComponent(0.5));
 
@@ -217,6 +264,7 @@ export class GameScene extends Scene {
           svgPath: SVG_PATHS.sprite,
           size: 256,
         }))
+        .add(new PolygonColliderComponent({ fromSprite: true, collideWithBounds: false, mask: CollisionLayers.NONE }))
         .add(new ClickComponent(100, this.fx))
         .add(new RotationComponent(-0.5))
     );
@@ -225,6 +273,13 @@ export class GameScene extends Scene {
   }
 
 
+  /** Сохранённый мир поверх свежей сцены; дальше сохраняется вместе с профилем */
+  private async restoreWorld() {
+    const snapshot = await persistenceService.loadWorld();
+    if (snapshot) this.restore(snapshot);
+    persistenceService.setWorldProvider(this.worldProvider);
+  }
+
   private hookResize() {
     eventBus.on('window-resize', this.onResize);
     return this;
@@ -239,7 +294,7 @@ export class GameScene extends Scene {
       logger.error('❌ Менеджеры не переданы в сцену!', err);
       throw err; // короче, чем везде if (!this.managers) return;
     }
-    const { stage, game, audio } = this.managers as Deps;
-    return { stage, game, audio };
+    const { stage, game, audio, assets } = this.managers as Deps;
+    return { stage, game, audio, assets };
   }
 }
\ No newline at end of file
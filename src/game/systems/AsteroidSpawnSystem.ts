@@ -0,0 +1,448 @@
+import * as PIXI from 'pixi.js';
+import { System } from '@/engine/systems/System';
+import type { Scene } from '@/engine/scene/Scene';
+import { GameObject } from '@/engine/GameObject';
+import type { EffectSystem } from '@/engine/effects/EffectSystem';
+import { CircleColliderComponent, PixiSpriteRenderer, PolygonColliderComponent, VelocityComponent } from '@/engine/components';
+import { CoordinateService } from '@/engine/coordinates';
+import { PrefabPool } from '@/engine/prefabs';
+import { CollisionLayers } from '@/engine/physics';
+import { ServiceRegistry } from '@/engine/registry';
+import { eventBus } from '@/engine/events/EventBus';
+import { rng, SeededRandom } from '@/engine/random';
+import { logger } from '@/engine/logging';
+import type { TextureFactory } from '@/game/graphics/TextureFactory';
+import { FractureBaker, type FracturePattern } from '@/game/graphics/FractureBaker';
+import type { Vector2 } from '@/shared/types';
+import {
+  ASTEROID_SPAWN_CONFIG,
+  asteroidDatabase,
+  pickAsteroidType,
+  type AsteroidTypeDefinition,
+} from '@/game/asteroids';
+import { AsteroidComponent } from '../components/AsteroidComponent';
+import { MiningComponent } from '../components/MiningComponent';
+import { FragmentComponent } from '../components/FragmentComponent';
+
+/** Outline points of a baked rock texture */
+const ROCK_VERTICES = 9;
+/** Outward speed range of fragments, px/sec */
+const FRAGMENT_SPEED: [number, number] = [120, 260];
+/** Extra spin a shard gets on top of the parent's, rad/sec */
+const SHARD_SPIN = 2;
+
+/** Baked rock and its outline in texture px, the input for fracturing */
+interface RockShape {
+  texture: PIXI.Texture;
+  outline: Vector2[];
+  /** Texture width and height; the rock is centred in it */
+  size: number;
+  seed: number;
+}
+
+/** Saved state of one drifting asteroid */
+interface SavedAsteroid {
+  type: string;
+  hp: number;
+  x: number;
+  y: number;
+  rotation: number;
+  vx: number;
+  vy: number;
+  angular: number;
+}
+
+interface SavedAsteroidField {
+  spawnTimer: number;
+  asteroids: SavedAsteroid[];
+}
+
+/**
+ * Spawns asteroids from the screen edges, recycles the ones that drift off,
+ * and breaks mined-out asteroids into physics fragments. Asteroids and fragments
+ * live in PrefabPools; the breaking hit has already paid the loot out (`AsteroidComponent.collectLoot`).
+ * Fragments are Voronoi shards of the rock texture (`FractureBaker`), falling back
+ * to round debris until their textures are baked.
+ *
+ * Asteroids are pooled and built here rather than from the component registry, so the
+ * system saves them itself (`saveKey`); fragments live a few seconds and aren't saved.
+ */
+export class AsteroidSpawnSystem extends System {
+  readonly saveKey = 'asteroids';
+  private readonly container: PIXI.Container;
+  private readonly effectSystem: EffectSystem;
+  private readonly asteroidPool: PrefabPool;
+  private readonly fragmentPool: PrefabPool;
+  private readonly asteroids = new Set<GameObject>();
+  private readonly fragments = new Set<GameObject>();
+  private readonly textures = new Map<string, PIXI.Texture>();
+  private readonly rocks = new Map<string, RockShape>();
+  private readonly baker: FractureBaker | null = null;
+  private spawnTimer = 0;
+
+  constructor(scene: Scene, container: PIXI.Container, effectSystem: EffectSystem) {
+    super(scene);
+    this.container = container;
+    this.effectSystem = effectSystem;
+
+    this.asteroidPool = new PrefabPool(() => this.createAsteroid(), undefined, ASTEROID_SPAWN_CONFIG.maxActive);
+    this.asteroidPool.setScene(scene);
+    this.fragmentPool = new PrefabPool(() => this.createFragment(), undefined, ASTEROID_SPAWN_CONFIG.fragmentPoolSize);
+    this.fragmentPool.setScene(scene);
+
+    if (ServiceRegistry.has('textureFactory')) {
+      this.baker = new FractureBaker(
+        ServiceRegistry.get<TextureFactory>('textureFactory'),
+        ASTEROID_SPAWN_CONFIG.shardBakesPerFrame,
+      );
+    }
+  }
+
+  get activeAsteroids(): number {
+    return this.asteroids.size;
+  }
+
+  protected onStart(): void {
+    // First asteroid right away
+    this.spawnTimer = 0;
+  }
+
+  protected onStop(): void {
+    for (const asteroid of this.asteroids) this.asteroidPool.release(asteroid);
+    for (const fragment of this.fragments) this.fragmentPool.release(fragment);
+    this.asteroids.clear();
+    this.fragments.clear();
+  }
+
+  protected onDestroy(): void {
+    this.asteroidPool.destroy();
+    this.fragmentPool.destroy();
+    this.baker?.destroy();
+    for (const texture of this.textures.values()) texture.destroy(true);
+    this.textures.clear();
+    this.rocks.clear();
+  }
+
+  protected onUpdate(): void {
+    this.baker?.update();
+  }
+
+  serialize(): SavedAsteroidField {
+    const asteroids: SavedAsteroid[] = [];
+    for (const go of this.asteroids) {
+      const asteroid = go.require(AsteroidComponent);
+      // Its loot is already paid; the sweep releases it on the next step
+      if (asteroid.isBroken) continue;
+      const velocity = go.require(VelocityComponent);
+      asteroids.push({
+        type: asteroid.asteroidType,
+        hp: asteroid.hp,
+        x: go.x,
+        y: go.y,
+        rotation: go.rotation,
+        vx: velocity.vx,
+        vy: velocity.vy,
+        angular: velocity.angular,
+      });
+    }
+    return { spawnTimer: this.spawnTimer, asteroids };
+  }
+
+  deserialize(data: unknown): void {
+    const saved = data as Partial<SavedAsteroidField>;
+    for (const go of this.asteroids) this.asteroidPool.release(go);
+    this.asteroids.clear();
+    this.spawnTimer = saved.spawnTimer ?? 0;
+
+    for (const entry of saved.asteroids ?? []) {
+      const type = asteroidDatabase.get(entry.type);
+      if (!type || entry.hp <= 0) continue;
+      const go = this.addAsteroid(type, entry);
+      go.require(AsteroidComponent).hp = Math.min(entry.hp, type.hp);
+    }
+  }
+
+  protected onFixedUpdate(deltaTime: number): void {
+    this.sweepAsteroids();
+    this.sweepFragments();
+
+    this.spawnTimer -= deltaTime;
+    if (this.spawnTimer <= 0) {
+      this.spawnTimer += ASTEROID_SPAWN_CONFIG.interval;
+      if (this.asteroids.size < ASTEROID_SPAWN_CONFIG.maxActive) this.spawnAsteroid();
+    }
+  }
+
+  // ─── Asteroids ─────────────────────────────────────────────
+
+  private createAsteroid(): GameObject {
+    return new GameObject()
+      .setName('Asteroid')
+      .add(new PixiSpriteRenderer(this.container, { anchor: { x: 0.5, y: 0.5 } }))
+      .add(new VelocityComponent({ linearDamping: 0, angularDamping: 0 }))
+      // Hit area only: not moved by PhysicsSystem (no collideWithBounds) and no contacts (empty mask).
+      // A circle of the type's radius — a little larger than the baked rock, so edge clicks still mine
+      .add(new CircleColliderComponent({ radius: 1, isTrigger: true, collideWithBounds: false, mask: CollisionLayers.NONE }))
+      .add(new AsteroidComponent())
+      .add(new MiningComponent(this.effectSystem));
+  }
+
+  private spawnAsteroid(): void {
+    const type = pickAsteroidType();
+    const coordinates = CoordinateService.getInstance();
+    const bounds = coordinates.getGameBounds();
+    const edge = coordinates.getRandomEdgePosition();
+
+    // Aim at the middle half of the screen so asteroids cross it instead of skimming the edge
+    const targetX = bounds.x + rng.range(0.25, 0.75) * bounds.w;
+    const targetY = bounds.y + rng.range(0.25, 0.75) * bounds.h;
+    const length = Math.hypot(targetX - edge.x, targetY - edge.y) || 1;
+    const dirX = (targetX - edge.x) / length;
+    const dirY = (targetY - edge.y) / length;
+    const speed = rng.range(type.speed[0], type.speed[1]);
+
+    const asteroid = this.addAsteroid(type, {
+      // Start just outside the edge
+      x: edge.x - dirX * type.radius,
+      y: edge.y - dirY * type.radius,
+      rotation: rng.range(0, Math.PI * 2),
+      vx: dirX * speed,
+      vy: dirY * speed,
+      angular: rng.range(-0.6, 0.6),
+    });
+
+    logger.debug('🪨 Asteroid spawned', { asteroidType: type.id, x: asteroid.x, y: asteroid.y, source: 'asteroids' });
+  }
+
+  private addAsteroid(type: Readonly<AsteroidTypeDefinition>, state: Omit<SavedAsteroid, 'type' | 'hp'>): GameObject {
+    const asteroid = this.asteroidPool.spawn(go => {
+      go.setPosition(state.x, state.y)
+        .setRotation(state.rotation)
+        .resetInterpolation();
+      go.require(PixiSpriteRenderer).setTexture(this.rockShape(type).texture);
+      go.require(CircleColliderComponent).radius = type.radius;
+      go.require(AsteroidComponent).setType(type);
+      const velocity = go.require(VelocityComponent);
+      velocity.vx = state.vx;
+      velocity.vy = state.vy;
+      velocity.angular = state.angular;
+    });
+    this.asteroids.add(asteroid);
+    this.fracturePatterns(type);
+    return asteroid;
+  }
+
+  private sweepAsteroids(): void {
+    const bounds = CoordinateService.getInstance().getGameBounds();
+    for (const go of this.asteroids) {
+      const asteroid = go.require(AsteroidComponent);
+      if (asteroid.isBroken) {
+        this.breakAsteroid(go, asteroid);
+        continue;
+      }
+
+      // Spawned one radius outside, so twice the radius means it has left for good
+      const margin = go.require(CircleColliderComponent).radius * 2;
+      if (
+        go.x < bounds.x - margin || go.x > bounds.x + bounds.w + margin ||
+        go.y < bounds.y - margin || go.y > bounds.y + bounds.h + margin
+      ) {
+        this.releaseAsteroid(go);
+      }
+    }
+  }
+
+  private breakAsteroid(go: GameObject, asteroid: AsteroidComponent): void {
+    const type = asteroidDatabase.get(asteroid.asteroidType);
+    if (type) {
+      this.effectSystem.triggerExplosion(go.x, go.y, type.hardness >= 0.5 ? 2 : 1);
+      this.spawnFragments(go, type);
+      eventBus.emit('asteroid-destroyed', { asteroidType: type.id, x: go.x, y: go.y });
+    }
+    this.releaseAsteroid(go);
+  }
+
+  private releaseAsteroid(go: GameObject): void {
+    this.asteroids.delete(go);
+    this.asteroidPool.release(go);
+  }
+
+  // ─── Fragments ─────────────────────────────────────────────
+
+  private createFragment(): GameObject {
+    return new GameObject()
+      .setName('Fragment')
+      .add(new PixiSpriteRenderer(this.container, { anchor: { x: 0.5, y: 0.5 } }))
+      .add(new VelocityComponent({ restitution: 0.5, linearDamping: 0.4, angularDamping: 0.6 }))
+      // Shard or debris outline, set on spawn
+      .add(new PolygonColliderComponent({ bounciness: 0.5, friction: 0.1 }))
+      .add(new FragmentComponent());
+  }
+
+  private spawnFragments(source: GameObject, type: Readonly<AsteroidTypeDefinition>): void {
+    // Rolled even without a baker so the rng sequence doesn't depend on the renderer
+    const variant = rng.int(0, ASTEROID_SPAWN_CONFIG.fractureVariants - 1);
+    const pattern = this.fracturePatterns(type)[variant];
+    if (pattern && pattern.pieces.length > 0) {
+      this.spawnShards(source, type, pattern);
+    } else {
+      this.spawnDebris(source, type);
+    }
+  }
+
+  /** Voronoi pieces of the rock, placed where they were on the parent and carrying its momentum */
+  private spawnShards(source: GameObject, type: Readonly<AsteroidTypeDefinition>, pattern: FracturePattern): void {
+    const parentVelocity = source.require(VelocityComponent);
+    const rock = this.rockShape(type);
+    const totalArea = pattern.pieces.reduce((sum, piece) => sum + piece.area, 0);
+    const cos = Math.cos(source.rotation);
+    const sin = Math.sin(source.rotation);
+    const fallback = this.debrisShape(type).texture;
+
+    pattern.pieces.forEach((piece, i) => {
+      // Live fragments are capped at the pool size to keep PhysicsSystem's pair checks cheap
+      if (this.fragments.size >= ASTEROID_SPAWN_CONFIG.fragmentPoolSize) return;
+
+      const localX = piece.centroid.x - rock.size / 2;
+      const localY = piece.centroid.y - rock.size / 2;
+      const offsetX = localX * cos - localY * sin;
+      const offsetY = localX * sin + localY * cos;
+      const distance = Math.hypot(offsetX, offsetY);
+      const angle = distance > 0 ? Math.atan2(offsetY, offsetX) : rng.range(0, Math.PI * 2);
+      const speed = rng.range(FRAGMENT_SPEED[0], FRAGMENT_SPEED[1]);
+      const texture = pattern.textures[i];
+
+      const fragment = this.fragmentPool.spawn(go => {
+        go.setPosition(source.x + offsetX, source.y + offsetY)
+          .setRotation(source.rotation)
+          .resetInterpolation();
+        const renderer = go.require(PixiSpriteRenderer);
+        renderer.setTexture(texture ?? fallback);
+        const anchor = texture ? pattern.anchors[i] : { x: 0.5, y: 0.5 };
+        renderer.sprite.anchor.set(anchor.x, anchor.y);
+        // Piece outline is relative to its centroid, like the sprite anchor
+        go.require(PolygonColliderComponent).setPoints(piece.points);
+        go.require(FragmentComponent).reset(ASTEROID_SPAWN_CONFIG.fragmentLifetime);
+        const velocity = go.require(VelocityComponent);
+        velocity.mass = Math.max(0.0001, parentVelocity.mass * (piece.area / totalArea));
+        // Parent velocity plus the spin's tangential velocity at the piece, then the blast
+        velocity.vx = parentVelocity.vx - parentVelocity.angular * offsetY + Math.cos(angle) * speed;
+        velocity.vy = parentVelocity.vy + parentVelocity.angular * offsetX + Math.sin(angle) * speed;
+        velocity.angular = parentVelocity.angular + rng.range(-SHARD_SPIN, SHARD_SPIN);
+      });
+      this.fragments.add(fragment);
+    });
+  }
+
+  /** Round pieces spread evenly around the parent, used when there is no fracture pattern */
+  private spawnDebris(source: GameObject, type: Readonly<AsteroidTypeDefinition>): void {
+    const parentVelocity = source.require(VelocityComponent);
+    // Pieces share the parent's area
+    const radius = type.radius / Math.sqrt(type.fragments);
+    const debris = this.debrisShape(type);
+    // Outline centred on the object, like the sprite
+    const outline = debris.outline.map(p => ({ x: p.x - debris.size / 2, y: p.y - debris.size / 2 }));
+
+    for (let i = 0; i < type.fragments; i++) {
+      if (this.fragments.size >= ASTEROID_SPAWN_CONFIG.fragmentPoolSize) break;
+
+      const angle = (i / type.fragments) * Math.PI * 2 + rng.range(-0.3, 0.3);
+      const speed = rng.range(FRAGMENT_SPEED[0], FRAGMENT_SPEED[1]);
+      const fragment = this.fragmentPool.spawn(go => {
+        go.setPosition(source.x + Math.cos(angle) * radius, source.y + Math.sin(angle) * radius)
+          .setRotation(angle)
+          .resetInterpolation();
+        const renderer = go.require(PixiSpriteRenderer);
+        renderer.setTexture(debris.texture);
+        renderer.sprite.anchor.set(0.5, 0.5);
+        go.require(PolygonColliderComponent).setPoints(outline);
+        go.require(FragmentComponent).reset(ASTEROID_SPAWN_CONFIG.fragmentLifetime);
+        const velocity = go.require(VelocityComponent);
+        velocity.mass = parentVelocity.mass / type.fragments;
+        velocity.vx = parentVelocity.vx + Math.cos(angle) * speed;
+        velocity.vy = parentVelocity.vy + Math.sin(angle) * speed;
+        velocity.angular = rng.range(-4, 4);
+      });
+      this.fragments.add(fragment);
+    }
+  }
+
+  private sweepFragments(): void {
+    for (const go of this.fragments) {
+      if (!go.require(FragmentComponent).expired) continue;
+      this.fragments.delete(go);
+      this.fragmentPool.release(go);
+    }
+  }
+
+  // ─── Textures ──────────────────────────────────────────────
+
+  /** Jagged neon rock of the type, baked once */
+  private rockShape(type: Readonly<AsteroidTypeDefinition>): RockShape {
+    const cached = this.rocks.get(type.id);
+    if (cached) return cached;
+
+    const seed = type.color + Math.round(type.radius);
+    const { outline, size } = rockOutline(type.radius, seed);
+    const rock: RockShape = { texture: this.bakeRock(type.id, outline, size, type.color), outline, size, seed };
+    this.rocks.set(type.id, rock);
+    return rock;
+  }
+
+  /** Round debris for the fallback fragments, sized to share the parent's area */
+  private debrisShape(type: Readonly<AsteroidTypeDefinition>): RockShape {
+    const key = `${type.id}-fragment`;
+    const cached = this.rocks.get(key);
+    if (cached) return cached;
+
+    const radius = type.radius / Math.sqrt(type.fragments);
+    const seed = type.color + Math.round(radius);
+    const { outline, size } = rockOutline(radius, seed);
+    const rock: RockShape = { texture: this.bakeRock(key, outline, size, type.color), outline, size, seed };
+    this.rocks.set(key, rock);
+    return rock;
+  }
+
+  /** All fracture variants of the type; the first call cuts them and queues their bakes */
+  private fracturePatterns(type: Readonly<AsteroidTypeDefinition>): FracturePattern[] {
+    const baker = this.baker;
+    if (!baker) return [];
+    const rock = this.rockShape(type);
+    const source = { texture: rock.texture, outline: rock.outline, strokeColor: type.color };
+    return Array.from({ length: ASTEROID_SPAWN_CONFIG.fractureVariants }, (_, variant) =>
+      baker.getPattern(`${type.id}-${variant}`, source, type.fragments, rock.seed + variant),
+    );
+  }
+
+  private bakeRock(key: string, outline: Vector2[], size: number, color: number): PIXI.Texture {
+    if (!ServiceRegistry.has('textureFactory')) {
+      logger.warn('⚠️ TextureFactory не найден, астероид без текстуры', { key, source: 'asteroids' });
+      return PIXI.Texture.WHITE;
+    }
+    const textureFactory = ServiceRegistry.get<TextureFactory>('textureFactory');
+
+    const graphics = new PIXI.Graphics()
+      .poly(outline.flatMap(p => [p.x, p.y]))
+      .fill({ color, alpha: 0.35 })
+      .stroke({ width: 2, color, alpha: 1 });
+    const texture = textureFactory.bakeGraphicsToTexture(graphics, size, size);
+    graphics.destroy();
+
+    this.textures.set(key, texture);
+    return texture;
+  }
+}
+
+/** Jagged outline centred in a square texture of `size` px */
+function rockOutline(radius: number, seed: number): { outline: Vector2[]; size: number } {
+  // Own generator so baking doesn't shift the shared rng sequence
+  const shape = new SeededRandom(seed);
+  const size = Math.ceil(radius * 2) + 4;
+  const outline: Vector2[] = [];
+  for (let i = 0; i < ROCK_VERTICES; i++) {
+    const angle = (i / ROCK_VERTICES) * Math.PI * 2;
+    const r = radius * shape.range(0.75, 1);
+    outline.push({ x: size / 2 + Math.cos(angle) * r, y: size / 2 + Math.sin(angle) * r });
+  }
+  return { outline, size };
+}
@@ -0,0 +1,56 @@
+import { GlobalSystem } from '@/engine/systems/GlobalSystem';
+import { eventBus } from '@/engine/events/EventBus';
+
+/**
+ * GlobalSystem over the active profile. Lives on Game, so progress keeps going across scene
+ * switches; subclasses catch up on time away in `onLoad`, capped like offline income.
+ * `onLoad` runs on start and again whenever another save slot is loaded; time accumulated
+ * for the old slot is dropped then. `onTick` gets the
+ * fixed-step time in whole `tickInterval`s, the remainder carries over to the next tick.
+ * Subscriptions passed to `listen` end when the system stops.
+ */
+export abstract class ProfileSystem extends GlobalSystem {
+  /** Seconds of fixed-step time between ticks */
+  protected abstract readonly tickInterval: number;
+  private pendingSeconds = 0;
+  private unsubs: (() => void)[] = [];
+
+  protected onStart(): void {
+    this.pendingSeconds = 0;
+    this.listen(
+      eventBus.on('save-slot-changed', () => {
+        this.pendingSeconds = 0;
+        this.onLoad();
+      }),
+    );
+    this.onLoad();
+  }
+
+  protected onStop(): void {
+    this.unsubs.forEach(unsub => unsub());
+    this.unsubs = [];
+  }
+
+  protected onFixedUpdate(deltaTime: number): void {
+    this.pendingSeconds += deltaTime;
+    if (this.pendingSeconds < this.tickInterval) return;
+
+    const ticks = Math.floor(this.pendingSeconds / this.tickInterval);
+    this.pendingSeconds -= ticks * this.tickInterval;
+    this.onTick(ticks * this.tickInterval);
+  }
+
+  /** Hands the time accumulated since the last tick to `onTick`, e.g. before stopping */
+  protected flush(): void {
+    const seconds = this.pendingSeconds;
+    this.pendingSeconds = 0;
+    this.onTick(seconds);
+  }
+
+  protected listen(...unsubs: (() => void)[]): void {
+    this.unsubs.push(...unsubs);
+  }
+
+  protected abstract onLoad(): void;
+  protected abstract onTick(seconds: number): void;
+}
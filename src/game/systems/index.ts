@@ -1,2 +1,4 @@
 export { SpaceBackgroundSystem } from './SpaceBackgroundSystem';
 export type { SpaceBackgroundConfig } from './SpaceBackgroundSystem';
+export { AsteroidSpawnSystem } from './AsteroidSpawnSystem';
+export { ProfileSystem } from './ProfileSystem';
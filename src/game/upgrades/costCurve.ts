@@ -0,0 +1,46 @@
+import { addAmount, geometricCost, maxAffordable, sanitizeAmount } from '@/shared/amount';
+import type { CostCurve } from './types';
+
+/** Upper bound for one buy-max on endless upgrades (polynomial sums are summed level by level) */
+const MAX_LEVELS_PER_PURCHASE = 10_000;
+
+/** Price of the level after `owned` */
+export function levelCost(curve: CostCurve, base: number, owned: number): number {
+  switch (curve.type) {
+    case 'exponential': return sanitizeAmount(base * Math.pow(curve.rate, owned));
+    case 'polynomial': return sanitizeAmount(base * Math.pow(owned + 1, curve.exponent));
+  }
+}
+
+/** Price of the next `count` levels */
+export function totalCost(curve: CostCurve, base: number, owned: number, count: number): number {
+  if (curve.type === 'exponential') return geometricCost(base, curve.rate, owned, count);
+
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total = addAmount(total, levelCost(curve, base, owned + i));
+  }
+  return total;
+}
+
+/** Levels `budget` pays for, at most `limit` */
+export function affordableLevels(
+  curve: CostCurve,
+  base: number,
+  owned: number,
+  budget: number,
+  limit = MAX_LEVELS_PER_PURCHASE
+): number {
+  const cap = Math.min(limit, MAX_LEVELS_PER_PURCHASE);
+  if (curve.type === 'exponential') return Math.min(cap, maxAffordable(base, curve.rate, owned, budget));
+
+  let count = 0;
+  let spent = 0;
+  while (count < cap) {
+    const next = levelCost(curve, base, owned + count);
+    if (spent + next > budget) break;
+    spent += next;
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,93 @@
+import type { UpgradeDefinition } from '../types';
+
+export const UPGRADES: Record<string, UpgradeDefinition> = {
+  'reinforced-drills': {
+    id: 'reinforced-drills',
+    name: 'Reinforced Drills',
+    description: '+25 credits per asteroid click',
+    costResource: 'credits',
+    baseCost: 250,
+    costCurve: { type: 'exponential', rate: 1.5 },
+    maxLevel: 50,
+    effects: [{ stat: 'click.value', op: 'flat', value: 25 }],
+  },
+  'drone-firmware': {
+    id: 'drone-firmware',
+    name: 'Drone Firmware',
+    description: '+25% Mining Drone output',
+    costResource: 'credits',
+    baseCost: 500,
+    costCurve: { type: 'exponential', rate: 1.8 },
+    maxLevel: 20,
+    effects: [{ stat: 'generator.mining-drone', op: 'percent', value: 0.25 }],
+  },
+  'harvester-optics': {
+    id: 'harvester-optics',
+    name: 'Harvester Optics',
+    description: '+25% Ore Harvester output',
+    costResource: 'credits',
+    baseCost: 2_000,
+    costCurve: { type: 'exponential', rate: 2 },
+    maxLevel: 20,
+    effects: [{ stat: 'generator.ore-harvester', op: 'percent', value: 0.25 }],
+  },
+  'neon-overclock': {
+    id: 'neon-overclock',
+    name: 'Neon Overclock',
+    description: 'x1.1 credit production, compounding',
+    costResource: 'crystals',
+    baseCost: 10,
+    costCurve: { type: 'exponential', rate: 2.5 },
+    effects: [{ stat: 'production.credits', op: 'multiply', value: 1.1 }],
+  },
+  'cargo-compression': {
+    id: 'cargo-compression',
+    name: 'Cargo Compression',
+    description: '+30 min of offline earnings',
+    costResource: 'ore',
+    baseCost: 50,
+    costCurve: { type: 'polynomial', exponent: 2 },
+    maxLevel: 8,
+    effects: [{ stat: 'offline.maxSeconds', op: 'flat', value: 30 * 60 }],
+  },
+  'night-shift': {
+    id: 'night-shift',
+    name: 'Night Shift',
+    description: '+5% offline efficiency',
+    costResource: 'credits',
+    baseCost: 5_000,
+    costCurve: { type: 'polynomial', exponent: 3 },
+    maxLevel: 10,
+    effects: [{ stat: 'offline.efficiency', op: 'flat', value: 0.05 }],
+  },
+  'warehouse-expansion': {
+    id: 'warehouse-expansion',
+    name: 'Warehouse Expansion',
+    description: 'Next warehouse capacity tier',
+    costResource: 'credits',
+    baseCost: 1_000,
+    costCurve: { type: 'exponential', rate: 3 },
+    maxLevel: 5,
+    effects: [{ stat: 'warehouse.tier', op: 'flat', value: 1 }],
+  },
+  'refinery-bay': {
+    id: 'refinery-bay',
+    name: 'Refinery Bay',
+    description: '+1 production slot',
+    costResource: 'credits',
+    baseCost: 2_500,
+    costCurve: { type: 'exponential', rate: 4 },
+    maxLevel: 3,
+    effects: [{ stat: 'refinery.slots', op: 'flat', value: 1 }],
+  },
+  'plasma-furnace': {
+    id: 'plasma-furnace',
+    name: 'Plasma Furnace',
+    description: '+20% refinery speed',
+    costResource: 'ore',
+    baseCost: 100,
+    costCurve: { type: 'exponential', rate: 2.2 },
+    maxLevel: 10,
+    effects: [{ stat: 'refinery.speed', op: 'percent', value: 0.2 }],
+  },
+};
@@ -0,0 +1,18 @@
+import { ConfigDatabase } from '@/engine/database';
+import { resourceDatabase } from '@/game/economy';
+import { UPGRADES } from './data/upgrades';
+import type { UpgradeDefinition } from './types';
+
+export const upgradeDatabase = new ConfigDatabase<UpgradeDefinition>({
+  base: UPGRADES,
+  validate: (upgrade, id) => {
+    if (!resourceDatabase.has(upgrade.costResource)) {
+      throw new Error(`[upgrades] upgrade "${id}" costs unknown resource "${upgrade.costResource}"`);
+    }
+    if (upgrade.baseCost <= 0) throw new Error(`[upgrades] upgrade "${id}" must have a positive baseCost`);
+    if (upgrade.maxLevel !== undefined && upgrade.maxLevel < 1) {
+      throw new Error(`[upgrades] upgrade "${id}" maxLevel must be >= 1`);
+    }
+    if (upgrade.effects.length === 0) throw new Error(`[upgrades] upgrade "${id}" has no effects`);
+  },
+});
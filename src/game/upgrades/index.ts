@@ -0,0 +1,11 @@
+export {
+  buyUpgrade,
+  getMaxAffordableUpgrades,
+  getRemainingLevels,
+  getUpgradeCost,
+  isUpgradeMaxed,
+  upgradeModifiersStore,
+} from './upgrades';
+export { affordableLevels, levelCost, totalCost } from './costCurve';
+export { upgradeDatabase } from './databases';
+export type { CostCurve, UpgradeDefinition, UpgradeEffect } from './types';
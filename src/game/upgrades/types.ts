@@ -0,0 +1,33 @@
+import type { ModifierOperation, StatId } from '@/game/modifiers';
+
+/**
+ * Price of level n+1 when n levels are owned:
+ *   exponential — base × rate^n
+ *   polynomial  — base × (n + 1)^exponent
+ */
+export type CostCurve =
+  | { type: 'exponential'; rate: number }
+  | { type: 'polynomial'; exponent: number };
+
+export interface UpgradeEffect {
+  stat: StatId;
+  op: ModifierOperation;
+  /**
+   * Effect of a single level. flat/percent stack linearly (value × level),
+   * multiply compounds (value ^ level)
+   */
+  value: number;
+}
+
+export interface UpgradeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Resource the upgrade is paid with */
+  costResource: string;
+  baseCost: number;
+  costCurve: CostCurve;
+  /** Omit for an endless upgrade */
+  maxLevel?: number;
+  effects: UpgradeEffect[];
+}
@@ -0,0 +1,75 @@
+import { computed } from 'nanostores';
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { economyActions, upgradeActions, upgradesStore } from '@/stores/game';
+import type { StatModifier } from '@/game/modifiers';
+import { upgradeDatabase } from './databases';
+import { affordableLevels, totalCost } from './costCurve';
+
+/** Levels still available (Infinity for endless upgrades) */
+export function getRemainingLevels(upgradeId: string): number {
+  const upgrade = upgradeDatabase.get(upgradeId);
+  if (!upgrade) return 0;
+  return upgrade.maxLevel === undefined
+    ? Infinity
+    : Math.max(0, upgrade.maxLevel - upgradeActions.getLevel(upgradeId));
+}
+
+export function isUpgradeMaxed(upgradeId: string): boolean {
+  return getRemainingLevels(upgradeId) === 0;
+}
+
+/** Price of the next `count` levels, in the upgrade's costResource */
+export function getUpgradeCost(upgradeId: string, count = 1): number {
+  const upgrade = upgradeDatabase.get(upgradeId);
+  if (!upgrade) return 0;
+  return totalCost(upgrade.costCurve, upgrade.baseCost, upgradeActions.getLevel(upgradeId), count);
+}
+
+/** Levels the player can buy right now (0 when maxed or broke) */
+export function getMaxAffordableUpgrades(upgradeId: string): number {
+  const upgrade = upgradeDatabase.get(upgradeId);
+  if (!upgrade) return 0;
+  return affordableLevels(
+    upgrade.costCurve,
+    upgrade.baseCost,
+    upgradeActions.getLevel(upgradeId),
+    economyActions.getAmount(upgrade.costResource),
+    getRemainingLevels(upgradeId)
+  );
+}
+
+/**
+ * Buy `count` levels at once. Fails (nothing spent) past maxLevel or if unaffordable
+ */
+export function buyUpgrade(upgradeId: string, count = 1): boolean {
+  const upgrade = upgradeDatabase.get(upgradeId);
+  if (!upgrade || count <= 0 || count > getRemainingLevels(upgradeId)) return false;
+  if (!economyActions.spend({ [upgrade.costResource]: getUpgradeCost(upgradeId, count) })) return false;
+
+  const level = upgradeActions.getLevel(upgradeId) + count;
+  upgradeActions.setLevel(upgradeId, level);
+  eventBus.emit('upgrade-purchased', { upgradeId, levels: count, level });
+  logger.debug('⬆️ Upgrade purchased', { upgradeId, levels: count, level, source: 'upgrades' });
+  return true;
+}
+
+/**
+ * Modifiers granted by purchased levels — registered as the 'upgrades' modifier source
+ */
+export const upgradeModifiersStore = computed(upgradesStore, levels => {
+  const modifiers: StatModifier[] = [];
+  for (const [upgradeId, level] of Object.entries(levels)) {
+    const upgrade = upgradeDatabase.get(upgradeId);
+    if (!upgrade || level <= 0) continue;
+    for (const effect of upgrade.effects) {
+      modifiers.push({
+        stat: effect.stat,
+        op: effect.op,
+        value: effect.op === 'multiply' ? Math.pow(effect.value, level) : effect.value * level,
+        source: upgradeId,
+      });
+    }
+  }
+  return modifiers;
+});
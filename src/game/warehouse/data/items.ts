@@ -0,0 +1,68 @@
+import type { ItemDefinition } from '../types';
+
+export const ITEMS: Record<string, ItemDefinition> = {
+  'iron-ore': {
+    id: 'iron-ore',
+    name: 'Iron Ore',
+    category: 'ore',
+    stackSize: 50,
+    sellValue: 5,
+    color: 'var(--color-neon-white)',
+  },
+  'copper-ore': {
+    id: 'copper-ore',
+    name: 'Copper Ore',
+    category: 'ore',
+    stackSize: 50,
+    sellValue: 8,
+    color: 'var(--color-neon-orange)',
+  },
+  'neon-crystal': {
+    id: 'neon-crystal',
+    name: 'Neon Crystal',
+    category: 'crystal',
+    stackSize: 20,
+    sellValue: 40,
+    color: 'var(--color-neon-pink)',
+  },
+  'void-shard': {
+    id: 'void-shard',
+    name: 'Void Shard',
+    category: 'crystal',
+    stackSize: 10,
+    sellValue: 150,
+    color: 'var(--color-neon-purple)',
+  },
+  'iron-ingot': {
+    id: 'iron-ingot',
+    name: 'Iron Ingot',
+    category: 'refined',
+    stackSize: 25,
+    sellValue: 35,
+    color: 'var(--color-neon-blue)',
+  },
+  'copper-wire': {
+    id: 'copper-wire',
+    name: 'Copper Wire',
+    category: 'refined',
+    stackSize: 50,
+    sellValue: 25,
+    color: 'var(--color-neon-orange)',
+  },
+  'focus-lens': {
+    id: 'focus-lens',
+    name: 'Focus Lens',
+    category: 'refined',
+    stackSize: 10,
+    sellValue: 200,
+    color: 'var(--color-neon-cyan)',
+  },
+  'ancient-relic': {
+    id: 'ancient-relic',
+    name: 'Ancient Relic',
+    category: 'artifact',
+    stackSize: 1,
+    sellValue: 1_000,
+    color: 'var(--color-neon-yellow)',
+  },
+};
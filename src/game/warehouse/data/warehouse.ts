@@ -0,0 +1,25 @@
+import type { MiningDrop, WarehouseTier } from '../types';
+
+/** Indexed by the `warehouse.tier` stat (Warehouse Expansion level) */
+export const WAREHOUSE_TIERS: WarehouseTier[] = [
+  { name: 'Cargo Pod', slots: 8 },
+  { name: 'Storage Bay', slots: 12 },
+  { name: 'Depot', slots: 16 },
+  { name: 'Warehouse', slots: 24 },
+  { name: 'Orbital Silo', slots: 32 },
+  { name: 'Megavault', slots: 48 },
+];
+
+/** Share of sellValue paid by the 'autoSell' overflow policy */
+export const AUTO_SELL_RATE = 0.5;
+
+/** Chance that an asteroid click yields an item */
+export const MINING_DROP_CHANCE = 0.35;
+
+export const MINING_DROPS: MiningDrop[] = [
+  { itemId: 'iron-ore', weight: 60 },
+  { itemId: 'copper-ore', weight: 30 },
+  { itemId: 'neon-crystal', weight: 8 },
+  { itemId: 'void-shard', weight: 1.8 },
+  { itemId: 'ancient-relic', weight: 0.2 },
+];
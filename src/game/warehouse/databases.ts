@@ -0,0 +1,13 @@
+import { ConfigDatabase } from '@/engine/database';
+import { ITEMS } from './data/items';
+import type { ItemDefinition } from './types';
+
+export const itemDatabase = new ConfigDatabase<ItemDefinition>({
+  base: ITEMS,
+  validate: (item, id) => {
+    if (!Number.isInteger(item.stackSize) || item.stackSize < 1) {
+      throw new Error(`[warehouse] item "${id}" stackSize must be a positive integer`);
+    }
+    if (item.sellValue < 0) throw new Error(`[warehouse] item "${id}" has a negative sellValue`);
+  },
+});
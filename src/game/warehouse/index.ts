@@ -0,0 +1,19 @@
+export {
+  canStoreAll,
+  getItemRoom,
+  getWarehouseTier,
+  miningPausedStore,
+  rollMiningDrop,
+  sellItems,
+  sellStack,
+  setOverflowPolicy,
+  storeItems,
+  takeItems,
+  warehouseFullStore,
+  warehouseTierStore,
+} from './warehouse';
+export type { StoreResult } from './warehouse';
+export { insertItems, itemRoom, removeItems } from './inventory';
+export { itemDatabase } from './databases';
+export { AUTO_SELL_RATE, WAREHOUSE_TIERS } from './data/warehouse';
+export type { ItemCategory, ItemDefinition, MiningDrop, WarehouseTier } from './types';
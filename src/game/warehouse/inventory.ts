@@ -0,0 +1,71 @@
+import type { ItemStack } from '@/stores/game';
+
+export interface InsertResult {
+  stacks: ItemStack[];
+  stored: number;
+  overflow: number;
+}
+
+export interface RemoveResult {
+  stacks: ItemStack[];
+  removed: number;
+}
+
+/**
+ * Put `count` items into the stacks: top up existing stacks of the item first,
+ * then open new slots while there are free ones. Input is not mutated
+ */
+export function insertItems(
+  stacks: readonly ItemStack[],
+  itemId: string,
+  count: number,
+  stackSize: number,
+  slots: number
+): InsertResult {
+  const next = stacks.map(stack => ({ ...stack }));
+  let remaining = count;
+
+  for (const stack of next) {
+    if (remaining === 0) break;
+    if (stack.itemId !== itemId) continue;
+    const added = Math.min(stackSize - stack.count, remaining);
+    if (added <= 0) continue;
+    stack.count += added;
+    remaining -= added;
+  }
+
+  while (remaining > 0 && next.length < slots) {
+    const added = Math.min(stackSize, remaining);
+    next.push({ itemId, count: added });
+    remaining -= added;
+  }
+
+  return { stacks: next, stored: count - remaining, overflow: remaining };
+}
+
+/** How many more of the item fit: room left in its stacks plus whole free slots */
+export function itemRoom(stacks: readonly ItemStack[], itemId: string, stackSize: number, slots: number): number {
+  let room = Math.max(0, slots - stacks.length) * stackSize;
+  for (const stack of stacks) {
+    if (stack.itemId === itemId) room += Math.max(0, stackSize - stack.count);
+  }
+  return room;
+}
+
+/**
+ * Take up to `count` items out, emptying the newest (usually partial) stacks first
+ */
+export function removeItems(stacks: readonly ItemStack[], itemId: string, count: number): RemoveResult {
+  const next = stacks.map(stack => ({ ...stack }));
+  let remaining = count;
+
+  for (let i = next.length - 1; i >= 0 && remaining > 0; i--) {
+    const stack = next[i];
+    if (stack.itemId !== itemId) continue;
+    const taken = Math.min(stack.count, remaining);
+    stack.count -= taken;
+    remaining -= taken;
+  }
+
+  return { stacks: next.filter(stack => stack.count > 0), removed: count - remaining };
+}
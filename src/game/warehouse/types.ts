@@ -0,0 +1,24 @@
+export type ItemCategory = 'ore' | 'crystal' | 'refined' | 'artifact';
+
+export interface ItemDefinition {
+  id: string;
+  name: string;
+  category: ItemCategory;
+  /** Max items per warehouse slot */
+  stackSize: number;
+  /** Credits per item when sold */
+  sellValue: number;
+  /** CSS color for the panel */
+  color: string;
+}
+
+export interface WarehouseTier {
+  name: string;
+  slots: number;
+}
+
+export interface MiningDrop {
+  itemId: string;
+  /** Relative chance among all drops */
+  weight: number;
+}
@@ -0,0 +1,152 @@
+import { computed } from 'nanostores';
+import { eventBus } from '@/engine/events/EventBus';
+import { logger } from '@/engine/logging';
+import { rng } from '@/engine/random';
+import { mulAmount } from '@/shared/amount';
+import {
+  economyActions,
+  overflowPolicyStore,
+  warehouseActions,
+  warehouseStacksStore,
+  type OverflowPolicy,
+} from '@/stores/game';
+import { modifierPipeline } from '@/game/modifiers';
+import { itemDatabase } from './databases';
+import { insertItems, itemRoom, removeItems } from './inventory';
+import { AUTO_SELL_RATE, MINING_DROP_CHANCE, MINING_DROPS, WAREHOUSE_TIERS } from './data/warehouse';
+import type { WarehouseTier } from './types';
+
+export interface StoreResult {
+  stored: number;
+  /** Items that didn't fit: discarded, auto-sold, or under 'pause' refused — they stay with the caller */
+  overflow: number;
+  /** Credits paid by the 'autoSell' policy */
+  autoSoldFor: number;
+}
+
+/** Current capacity tier, from the `warehouse.tier` stat */
+export function getWarehouseTier(): WarehouseTier {
+  const index = Math.floor(modifierPipeline.apply('warehouse.tier', 0));
+  return WAREHOUSE_TIERS[Math.min(Math.max(index, 0), WAREHOUSE_TIERS.length - 1)];
+}
+
+export const warehouseTierStore = computed(modifierPipeline.revision, () => getWarehouseTier());
+
+/** Nothing fits any more: every slot is taken and every stack is at its stack size */
+export const warehouseFullStore = computed(
+  [warehouseStacksStore, warehouseTierStore],
+  (stacks, tier) => stacks.length >= tier.slots
+    && stacks.every(stack => stack.count >= (itemDatabase.get(stack.itemId)?.stackSize ?? stack.count))
+);
+
+/** How many more of the item the warehouse takes before its overflow policy kicks in */
+export function getItemRoom(itemId: string): number {
+  const item = itemDatabase.get(itemId);
+  if (!item) return 0;
+  return itemRoom(warehouseActions.getStacks(), itemId, item.stackSize, getWarehouseTier().slots);
+}
+
+/** Whether all of these items fit at once, without any overflow */
+export function canStoreAll(items: Readonly<Record<string, number>>): boolean {
+  const { slots } = getWarehouseTier();
+  let stacks = warehouseActions.getStacks();
+  for (const [itemId, count] of Object.entries(items)) {
+    const item = itemDatabase.get(itemId);
+    if (!item) continue;
+    const result = insertItems(stacks, itemId, count, item.stackSize, slots);
+    if (result.overflow > 0) return false;
+    stacks = result.stacks;
+  }
+  return true;
+}
+
+/**
+ * Mining sources check this before rolling drops. Drops that still don't fit
+ * their own item are refused by `storeItems` under 'pause'
+ */
+export const miningPausedStore = computed(
+  [warehouseFullStore, overflowPolicyStore],
+  (full, policy) => full && policy === 'pause'
+);
+
+/**
+ * Add mined items, applying the overflow policy to what doesn't fit.
+ * Emits `warehouse-full` when items overflow or the last free slot gets taken
+ */
+export function storeItems(itemId: string, count = 1): StoreResult {
+  const item = itemDatabase.get(itemId);
+  if (!item || count <= 0) {
+    logger.warn('⚠️ Unknown item or empty count, nothing stored', { itemId, count, source: 'warehouse' });
+    return { stored: 0, overflow: 0, autoSoldFor: 0 };
+  }
+
+  const { slots } = getWarehouseTier();
+  const wasFull = warehouseFullStore.get();
+  const { stacks, stored, overflow } = insertItems(warehouseActions.getStacks(), itemId, count, item.stackSize, slots);
+  if (stored > 0) warehouseActions.setStacks(stacks);
+
+  const policy = overflowPolicyStore.get();
+  let autoSoldFor = 0;
+  if (overflow > 0 && policy === 'autoSell') {
+    autoSoldFor = mulAmount(item.sellValue * AUTO_SELL_RATE, overflow);
+    economyActions.add({ credits: autoSoldFor });
+  }
+
+  if (overflow > 0 || (!wasFull && warehouseFullStore.get())) {
+    eventBus.emit('warehouse-full', { itemId, overflow, policy, slots });
+  }
+
+  return { stored, overflow, autoSoldFor };
+}
+
+/** Take items out without payment. Returns how many were removed */
+export function takeItems(itemId: string, count: number): number {
+  const { stacks, removed } = removeItems(warehouseActions.getStacks(), itemId, count);
+  if (removed > 0) warehouseActions.setStacks(stacks);
+  return removed;
+}
+
+/** Sell items at full value. Returns the credits earned */
+export function sellItems(itemId: string, count: number): number {
+  const item = itemDatabase.get(itemId);
+  if (!item) return 0;
+
+  const sold = takeItems(itemId, count);
+  const credits = mulAmount(item.sellValue, sold);
+  if (credits > 0) economyActions.add({ credits });
+  return credits;
+}
+
+/** Sell one slot's stack by index */
+export function sellStack(index: number): number {
+  const stack = warehouseActions.getStacks()[index];
+  if (!stack) return 0;
+
+  const item = itemDatabase.get(stack.itemId);
+  const stacks = warehouseActions.getStacks().filter((_, i) => i !== index);
+  warehouseActions.setStacks(stacks);
+
+  const credits = item ? mulAmount(item.sellValue, stack.count) : 0;
+  if (credits > 0) economyActions.add({ credits });
+  return credits;
+}
+
+export function setOverflowPolicy(policy: OverflowPolicy): void {
+  warehouseActions.setOverflowPolicy(policy);
+  logger.info('📦 Overflow policy changed', { policy, source: 'warehouse' });
+}
+
+/**
+ * Seeded roll for an asteroid click: item id or null (no drop). Deterministic under replay
+ */
+export function rollMiningDrop(): string | null {
+  if (rng.next() >= modifierPipeline.apply('mining.dropChance', MINING_DROP_CHANCE)) return null;
+
+  const totalWeight = MINING_DROPS.reduce((sum, drop) => sum + drop.weight, 0);
+  let roll = rng.next() * totalWeight;
+  for (const drop of MINING_DROPS) {
+    roll -= drop.weight;
+    if (roll < 0) return drop.itemId;
+  }
+  return MINING_DROPS.at(-1)?.itemId ?? null;
+}
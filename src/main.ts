@@ -6,7 +6,7 @@ import { GameBootstrap } from './engine/GameBootstrap';
 import { GameConfig } from './engine/Game';
 import { i18nService } from '@/engine/i18n';
 import type { LanguagePreference } from '@/engine/i18n';
-import { getPersistedLanguagePreference } from '@/stores/game/profile';
+import { persistenceService } from '@/stores/game/persistence';
 
 import './styles/theme.css';
 import './utils/safeZoneTest';
@@ -65,10 +65,13 @@ async function bootstrap() {
   if (bootstrapPromise) return bootstrapPromise;
 
   const run = async () => {
+    // Saves may live in IndexedDB / native Preferences — select the backend before reading them
+    await gameBootstrap.initStorage();
+
     // Initialize i18n BEFORE mounting Svelte so loc() works from first render
     if (!i18nService.getAvailableLocales().length) {
       const translationModules = import.meta.glob('/src/i18n/*.json', { eager: true });
-      const savedPreference = (getPersistedLanguagePreference() ?? 'system') as LanguagePreference;
+      const savedPreference = ((await persistenceService.loadLanguagePreference()) ?? 'system') as LanguagePreference;
       i18nService.initialize({
         fallbackLocale: 'en',
         translationModules,
@@ -3,6 +3,10 @@ import { Scene } from '@/engine/scene/Scene';
 import { GameObject } from '@/engine/GameObject';
 import { SpaceBackgroundComponent, SPACE_PRESETS } from '@/game/components/SpaceBackgroundComponent';
 import { PixiSpriteRenderer } from '@/engine/components/PixiSpriteRenderer';
+import { PolygonColliderComponent } from '@/engine/components/PolygonColliderComponent';
+import { PhysicsSystem } from '@/engine/systems/PhysicsSystem';
+import { CollisionLayers } from '@/engine/physics/types';
+import { compareRenderOrder } from '@/engine/render/renderOrder';
 import { logger } from '@/engine/logging';
 import { eventBus } from '@/engine/events/EventBus';
 import { computeLayout, readSafeInsets } from '@/engine/render/LayoutEngine';
@@ -47,6 +51,8 @@ export class SceneEditorScene extends Scene {
     super.onEnter(previousScene);
 
     this.stage = this.resolveStage();
+    // Только для выбора объектов: коллайдеры редактора ни с чем не сталкиваются
+    this.addSystem(new PhysicsSystem(this));
     this.initContainers();
     this.createBackground();
     this.createGrid();
@@ -489,6 +495,8 @@ export class SceneEditorScene extends Scene {
     
     // Добавляем компонент к GameObject
     gameObject.add(spriteRenderer);
+    gameObject.add(new PolygonColliderComponent({ collideWithBounds: false, mask: CollisionLayers.NONE }));
+    this.fitPickCollider(gameObject, spriteRenderer.sprite);
     
     // Добавляем в сцену (это автоматически добавит спрайт в viewport)
     this.add(gameObject);
@@ -618,6 +626,7 @@ export class SceneEditorScene extends Scene {
         id: object.id
       });
     }
+    this.fitPickCollider(gameObject, spriteRenderer.sprite);
     
     logger.info('🔄 Sprite object updated', {
       source: 'scene-editor',
@@ -871,32 +880,43 @@ export class SceneEditorScene extends Scene {
     });
   }
 
+  /** Верхний по отрисовке sprite-объект, чей коллайдер содержит точку (координаты viewport) */
   private findObjectAtPosition(x: number, y: number): SceneObject | null {
-    const state = sceneState.get();
-    
-    // Check objects in reverse order (top to bottom)
-    const objects = Object.values(state.objects).sort((a, b) => {
-      const aRenderer = this.sceneObjects.get(a.id);
-      const bRenderer = this.sceneObjects.get(b.id);
-      return (bRenderer?.sprite.zIndex || 0) - (aRenderer?.sprite.zIndex || 0);
-    });
+    const physics = this.getSystem(PhysicsSystem);
+    if (!physics) return null;
 
-    for (const object of objects) {
-      if (object.type === 'sprite') {
-        const renderer = this.sceneObjects.get(object.id);
-        if (renderer && this.isPointInSprite(x, y, renderer.sprite)) {
-          return object;
+    const state = sceneState.get();
+    let best: SceneObject | null = null;
+    let bestSprite: PIXI.Sprite | null = null;
+
+    for (const hit of physics.pointQuery({ x, y })) {
+      for (const [id, entry] of this.sceneObjects) {
+        const { gameObject, sprite } = entry as any;
+        if (gameObject !== hit.gameObject) continue;
+        const object = state.objects[id];
+        if (object?.type !== 'sprite') break;
+        if (!bestSprite || compareRenderOrder(sprite, bestSprite) > 0) {
+          best = object;
+          bestSprite = sprite;
         }
+        break;
       }
     }
 
-    return null;
+    return best;
   }
 
-  private isPointInSprite(x: number, y: number, sprite: PIXI.Sprite): boolean {
-    const bounds = sprite.getBounds();
-    return x >= bounds.x && x <= bounds.x + bounds.width &&
-           y >= bounds.y && y <= bounds.y + bounds.height;
+  /** Коллайдер для выбора — прямоугольник текстуры вокруг anchor; поворот и масштаб берутся из GameObject */
+  private fitPickCollider(gameObject: GameObject, sprite: PIXI.Sprite) {
+    const { width, height } = sprite.texture;
+    const left = -sprite.anchor.x * width;
+    const top = -sprite.anchor.y * height;
+    gameObject.get(PolygonColliderComponent)?.setPoints([
+      { x: left, y: top },
+      { x: left + width, y: top },
+      { x: left + width, y: top + height },
+      { x: left, y: top + height },
+    ]);
   }
 
   private updateObjectPosition(objectId: string, x: number, y: number) {
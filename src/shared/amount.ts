@@ -0,0 +1,52 @@
+/**
+ * Arithmetic for resource amounts.
+ * Amounts are plain doubles: exact up to 2^53, then approximate up to ~1.8e308 — enough
+ * for idle growth as long as nothing turns into NaN or Infinity. Every helper here
+ * saturates at MAX_AMOUNT and treats garbage input as 0, so a single bad multiplier
+ * can't poison a save.
+ */
+
+export const MAX_AMOUNT = Number.MAX_VALUE;
+
+/** Finite, non-negative, saturated */
+export function sanitizeAmount(value: number): number {
+  if (Number.isNaN(value) || value <= 0) return 0;
+  return value >= MAX_AMOUNT ? MAX_AMOUNT : value;
+}
+
+export function addAmount(a: number, b: number): number {
+  return sanitizeAmount(sanitizeAmount(a) + sanitizeAmount(b));
+}
+
+/** a - b, never below 0 */
+export function subAmount(a: number, b: number): number {
+  return sanitizeAmount(sanitizeAmount(a) - sanitizeAmount(b));
+}
+
+export function mulAmount(a: number, factor: number): number {
+  return sanitizeAmount(sanitizeAmount(a) * sanitizeAmount(factor));
+}
+
+/**
+ * Total price of the next `count` items when each costs `growth` times the previous:
+ * base · growth^owned · (growth^count − 1) / (growth − 1).
+ */
+export function geometricCost(base: number, growth: number, owned: number, count: number): number {
+  if (count <= 0) return 0;
+  if (growth === 1) return mulAmount(base, count);
+  const first = base * Math.pow(growth, owned);
+  return sanitizeAmount(first * (Math.pow(growth, count) - 1) / (growth - 1));
+}
+
+/**
+ * How many items from the geometricCost series `budget` pays for (inverse of geometricCost).
+ */
+export function maxAffordable(base: number, growth: number, owned: number, budget: number): number {
+  if (budget <= 0 || base <= 0) return 0;
+  if (growth === 1) return Math.floor(budget / base);
+
+  const first = base * Math.pow(growth, owned);
+  const count = Math.floor(Math.log(budget * (growth - 1) / first + 1) / Math.log(growth));
+  // Float error at the boundary can overshoot by one
+  return geometricCost(base, growth, owned, count) > budget ? Math.max(0, count - 1) : Math.max(0, count);
+}
@@ -0,0 +1,206 @@
+/**
+ * Mantissa/exponent number for idle growth past what a double can hold
+ * (amount.ts saturates at ~1.8e308). Value = mantissa · 10^exponent with
+ * 1 ≤ |mantissa| < 10, or both 0. Immutable: every operation returns a new BigNum.
+ * Precision is that of the mantissa (~15 digits) — fine for display and costs,
+ * not for exact integer bookkeeping.
+ */
+
+export type BigNumSource = BigNum | number | string;
+
+/** Addends further apart than this many orders of magnitude don't change the sum */
+const PRECISION_DIGITS = 17;
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+export class BigNum {
+  static readonly ZERO = new BigNum(0, 0);
+  static readonly ONE = new BigNum(1, 0);
+
+  readonly mantissa: number;
+  readonly exponent: number;
+
+  private constructor(mantissa: number, exponent: number) {
+    if (mantissa === 0 || !Number.isFinite(mantissa) || !Number.isFinite(exponent)) {
+      this.mantissa = 0;
+      this.exponent = 0;
+      return;
+    }
+
+    let shift = Math.floor(Math.log10(Math.abs(mantissa)));
+    let m = scale(mantissa, -shift);
+    // log10 rounding can leave the mantissa just outside [1, 10)
+    if (Math.abs(m) >= 10) { m /= 10; shift += 1; }
+    else if (Math.abs(m) < 1) { m *= 10; shift -= 1; }
+
+    this.mantissa = m;
+    this.exponent = Math.round(exponent) + shift;
+  }
+
+  /** NaN, ±Infinity and unparsable strings become 0, like amounts in amount.ts */
+  static from(value: BigNumSource): BigNum {
+    if (value instanceof BigNum) return value;
+    if (typeof value === 'number') return new BigNum(value, 0);
+    return BigNum.parse(value) ?? BigNum.ZERO;
+  }
+
+  static fromParts(mantissa: number, exponent: number): BigNum {
+    return new BigNum(mantissa, exponent);
+  }
+
+  /** '1234', '-1.5e400', '2E-3'; null when the text isn't a number */
+  static parse(text: string): BigNum | null {
+    const trimmed = text.trim();
+    if (!NUMBER_PATTERN.test(trimmed)) return null;
+
+    const [digits, exponent = '0'] = trimmed.toLowerCase().split('e');
+    return new BigNum(Number(digits), Number(exponent));
+  }
+
+  /** Inverse of toJSON; plain finite numbers are accepted too */
+  static fromJSON(value: unknown): BigNum | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? new BigNum(value, 0) : null;
+    if (typeof value === 'string') return BigNum.parse(value);
+    return null;
+  }
+
+  static max(a: BigNumSource, b: BigNumSource): BigNum {
+    const x = BigNum.from(a);
+    const y = BigNum.from(b);
+    return x.gte(y) ? x : y;
+  }
+
+  static min(a: BigNumSource, b: BigNumSource): BigNum {
+    const x = BigNum.from(a);
+    const y = BigNum.from(b);
+    return x.lte(y) ? x : y;
+  }
+
+  // ─── Arithmetic ────────────────────────────────────────────
+
+  add(other: BigNumSource): BigNum {
+    const b = BigNum.from(other);
+    if (b.isZero()) return this;
+    if (this.isZero()) return b;
+
+    const [big, small] = this.exponent >= b.exponent ? [this, b] : [b, this];
+    const gap = big.exponent - small.exponent;
+    if (gap > PRECISION_DIGITS) return big;
+    return new BigNum(big.mantissa + scale(small.mantissa, -gap), big.exponent);
+  }
+
+  sub(other: BigNumSource): BigNum {
+    return this.add(BigNum.from(other).neg());
+  }
+
+  mul(other: BigNumSource): BigNum {
+    const b = BigNum.from(other);
+    return new BigNum(this.mantissa * b.mantissa, this.exponent + b.exponent);
+  }
+
+  div(other: BigNumSource): BigNum {
+    const b = BigNum.from(other);
+    if (b.isZero()) throw new RangeError('[BigNum] division by zero');
+    return new BigNum(this.mantissa / b.mantissa, this.exponent - b.exponent);
+  }
+
+  /** Negative bases only with integer powers */
+  pow(power: number): BigNum {
+    if (power === 0) return BigNum.ONE;
+    if (this.isZero()) {
+      if (power < 0) throw new RangeError('[BigNum] zero to a negative power');
+      return BigNum.ZERO;
+    }
+    if (this.mantissa < 0 && !Number.isInteger(power)) {
+      throw new RangeError(`[BigNum] negative base to a fractional power ${power}`);
+    }
+
+    const log = power * this.abs().log10();
+    // Within double range Math.pow is exact for small integer results (2^3 = 8, not 7.999…)
+    if (Math.abs(log) < 300 && Math.abs(this.exponent) < 300) {
+      return new BigNum(Math.pow(this.toNumber(), power), 0);
+    }
+    const exponent = Math.floor(log);
+    const sign = this.mantissa < 0 && power % 2 !== 0 ? -1 : 1;
+    return new BigNum(sign * Math.pow(10, log - exponent), exponent);
+  }
+
+  /** -Infinity for 0, NaN for negatives — same as Math.log10 */
+  log10(): number {
+    if (this.isZero()) return -Infinity;
+    if (this.mantissa < 0) return NaN;
+    return Math.log10(this.mantissa) + this.exponent;
+  }
+
+  /** Logarithm in `base`, natural by default */
+  log(base = Math.E): number {
+    return this.log10() / Math.log10(base);
+  }
+
+  neg(): BigNum {
+    return new BigNum(-this.mantissa, this.exponent);
+  }
+
+  abs(): BigNum {
+    return this.mantissa < 0 ? this.neg() : this;
+  }
+
+  /** Values this large have no fractional part left in the mantissa */
+  floor(): BigNum {
+    if (this.exponent >= PRECISION_DIGITS) return this;
+    return new BigNum(Math.floor(this.toNumber()), 0);
+  }
+
+  // ─── Comparison ────────────────────────────────────────────
+
+  /** -1, 0 or 1 */
+  compare(other: BigNumSource): number {
+    const b = BigNum.from(other);
+    const signA = Math.sign(this.mantissa);
+    const signB = Math.sign(b.mantissa);
+    if (signA !== signB) return signA > signB ? 1 : -1;
+    if (signA === 0) return 0;
+
+    // Same sign: a bigger exponent means a bigger magnitude
+    const magnitude = this.exponent !== b.exponent
+      ? Math.sign(this.exponent - b.exponent)
+      : Math.sign(Math.abs(this.mantissa) - Math.abs(b.mantissa));
+    return magnitude * signA;
+  }
+
+  eq(other: BigNumSource): boolean { return this.compare(other) === 0; }
+  lt(other: BigNumSource): boolean { return this.compare(other) < 0; }
+  lte(other: BigNumSource): boolean { return this.compare(other) <= 0; }
+  gt(other: BigNumSource): boolean { return this.compare(other) > 0; }
+  gte(other: BigNumSource): boolean { return this.compare(other) >= 0; }
+
+  isZero(): boolean {
+    return this.mantissa === 0;
+  }
+
+  // ─── Conversion ────────────────────────────────────────────
+
+  /** ±Infinity past Number.MAX_VALUE */
+  toNumber(): number {
+    return scale(this.mantissa, this.exponent);
+  }
+
+  toString(): string {
+    if (this.exponent > -7 && this.exponent < 21) return String(this.toNumber());
+    return `${this.mantissa}e${this.exponent}`;
+  }
+
+  /** Lossless string, so JSON.stringify can hold any value */
+  toJSON(): string {
+    return `${this.mantissa}e${this.exponent}`;
+  }
+}
+
+/** value · 10^power without overflowing the intermediate power of ten */
+function scale(value: number, power: number): number {
+  if (power > 300 || power < -300) {
+    const half = Math.trunc(power / 2);
+    return value * Math.pow(10, half) * Math.pow(10, power - half);
+  }
+  return power >= 0 ? value * Math.pow(10, power) : value / Math.pow(10, -power);
+}
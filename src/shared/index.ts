@@ -5,3 +5,7 @@
 
 export * from './game-types';
 export * from './utils';
+export * from './amount';
+export * from './bignum';
+export * from './numberFormat';
+export * from './ringBuffer';
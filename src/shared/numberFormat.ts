@@ -0,0 +1,72 @@
+import { BigNum, type BigNumSource } from './bignum';
+
+/**
+ * How large numbers are shown: 1.5M, 1.50e6 or 1.50e6 with the exponent snapped
+ * to a multiple of 3. Picked by the player in Settings (PlayerSettings.numberNotation).
+ */
+export type NumberNotation = 'suffix' | 'scientific' | 'engineering';
+
+export const NUMBER_NOTATIONS: readonly NumberNotation[] = ['suffix', 'scientific', 'engineering'];
+
+/** Named suffixes up to 1e33, then aa, ab … zz */
+const NAMED_SUFFIXES = ['', 'K', 'M', 'B', 'T', 'Qa', 'Qi', 'Sx', 'Sp', 'Oc', 'No', 'Dc'];
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+const SUFFIXES = [
+  ...NAMED_SUFFIXES,
+  ...Array.from({ length: LETTERS.length ** 2 }, (_, i) => LETTERS[Math.floor(i / LETTERS.length)] + LETTERS[i % LETTERS.length]),
+];
+
+/** Below this everything is shown as is, whatever the notation */
+const PLAIN_LIMIT = 1000;
+
+/** 1.5K, 2.3aa; past the last suffix falls back to scientific */
+export function formatSuffix(value: BigNumSource, decimals = 1): string {
+  const num = BigNum.from(value);
+  if (num.abs().lt(PLAIN_LIMIT)) return formatPlain(num);
+
+  // Round first, so 999.96K becomes 1.0M rather than 1000.0K
+  const rounded = roundMantissa(num, decimals + (num.exponent % 3));
+  const group = Math.floor(rounded.exponent / 3);
+  if (group >= SUFFIXES.length) return formatScientific(num);
+
+  const scaled = rounded.mantissa * Math.pow(10, rounded.exponent - group * 3);
+  return scaled.toFixed(decimals) + SUFFIXES[group];
+}
+
+/** 1.50e6 */
+export function formatScientific(value: BigNumSource, decimals = 2): string {
+  const num = BigNum.from(value);
+  if (num.abs().lt(PLAIN_LIMIT)) return formatPlain(num);
+
+  const rounded = roundMantissa(num, decimals);
+  return `${rounded.mantissa.toFixed(decimals)}e${rounded.exponent}`;
+}
+
+/** 1.50e6, 15.0e6, 150e6 — three significant digits, exponent a multiple of 3 */
+export function formatEngineering(value: BigNumSource, significant = 3): string {
+  const num = BigNum.from(value);
+  if (num.abs().lt(PLAIN_LIMIT)) return formatPlain(num);
+
+  const rounded = roundMantissa(num, Math.max(0, significant - 1));
+  const group = Math.floor(rounded.exponent / 3) * 3;
+  const shift = rounded.exponent - group;
+  const scaled = rounded.mantissa * Math.pow(10, shift);
+  return `${scaled.toFixed(Math.max(0, significant - 1 - shift))}e${group}`;
+}
+
+export function formatNotation(value: BigNumSource, notation: NumberNotation): string {
+  switch (notation) {
+    case 'scientific': return formatScientific(value);
+    case 'engineering': return formatEngineering(value);
+    default: return formatSuffix(value);
+  }
+}
+
+function formatPlain(num: BigNum): string {
+  return num.toNumber().toString();
+}
+
+/** Mantissa rounded to `decimals`, carrying 9.995 → 1.00e+1 into the exponent */
+function roundMantissa(num: BigNum, decimals: number): BigNum {
+  return BigNum.fromParts(Number(num.mantissa.toFixed(decimals)), num.exponent);
+}
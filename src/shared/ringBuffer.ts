@@ -0,0 +1,48 @@
+/**
+ * Fixed-capacity FIFO: pushing past capacity overwrites the oldest entry.
+ * O(1) push without shifting arrays — for rolling histories (price charts, samples).
+ */
+export class RingBuffer<T> {
+  private readonly buffer: T[];
+  private head = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number, initial: Iterable<T> = []) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error(`[RingBuffer] capacity must be a positive integer, got ${capacity}`);
+    }
+    this.buffer = new Array(capacity);
+    for (const value of initial) this.push(value);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  push(value: T): void {
+    this.buffer[this.head] = value;
+    this.head = (this.head + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  /** Most recent entry */
+  last(): T | undefined {
+    return this.count === 0 ? undefined : this.buffer[(this.head - 1 + this.capacity) % this.capacity];
+  }
+
+  /** Entries oldest first */
+  toArray(): T[] {
+    const start = (this.head - this.count + this.capacity) % this.capacity;
+    const result: T[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.buffer[(start + i) % this.capacity]);
+    }
+    return result;
+  }
+
+  clear(): void {
+    this.head = 0;
+    this.count = 0;
+    this.buffer.fill(undefined as T);
+  }
+}
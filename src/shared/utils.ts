@@ -1,4 +1,6 @@
 import { Vector2 } from './types';
+import type { BigNumSource } from './bignum';
+import { formatNotation, type NumberNotation } from './numberFormat';
 
 /**
  * Математические утилиты
@@ -62,17 +64,15 @@ export class MathUtils {
  * Утилиты для форматирования
  */
 export class FormatUtils {
+  /** Notation used when formatNumber is called without one; synced from the player's settings */
+  static notation: NumberNotation = 'suffix';
+
   /**
-   * Форматирование больших чисел (1000 -> 1K, 1000000 -> 1M)
+   * Форматирование больших чисел (1000 -> 1K, 1000000 -> 1M), в т.ч. BigNum.
+   * Формат — по настройке игрока (FormatUtils.notation) или явно переданный
    */
-  static formatNumber(num: number): string {
-    if (num < 1000) return num.toString();
-    
-    const suffixes = ['', 'K', 'M', 'B', 'T', 'Qa', 'Qi', 'Sx', 'Sp'];
-    const magnitude = Math.floor(Math.log10(num) / 3);
-    const scaled = num / Math.pow(1000, magnitude);
-    
-    return scaled.toFixed(1) + suffixes[magnitude];
+  static formatNumber(num: BigNumSource, notation: NumberNotation = FormatUtils.notation): string {
+    return formatNotation(num, notation);
   }
 
   /**
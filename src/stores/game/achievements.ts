@@ -0,0 +1,38 @@
+import { computed } from 'nanostores';
+import { profileStore, type AchievementsState } from './profile';
+
+// ─── Stores ─────────────────────────────────────────────────
+
+export const achievementsStore = computed(profileStore, profile => profile.achievements);
+
+export const unlockedAchievementsStore = computed(achievementsStore, achievements => achievements.unlocked);
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const achievementActions = {
+  getState(): Readonly<AchievementsState> {
+    return profileStore.get().achievements;
+  },
+
+  isUnlocked(achievementId: string): boolean {
+    return achievementId in profileStore.get().achievements.unlocked;
+  },
+
+  setProgress(achievementId: string, value: number): void {
+    const achievements = profileStore.get().achievements;
+    profileStore.setKey('achievements', {
+      ...achievements,
+      progress: { ...achievements.progress, [achievementId]: value },
+    });
+  },
+
+  /** Record the unlock and drop the counter — it's no longer needed */
+  unlock(achievementId: string, at: number): void {
+    const { unlocked, progress } = profileStore.get().achievements;
+    const { [achievementId]: _done, ...remaining } = progress;
+    profileStore.setKey('achievements', {
+      unlocked: { ...unlocked, [achievementId]: at },
+      progress: remaining,
+    });
+  },
+};
@@ -0,0 +1,19 @@
+import { computed } from 'nanostores';
+import { profileStore, type ActiveBoostState } from './profile';
+
+// ─── Stores ─────────────────────────────────────────────────
+
+/** Every stored grant, including ones BoostSystem hasn't expired yet */
+export const boostsStore = computed(profileStore, profile => profile.boosts);
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const boostActions = {
+  getAll(): readonly ActiveBoostState[] {
+    return profileStore.get().boosts;
+  },
+
+  setAll(boosts: ActiveBoostState[]): void {
+    profileStore.setKey('boosts', boosts);
+  },
+};
@@ -0,0 +1,85 @@
+import { atom, computed } from 'nanostores';
+import { sanitizeAmount } from '@/shared/amount';
+import { BigNum } from '@/shared/bignum';
+import { profileStore } from './profile';
+import { prestigeActions } from './prestige';
+
+// ─── Types ──────────────────────────────────────────────────
+
+/** Resource amounts keyed by resource id — gains, costs, rates */
+export type ResourceAmounts = Record<string, number>;
+
+/** What the player holds, keyed by resource id. BigNum so balances keep growing past Number.MAX_VALUE */
+export type ResourceBalances = Record<string, BigNum>;
+
+/** Result of offline progress, shown once by the "welcome back" modal */
+export interface OfflineReport {
+  /** Real time away */
+  elapsedSeconds: number;
+  /** Time actually credited (after the offline cap) */
+  creditedSeconds: number;
+  /** Fraction of the online rate that was earned */
+  efficiency: number;
+  gains: ResourceAmounts;
+}
+
+// ─── Stores ─────────────────────────────────────────────────
+
+export const resourcesStore = computed(profileStore, profile => profile.resources);
+
+export const generatorsStore = computed(profileStore, profile => profile.generators);
+
+/** Set by EconomySystem after offline progress; the modal clears it */
+export const offlineReportStore = atom<OfflineReport | null>(null);
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const economyActions = {
+  getBalance(resourceId: string): BigNum {
+    return profileStore.get().resources[resourceId] ?? BigNum.ZERO;
+  },
+
+  /** Balance as a double for budget math, saturated at MAX_AMOUNT */
+  getAmount(resourceId: string): number {
+    return sanitizeAmount(economyActions.getBalance(resourceId).toNumber());
+  },
+
+  /**
+   * Add several resources in one store update. Credits count towards prestige earnings
+   * unless `earned` is false (refunds, starting amounts, market sales)
+   */
+  add(gains: ResourceAmounts, { earned = true }: { earned?: boolean } = {}): void {
+    const resources = { ...profileStore.get().resources };
+    for (const [id, amount] of Object.entries(gains)) {
+      resources[id] = (resources[id] ?? BigNum.ZERO).add(sanitizeAmount(amount));
+    }
+    profileStore.setKey('resources', resources);
+    if (earned && (gains.credits ?? 0) > 0) {
+      prestigeActions.recordEarnings(gains.credits);
+    }
+  },
+
+  canAfford(costs: ResourceAmounts): boolean {
+    const { resources } = profileStore.get();
+    return Object.entries(costs).every(([id, amount]) => (resources[id] ?? BigNum.ZERO).gte(amount));
+  },
+
+  /** Deduct all costs or nothing. Returns false if any resource is short */
+  spend(costs: ResourceAmounts): boolean {
+    if (!economyActions.canAfford(costs)) return false;
+    const resources = { ...profileStore.get().resources };
+    for (const [id, amount] of Object.entries(costs)) {
+      resources[id] = BigNum.max(0, (resources[id] ?? BigNum.ZERO).sub(sanitizeAmount(amount)));
+    }
+    profileStore.setKey('resources', resources);
+    return true;
+  },
+
+  setGeneratorCount(generatorId: string, count: number): void {
+    profileStore.setKey('generators', { ...profileStore.get().generators, [generatorId]: count });
+  },
+
+  setOfflineReport(report: OfflineReport | null): void {
+    offlineReportStore.set(report);
+  },
+};
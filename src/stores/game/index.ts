@@ -7,4 +7,17 @@
 // Profile and persistence
 export * from './profile';
 export * from './persistence';
+export * from './economy';
+export * from './upgrades';
+export * from './warehouse';
+export * from './production';
+export * from './research';
+export * from './market';
+export * from './prestige';
+export * from './achievements';
+export * from './missions';
+export * from './boosts';
+export * from './migrations';
+export { SaveCorruptedError } from './saveEnvelope';
+export type { SaveEnvelope } from './saveEnvelope';
 export * from './initialization';
\ No newline at end of file
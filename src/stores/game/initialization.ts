@@ -1,4 +1,5 @@
 import { logger } from '@/engine/logging';
+import { eventBus } from '@/engine/events/EventBus';
 import { profileActions } from './profile';
 import { persistenceService } from './persistence';
 import { audioManager } from '@/engine/audio/AudioManager';
@@ -22,7 +23,7 @@ export class ProfileInitializationService {
 
     try {
       // Load saved profile
-      const savedProfile = persistenceService.loadProfile();
+      const savedProfile = await persistenceService.loadProfile();
       
       if (savedProfile) {
         // Load profile data
@@ -55,6 +56,18 @@ export class ProfileInitializationService {
     return this.isInitialized;
   }
 
+  /**
+   * Switch to another save slot (or reload the active one after an import):
+   * flushes the current slot, loads the new profile and asks scenes to reload their world
+   */
+  public async switchSlot(slot: string): Promise<void> {
+    await persistenceService.setActiveSlot(slot);
+    const savedProfile = await persistenceService.loadProfile();
+    profileActions.replaceProfile(savedProfile ?? {});
+    eventBus.emit('save-slot-changed', { slot });
+    logger.info(`✅ Save slot "${slot}" loaded`, { fresh: !savedProfile, source: 'init' });
+  }
+
   /**
    * Reset profile and reinitialize
    */
@@ -63,7 +76,7 @@ export class ProfileInitializationService {
     
     this.isInitialized = false;
     profileActions.resetProfile();
-    persistenceService.clearAllData();
+    await persistenceService.clearAllData();
     
     await this.initialize();
   }
@@ -0,0 +1,22 @@
+import { computed } from 'nanostores';
+import { profileStore, type MarketState } from './profile';
+
+// ─── Stores ─────────────────────────────────────────────────
+
+export const marketStore = computed(profileStore, profile => profile.market);
+
+export const marketPricesStore = computed(marketStore, market => market.prices);
+
+export const priceHistoryStore = computed(marketStore, market => market.history);
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const marketActions = {
+  getState(): Readonly<MarketState> {
+    return profileStore.get().market;
+  },
+
+  setState(patch: Partial<MarketState>): void {
+    profileStore.setKey('market', { ...profileStore.get().market, ...patch });
+  },
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { BigNum } from '@/shared/bignum';
+import { migrateProfile, ProfileMigrationError } from './migrations';
+import { playerProfileSchema } from './profile';
+
+const CURRENT_VERSION = '1.11.0';
+
+describe('migrateProfile', () => {
+  it('brings a legacy settings blob up to the current profile', () => {
+    const legacy = { settings: { audio: { musicEnabled: false } }, version: '0.0.0' };
+    const { profile, path } = migrateProfile(legacy, '0.0.0', CURRENT_VERSION);
+
+    expect(path[0]).toBe('0.0.0');
+    expect(path[path.length - 1]).toBe(CURRENT_VERSION);
+    expect(profile.version).toBe(CURRENT_VERSION);
+
+    const result = playerProfileSchema.safeParse(profile);
+    expect(result.success).toBe(true);
+    expect(result.data?.settings.audio).toEqual({ musicEnabled: false, sfxEnabled: true });
+  });
+
+  it('turns 1.10.0 amounts into BigNums', () => {
+    const { profile } = migrateProfile(
+      { ...migrateProfile({}, '0.0.0', '1.10.0').profile, resources: { credits: 1e300 } },
+      '1.10.0',
+      CURRENT_VERSION,
+    );
+    const parsed = playerProfileSchema.parse(profile);
+    expect(parsed.resources.credits).toBeInstanceOf(BigNum);
+    expect(parsed.resources.credits.mul(1e100).toJSON()).toBe('1e400');
+  });
+
+  it('leaves the input untouched', () => {
+    const legacy = { settings: { audio: { sfxEnabled: false } } };
+    migrateProfile(legacy, '0.0.0', CURRENT_VERSION);
+    expect(legacy).toEqual({ settings: { audio: { sfxEnabled: false } } });
+  });
+
+  it('rejects versions with no path and junk settings', () => {
+    expect(() => migrateProfile({}, '0.5.0', CURRENT_VERSION)).toThrow(ProfileMigrationError);
+    expect(() => migrateProfile({ settings: 'loud' }, '0.0.0', CURRENT_VERSION)).toThrow(ProfileMigrationError);
+  });
+});
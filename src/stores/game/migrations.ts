@@ -0,0 +1,206 @@
+import { logger } from '@/engine/logging';
+import { BigNum } from '@/shared/bignum';
+
+/** Raw profile blob as it comes out of storage, before validation */
+export type ProfileData = Record<string, unknown>;
+
+export type ProfileMigration = (profile: ProfileData) => ProfileData;
+
+interface MigrationStep {
+  from: string;
+  to: string;
+  migrate: ProfileMigration;
+}
+
+export interface MigrationResult {
+  profile: ProfileData;
+  /** Versions the data passed through, starting with the saved one */
+  path: string[];
+}
+
+export class ProfileMigrationError extends Error {
+  constructor(message: string, public readonly fromVersion: string) {
+    super(message);
+    this.name = 'ProfileMigrationError';
+  }
+}
+
+/** One outgoing step per version — the chain must be linear */
+const migrations = new Map<string, MigrationStep>();
+
+/**
+ * Register an upgrade of the saved profile from one version to the next.
+ * `fn` receives a copy of the old data and returns the new shape;
+ * `version` is set to `to` automatically.
+ *
+ *   registerMigration('1.0.0', '1.1.0', (p) => ({ ...p, stats: { clicks: 0 } }));
+ */
+export function registerMigration(from: string, to: string, fn: ProfileMigration): void {
+  if (from === to) {
+    throw new Error(`[migrations] migration ${from} → ${to} does nothing`);
+  }
+  const existing = migrations.get(from);
+  if (existing && existing.to !== to) {
+    throw new Error(`[migrations] ${from} already migrates to ${existing.to}, cannot add ${from} → ${to}`);
+  }
+  migrations.set(from, { from, to, migrate: fn });
+}
+
+/**
+ * Run every registered step from `fromVersion` up to `toVersion`.
+ * Throws ProfileMigrationError if the chain is broken or a step fails.
+ */
+export function migrateProfile(data: ProfileData, fromVersion: string, toVersion: string): MigrationResult {
+  const steps = resolvePath(fromVersion, toVersion);
+  let profile: ProfileData = structuredClone(data);
+
+  for (const step of steps) {
+    try {
+      profile = { ...step.migrate(profile), version: step.to };
+    } catch (error) {
+      throw new ProfileMigrationError(
+        `Migration ${step.from} → ${step.to} failed: ${(error as Error).message}`,
+        fromVersion
+      );
+    }
+    logger.debug('🔀 Profile migration step applied', { from: step.from, to: step.to, source: 'persistence' });
+  }
+
+  return { profile, path: [fromVersion, ...steps.map(step => step.to)] };
+}
+
+function resolvePath(from: string, to: string): MigrationStep[] {
+  const steps: MigrationStep[] = [];
+  const visited = new Set<string>([from]);
+  let version = from;
+
+  while (version !== to) {
+    const step = migrations.get(version);
+    if (!step) {
+      throw new ProfileMigrationError(`No migration from ${version} (target ${to})`, from);
+    }
+    if (visited.has(step.to)) {
+      throw new ProfileMigrationError(`Migration cycle at ${step.to}`, from);
+    }
+    visited.add(step.to);
+    steps.push(step);
+    version = step.to;
+  }
+
+  return steps;
+}
+
+function asRecord(value: unknown, path: string): ProfileData {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${path} is not an object`);
+  }
+  return value as ProfileData;
+}
+
+/** Saved double → BigNum toJSON string; anything else is left for the schema to reject */
+function toAmountJSON(value: unknown): unknown {
+  return typeof value === 'number' ? BigNum.from(value).toJSON() : value;
+}
+
+/* ————— Registered migrations —————
+ * Bump CURRENT_VERSION in persistence.ts and add a step here whenever PlayerProfile changes shape.
+ */
+
+// 1.0.0 — first versioned profile. Saves without a version (legacy settings, early builds)
+// keep their settings; missing audio flags default to on
+registerMigration('0.0.0', '1.0.0', (profile) => {
+  const settings = asRecord(profile.settings ?? {}, 'settings');
+  const audio = asRecord(settings.audio ?? {}, 'settings.audio');
+  return {
+    ...profile,
+    settings: {
+      ...settings,
+      audio: {
+        musicEnabled: typeof audio.musicEnabled === 'boolean' ? audio.musicEnabled : true,
+        sfxEnabled: typeof audio.sfxEnabled === 'boolean' ? audio.sfxEnabled : true,
+      },
+      version: '1.0.0',
+    },
+  };
+});
+
+// 1.1.0 — economy: resource amounts and owned generators
+registerMigration('1.0.0', '1.1.0', (profile) => ({
+  ...profile,
+  resources: {},
+  generators: {},
+}));
+
+// 1.2.0 — upgrade levels
+registerMigration('1.1.0', '1.2.0', (profile) => ({
+  ...profile,
+  upgrades: {},
+}));
+
+// 1.3.0 — warehouse inventory
+registerMigration('1.2.0', '1.3.0', (profile) => ({
+  ...profile,
+  warehouse: { stacks: [], overflowPolicy: 'pause' },
+}));
+
+// 1.4.0 — refinery production slots
+registerMigration('1.3.0', '1.4.0', (profile) => ({
+  ...profile,
+  production: [],
+}));
+
+// 1.5.0 — research tree
+registerMigration('1.4.0', '1.5.0', (profile) => ({
+  ...profile,
+  research: { completed: [], active: null },
+}));
+
+// 1.6.0 — market prices
+registerMigration('1.5.0', '1.6.0', (profile) => ({
+  ...profile,
+  market: { prices: {}, history: {}, rngState: 0 },
+}));
+
+// 1.7.0 — prestige. Earnings before this version weren't tracked and start from 0
+registerMigration('1.6.0', '1.7.0', (profile) => ({
+  ...profile,
+  prestige: { points: 0, resets: 0, runEarnings: 0, lifetimeEarnings: 0 },
+}));
+
+// 1.8.0 — achievements
+registerMigration('1.7.0', '1.8.0', (profile) => ({
+  ...profile,
+  achievements: { unlocked: {}, progress: {} },
+}));
+
+// 1.9.0 — daily/weekly missions and login streak
+registerMigration('1.8.0', '1.9.0', (profile) => ({
+  ...profile,
+  missions: {
+    daily: { periodKey: '', slots: [] },
+    weekly: { periodKey: '', slots: [] },
+    streak: { count: 0, lastDay: null, claimedDay: null },
+    lastSeenAt: null,
+  },
+}));
+
+// 1.10.0 — timed boosts
+registerMigration('1.9.0', '1.10.0', (profile) => ({
+  ...profile,
+  boosts: [],
+}));
+
+// 1.11.0 — resource amounts and prestige earnings are BigNums, saved as their toJSON string
+registerMigration('1.10.0', '1.11.0', (profile) => {
+  const resources = asRecord(profile.resources ?? {}, 'resources');
+  const prestige = asRecord(profile.prestige ?? {}, 'prestige');
+  return {
+    ...profile,
+    resources: Object.fromEntries(Object.entries(resources).map(([id, amount]) => [id, toAmountJSON(amount)])),
+    prestige: {
+      ...prestige,
+      runEarnings: toAmountJSON(prestige.runEarnings),
+      lifetimeEarnings: toAmountJSON(prestige.lifetimeEarnings),
+    },
+  };
+});
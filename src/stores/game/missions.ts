@@ -0,0 +1,32 @@
+import { computed } from 'nanostores';
+import { profileStore, type MissionBoardState, type MissionPeriod, type MissionsState } from './profile';
+
+// ─── Stores ─────────────────────────────────────────────────
+
+export const missionsStore = computed(profileStore, profile => profile.missions);
+
+export const loginStreakStore = computed(missionsStore, missions => missions.streak);
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const missionActions = {
+  getState(): Readonly<MissionsState> {
+    return profileStore.get().missions;
+  },
+
+  getBoard(period: MissionPeriod): Readonly<MissionBoardState> {
+    return profileStore.get().missions[period];
+  },
+
+  setBoard(period: MissionPeriod, board: MissionBoardState): void {
+    profileStore.setKey('missions', { ...profileStore.get().missions, [period]: board });
+  },
+
+  setStreak(streak: MissionsState['streak']): void {
+    profileStore.setKey('missions', { ...profileStore.get().missions, streak });
+  },
+
+  setLastSeenAt(lastSeenAt: number): void {
+    profileStore.setKey('missions', { ...profileStore.get().missions, lastSeenAt });
+  },
+};
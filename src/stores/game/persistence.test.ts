@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { eventBus, type AppEvents } from '@/engine/events/EventBus';
+import { BigNum } from '@/shared/bignum';
+import { PersistenceService } from './persistence';
+import { playerProfileSchema, profileStore } from './profile';
+import { createEnvelope } from './saveEnvelope';
+
+const PROFILE_KEY = 'idle-neon-miner-profile';
+
+/** Current-version profile in its saved form, holding `credits` */
+function savedProfile(credits: number) {
+  return { ...JSON.parse(JSON.stringify(profileStore.get())), resources: { credits: BigNum.from(credits).toJSON() } };
+}
+
+describe('PersistenceService.loadProfile', () => {
+  let service: PersistenceService;
+  let recovered: AppEvents['save-recovered'][];
+  let unsub: () => void;
+
+  beforeEach(() => {
+    localStorage.clear();
+    service = new PersistenceService();
+    recovered = [];
+    unsub = eventBus.on('save-recovered', event => recovered.push(event));
+  });
+
+  afterEach(() => {
+    unsub();
+    service.destroy();
+  });
+
+  it('falls back to the newest backup that verifies', async () => {
+    const tampered = { ...createEnvelope(savedProfile(1), '1.11.0'), data: savedProfile(1_000_000) };
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(tampered));
+    localStorage.setItem(`${PROFILE_KEY}.bak1`, '{"data":');
+    localStorage.setItem(`${PROFILE_KEY}.bak2`, JSON.stringify(createEnvelope(savedProfile(42), '1.11.0')));
+
+    const profile = await service.loadProfile();
+
+    expect(profile?.resources?.credits.toNumber()).toBe(42);
+    expect(recovered).toEqual([{ slot: 'main', type: 'profile', source: `${PROFILE_KEY}.bak2` }]);
+  });
+
+  it('migrates an unversioned save and keeps the original', async () => {
+    const legacy = JSON.stringify({ data: { settings: { audio: { musicEnabled: false } } }, timestamp: 1 });
+    localStorage.setItem(PROFILE_KEY, legacy);
+
+    const profile = await service.loadProfile();
+
+    expect(playerProfileSchema.safeParse(JSON.parse(JSON.stringify(profile))).success).toBe(true);
+    expect(profile?.settings?.audio.musicEnabled).toBe(false);
+    expect(localStorage.getItem('idle-neon-miner-profile-backup')).toBe(legacy);
+  });
+
+  it('returns null when no copy is usable', async () => {
+    localStorage.setItem(PROFILE_KEY, 'not json');
+    expect(await service.loadProfile()).toBeNull();
+  });
+});
@@ -1,6 +1,17 @@
 import { logger } from '@/engine/logging';
 import { eventBus } from '@/engine/events/EventBus';
-import { PlayerProfile, PlayerSettings, profileStore } from './profile';
+import { SCENE_SNAPSHOT_VERSION, type SceneSnapshot } from '@/engine/serialization/types';
+import { LocalStorageAdapter, MemoryStorageAdapter, type StorageAdapter } from '@/engine/storage';
+import { PlayerProfile, PlayerSettings, playerProfileSchema, profileStore } from './profile';
+import { migrateProfile, type ProfileData } from './migrations';
+import {
+  createEnvelope,
+  decodeBase64,
+  encodeBase64,
+  parseEnvelope,
+  SaveCorruptedError,
+  type SaveEnvelope,
+} from './saveEnvelope';
 
 /**
  * Storage keys for different data types
@@ -8,22 +19,96 @@ import { PlayerProfile, PlayerSettings, profileStore } from './profile';
 const STORAGE_KEYS = {
   PROFILE: 'idle-neon-miner-profile',
   SETTINGS: 'idle-neon-miner-settings', // Legacy support
+  WORLD: 'idle-neon-miner-world-v1',
+  PROFILE_BACKUP: 'idle-neon-miner-profile-backup',
+  SLOTS: 'idle-neon-miner-slots',
 } as const;
 
+/** Slot that owns the unsuffixed keys, so saves from before slots load as-is */
+export const DEFAULT_SAVE_SLOT = 'main';
+
+/** Rotating copies per key: `<key>.bak1` is the newest */
+const MAX_BACKUPS = 3;
+/** Minimum age gap between backups, so they span minutes rather than the last few autosaves */
+const BACKUP_INTERVAL_MS = 30_000;
+
+const SLOT_NAME_PATTERN = /^[a-z0-9_-]{1,32}$/i;
+const SLOT_EXPORT_FORMAT = 1;
+
+type SaveType = 'profile' | 'world';
+
+export interface SaveSlotInfo {
+  slot: string;
+  /** Timestamp of the last profile save; null if the slot holds no readable profile */
+  updatedAt: number | null;
+  active: boolean;
+}
+
+interface SlotsMeta {
+  active: string;
+  slots: string[];
+}
+
+/** Decoded `exportSlot` payload. Envelopes are kept as raw strings so checksums still verify on import */
+interface SlotExport {
+  format: number;
+  slot: string;
+  exportedAt: number;
+  profile: string | null;
+  world: string | null;
+}
+
+function slotKey(base: string, slot: string): string {
+  return slot === DEFAULT_SAVE_SLOT ? base : `${base}:${slot}`;
+}
+
+function backupKey(key: string, index: number): string {
+  return `${key}.bak${index}`;
+}
+
+/** A STORAGE_KEYS key, its slot variants (`:slot`) and their rotating backups (`.bakN`) */
+function isSaveKey(key: string): boolean {
+  return Object.values(STORAGE_KEYS).some(base => key === base || key.startsWith(`${base}:`) || key.startsWith(`${base}.bak`));
+}
+
+/** Set in the selected backend once legacy localStorage saves have been moved into it */
+const STORAGE_MIGRATION_MARKER = 'idle-neon-miner-storage-migrated';
+
 /**
  * Current data version for migration
  */
-const CURRENT_VERSION = '1.0.0';
+const CURRENT_VERSION = '1.11.0';
+
+/** Whether a stored profile copy loads without migration: intact, current version, valid */
+function isCurrentProfile(raw: string): boolean {
+  try {
+    const envelope = parseEnvelope(raw);
+    return envelope.version === CURRENT_VERSION && playerProfileSchema.safeParse(envelope.data).success;
+  } catch {
+    return false;
+  }
+}
 
 /**
- * Persistence service for saving/loading game data
+ * Persistence service for saving/loading game data.
+ * Writes go through a StorageAdapter: localStorage until GameBootstrap selects the platform backend.
+ *
+ * Every key holds a checksummed SaveEnvelope and up to MAX_BACKUPS rotated copies.
+ * Loading walks main → .bak1 → .bak2 … and takes the first copy that verifies.
+ * Data is grouped into named slots; the active one is kept in STORAGE_KEYS.SLOTS.
  */
 export class PersistenceService {
   private isEnabled = true;
+  private storage: StorageAdapter = new MemoryStorageAdapter();
   private saveTimeout: ReturnType<typeof setTimeout> | null = null;
   private readonly SAVE_DELAY = 1000; // Save after 1 second of inactivity
+  private readonly MAX_SAVE_DELAY = 10_000; // ...but no later than this while changes keep coming
+  private pendingSaveSince: number | null = null;
+  private profileSavedAt: number | null = null;
   private disposables: Array<() => void> = [];
   private destroyed = false;
+  private worldProvider: (() => SceneSnapshot | null) | null = null;
+  private slots: SlotsMeta = { active: DEFAULT_SAVE_SLOT, slots: [DEFAULT_SAVE_SLOT] };
 
   constructor() {
     this.checkStorageAvailability();
@@ -34,11 +119,6 @@ export class PersistenceService {
    * Initialize event listeners for auto-save
    */
   private initEventListeners(): void {
-    if (!this.isEnabled) {
-      logger.warn('⚠️ Persistence disabled: storage unavailable', { source: 'persistence' });
-      return;
-    }
-
     const offProfileChanged = eventBus.on('profile-changed', (data) => {
       if (this.destroyed) return;
       this.scheduleSave('profile', data.profile);
@@ -46,16 +126,16 @@ export class PersistenceService {
 
     const offProfileReset = eventBus.on('profile-reset', () => {
       if (this.destroyed) return;
-      this.clearAllData();
+      void this.clearAllData();
     });
 
     const onBeforeUnload = () => {
-      this.saveImmediately();
+      void this.saveImmediately();
     };
 
     const onVisibilityChange = () => {
       if (document.hidden) {
-        this.saveImmediately();
+        void this.saveImmediately();
       }
     };
 
@@ -71,28 +151,85 @@ export class PersistenceService {
   }
 
   /**
-   * Check if localStorage is available
+   * Check if localStorage is available and use it as the initial backend
    */
   private checkStorageAvailability(): void {
-    try {
-      const testKey = '__storage_test__';
-      localStorage.setItem(testKey, 'test');
-      localStorage.removeItem(testKey);
+    if (LocalStorageAdapter.isSupported()) {
+      this.storage = new LocalStorageAdapter();
       this.isEnabled = true;
       logger.info('💾 LocalStorage is available', { source: 'persistence' });
-    } catch (error) {
+    } else {
       this.isEnabled = false;
-      logger.warn('⚠️ LocalStorage not available, persistence disabled', { 
-        error, 
-        source: 'persistence' 
+      logger.warn('⚠️ LocalStorage not available, persistence disabled until a backend is selected', {
+        source: 'persistence'
+      });
+    }
+  }
+
+  /**
+   * Switch to the platform backend (see selectStorageAdapter). Moves existing
+   * localStorage saves into it on first use, so call before anything is loaded.
+   */
+  public async setAdapter(adapter: StorageAdapter): Promise<void> {
+    this.storage = adapter;
+    this.isEnabled = !(adapter instanceof MemoryStorageAdapter);
+
+    if (!(adapter instanceof LocalStorageAdapter) && !(adapter instanceof MemoryStorageAdapter)) {
+      await this.migrateFromLocalStorage();
+    }
+    await this.loadSlotsMeta();
+  }
+
+  /**
+   * One-time move of saves written by older builds: every slot and backup key, not just the
+   * main ones. localStorage is cleared only after the copies and the marker are written,
+   * so an interrupted move is simply retried.
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
+    if (!LocalStorageAdapter.isSupported()) return;
+
+    try {
+      if (await this.storage.getItem(STORAGE_MIGRATION_MARKER)) return;
+
+      const keys: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key !== null && isSaveKey(key)) keys.push(key);
+      }
+
+      const moved: string[] = [];
+      for (const key of keys) {
+        const value = localStorage.getItem(key);
+        // Never overwrite data the new backend already has
+        if (value === null || (await this.storage.getItem(key)) !== null) continue;
+        await this.storage.setItem(key, value);
+        moved.push(key);
+      }
+
+      await this.storage.setItem(STORAGE_MIGRATION_MARKER, JSON.stringify({
+        from: 'localStorage',
+        timestamp: Date.now(),
+      }));
+      keys.forEach(key => localStorage.removeItem(key));
+
+      logger.info(`📦 Moved ${moved.length} saves from localStorage to ${this.storage.name}`, {
+        keys: moved,
+        source: 'persistence'
+      });
+    } catch (error) {
+      logger.error('❌ Failed to move saves from localStorage:', error as Error, {
+        backend: this.storage.name,
+        source: 'persistence'
       });
     }
   }
 
   /**
-   * Schedule a save operation with debouncing
+   * Schedule a save operation with debouncing. The slot is fixed now,
+   * so a pending save never lands in a slot switched to in the meantime.
+   * Continuous changes (idle income) can't postpone the save past MAX_SAVE_DELAY.
    */
-  private scheduleSave(type: string, data: any): void {
+  private scheduleSave(type: SaveType, data: any): void {
     if (!this.isEnabled || this.destroyed) return;
 
     // Clear existing timeout
@@ -102,159 +239,548 @@ export class PersistenceService {
     }
 
     // Schedule new save
+    const now = Date.now();
+    this.pendingSaveSince ??= now;
+    const delay = Math.max(0, Math.min(this.SAVE_DELAY, this.pendingSaveSince + this.MAX_SAVE_DELAY - now));
+    const slot = this.slots.active;
     this.saveTimeout = setTimeout(() => {
-      this.performSave(type, data);
-    }, this.SAVE_DELAY);
+      this.saveTimeout = null;
+      this.pendingSaveSince = null;
+      void this.performSave(type, data, slot);
+    }, delay);
 
-    logger.debug('⏰ Scheduled save:', { type, delay: this.SAVE_DELAY });
+    logger.debug('⏰ Scheduled save:', { type, slot, delay });
+  }
+
+  private cancelScheduledSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    this.pendingSaveSince = null;
   }
 
   /**
-   * Perform immediate save
+   * Perform immediate save. Snapshots are taken synchronously; async backends
+   * finish the write after the page is hidden (IndexedDB commits on unload in practice).
    */
-  private saveImmediately(): void {
+  private async saveImmediately(): Promise<void> {
     if (!this.isEnabled || this.destroyed) return;
 
     // Clear any pending saves
-    if (this.saveTimeout) {
-      clearTimeout(this.saveTimeout);
-      this.saveTimeout = null;
-    }
+    this.cancelScheduledSave();
 
     // Save current profile state - no need to emit event, just save directly
     const currentProfile = profileStore.get();
-    this.performSave('profile', currentProfile);
+    const writes = [this.performSave('profile', currentProfile)];
+
+    if (this.worldProvider) {
+      writes.push(this.saveWorldFrom(this.worldProvider));
+    }
+    await Promise.all(writes);
   }
 
   /**
-   * Perform the actual save operation
+   * Perform the actual save operation: rotate backups, then overwrite the main key
    */
-  private performSave(type: string, data: any): void {
+  private async performSave(type: SaveType, data: any, slot = this.slots.active): Promise<void> {
     if (!this.isEnabled || this.destroyed) return;
 
+    const key = this.keyFor(type, slot);
     try {
-      const saveData = {
-        data,
-        timestamp: Date.now(),
-        version: CURRENT_VERSION,
-      };
-
-      const key = type === 'profile' ? STORAGE_KEYS.PROFILE : STORAGE_KEYS.SETTINGS;
-      localStorage.setItem(key, JSON.stringify(saveData));
+      const json = JSON.stringify(createEnvelope(data, CURRENT_VERSION));
+      await this.rotateBackups(key);
+      await this.storage.setItem(key, json);
+      await this.registerSlot(slot);
 
       logger.debug('💾 Data saved:', { 
         type, 
         key, 
-        size: JSON.stringify(saveData).length 
+        backend: this.storage.name,
+        size: json.length 
       });
     } catch (error) {
-      logger.error('❌ Failed to save data:', error as Error, { type, source: 'persistence' });
+      logger.error('❌ Failed to save data:', error as Error, { type, key, source: 'persistence' });
+    }
+  }
+
+  /**
+   * Shift `.bak1..N` down and copy the current save into `.bak1`.
+   * A corrupted current save is never rotated in — it would push out a good backup.
+   */
+  private async rotateBackups(key: string): Promise<void> {
+    const current = await this.storage.getItem(key);
+    if (!current) return;
+
+    let currentEnvelope: SaveEnvelope;
+    try {
+      currentEnvelope = parseEnvelope(current);
+    } catch {
+      return;
+    }
+
+    const newest = await this.storage.getItem(backupKey(key, 1));
+    if (newest) {
+      try {
+        if (currentEnvelope.timestamp - parseEnvelope(newest).timestamp < BACKUP_INTERVAL_MS) return;
+      } catch {
+        // Corrupted .bak1 — overwrite it
+      }
+    }
+
+    for (let index = MAX_BACKUPS; index > 1; index--) {
+      const older = await this.storage.getItem(backupKey(key, index - 1));
+      if (older !== null) await this.storage.setItem(backupKey(key, index), older);
+    }
+    await this.storage.setItem(backupKey(key, 1), current);
+  }
+
+  /**
+   * Try the main key, then backups newest-first (then `extraKeys`), until `accept`
+   * returns a value. Copies that fail the checksum or `accept` are skipped.
+   */
+  private async loadWithFallback<T>(
+    type: SaveType,
+    slot: string,
+    accept: (envelope: SaveEnvelope, raw: string, key: string) => Promise<T | null>,
+    extraKeys: string[] = []
+  ): Promise<T | null> {
+    const key = this.keyFor(type, slot);
+    let sawData = false;
+
+    for (const candidate of this.candidateKeys(type, slot, extraKeys)) {
+      const raw = await this.storage.getItem(candidate);
+      if (raw === null) continue;
+      sawData = true;
+
+      let envelope: SaveEnvelope;
+      try {
+        envelope = parseEnvelope(raw);
+      } catch (error) {
+        logger.warn(`⚠️ Corrupted save in ${candidate}, trying next copy`, {
+          reason: (error as Error).message,
+          source: 'persistence'
+        });
+        continue;
+      }
+
+      const value = await accept(envelope, raw, candidate);
+      if (value === null) continue;
+
+      if (candidate !== key && !extraKeys.includes(candidate)) {
+        logger.warn(`🩹 ${type} recovered from backup ${candidate}`, { slot, source: 'persistence' });
+        eventBus.emit('save-recovered', { slot, type, source: candidate });
+      }
+      return value;
+    }
+
+    if (sawData) {
+      logger.error(`❌ No valid ${type} save in slot "${slot}"`, new SaveCorruptedError('All copies failed'), {
+        slot,
+        source: 'persistence'
+      });
     }
+    return null;
   }
 
   /**
    * Load profile data from storage
    */
-  public loadProfile(): Partial<PlayerProfile> | null {
+  public async loadProfile(): Promise<Partial<PlayerProfile> | null> {
     if (!this.isEnabled) return null;
 
+    const slot = this.slots.active;
+    this.profileSavedAt = null;
     try {
-      // Try to load new profile format first
-      let saved = localStorage.getItem(STORAGE_KEYS.PROFILE);
-      let isLegacy = false;
-
-      // Fallback to legacy settings if profile not found
-      if (!saved) {
-        saved = localStorage.getItem(STORAGE_KEYS.SETTINGS);
-        isLegacy = true;
+      // Legacy settings key predates slots and belongs to the default one
+      const legacyKeys = slot === DEFAULT_SAVE_SLOT ? [STORAGE_KEYS.SETTINGS] : [];
+      await this.backupProfileBeforeLoad(slot, legacyKeys);
+      const profile = await this.loadWithFallback(
+        'profile',
+        slot,
+        (envelope, _raw, key) => this.acceptProfile(envelope, key === STORAGE_KEYS.SETTINGS, slot),
+        legacyKeys
+      );
+
+      if (!profile) {
+        logger.info('📥 No saved profile found', { slot, source: 'persistence' });
       }
+      return profile;
+    } catch (error) {
+      logger.error('❌ Failed to load profile:', error as Error, { source: 'persistence' });
+      return null;
+    }
+  }
 
-      if (!saved) {
-        logger.info('📥 No saved profile found', { source: 'persistence' });
-        return null;
-      }
+  /**
+   * When the last loaded profile was written (ms since epoch); null if nothing was loaded.
+   * Used for offline progress
+   */
+  public getProfileSavedAt(): number | null {
+    return this.profileSavedAt;
+  }
+
+  /**
+   * Keep the copy the load starts from under PROFILE_BACKUP unless it loads as is (current
+   * version, valid). Written once per load, before any copy is migrated or skipped, so the
+   * original blob survives whichever copy ends up accepted
+   */
+  private async backupProfileBeforeLoad(slot: string, extraKeys: string[]): Promise<void> {
+    for (const candidate of this.candidateKeys('profile', slot, extraKeys)) {
+      const raw = await this.storage.getItem(candidate);
+      if (raw === null) continue;
+      if (!isCurrentProfile(raw)) await this.storage.setItem(slotKey(STORAGE_KEYS.PROFILE_BACKUP, slot), raw);
+      return;
+    }
+  }
 
-      const parsed = JSON.parse(saved);
-      
-      // Check version compatibility
-      if (parsed.version !== CURRENT_VERSION) {
-        logger.warn('⚠️ Profile version mismatch, using defaults', { 
-          saved: parsed.version, 
+  /**
+   * Migrate and validate one stored copy of the profile; null rejects the copy.
+   * The original is already kept by backupProfileBeforeLoad
+   */
+  private async acceptProfile(
+    envelope: SaveEnvelope,
+    isLegacy: boolean,
+    slot: string
+  ): Promise<PlayerProfile | null> {
+    const savedVersion: string = envelope.version ?? '0.0.0';
+    const migrationBackupKey = slotKey(STORAGE_KEYS.PROFILE_BACKUP, slot);
+
+    // If legacy settings, wrap in profile structure
+    let data: ProfileData = isLegacy
+      ? { settings: envelope.data, version: savedVersion }
+      : envelope.data as ProfileData;
+
+    if (savedVersion !== CURRENT_VERSION) {
+      try {
+        const { profile, path } = migrateProfile(data, savedVersion, CURRENT_VERSION);
+        data = profile;
+        logger.info('🔀 Profile migrated:', { path, source: 'persistence' });
+        eventBus.emit('profile-migrated', {
+          from: savedVersion,
+          to: CURRENT_VERSION,
+          path,
+          backupKey: migrationBackupKey,
+        });
+      } catch (error) {
+        logger.error('❌ Profile migration failed', error as Error, {
+          saved: savedVersion,
           current: CURRENT_VERSION,
-          source: 'persistence' 
+          backupKey: migrationBackupKey,
+          source: 'persistence'
         });
         return null;
       }
+    }
 
-      logger.info('📥 Profile loaded:', { 
-        version: parsed.version,
-        timestamp: new Date(parsed.timestamp).toISOString(),
-        isLegacy,
-        source: 'persistence' 
+    const result = playerProfileSchema.safeParse(data);
+    if (!result.success) {
+      logger.error('❌ Saved profile is invalid', result.error, {
+        version: savedVersion,
+        issues: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+        backupKey: migrationBackupKey,
+        source: 'persistence'
       });
+      return null;
+    }
 
-      // If legacy settings, wrap in profile structure
-      if (isLegacy) {
-        return { settings: parsed.data };
-      }
+    this.profileSavedAt = envelope.timestamp;
+    logger.info('📥 Profile loaded:', { 
+      slot,
+      version: savedVersion,
+      timestamp: new Date(envelope.timestamp).toISOString(),
+      isLegacy,
+      source: 'persistence' 
+    });
+
+    return result.data;
+  }
+
+  /**
+   * Load settings data from storage (legacy support)
+   */
+  public async loadSettings(): Promise<Partial<PlayerSettings> | null> {
+    const profile = await this.loadProfile();
+    return profile?.settings || null;
+  }
 
-      return parsed.data;
+  /**
+   * Register the source of the world snapshot, saved together with the profile
+   * when the page is hidden or unloaded.
+   */
+  public setWorldProvider(provider: () => SceneSnapshot | null): void {
+    this.worldProvider = provider;
+  }
+
+  /**
+   * Save through `provider` one last time and detach it — unless it was already
+   * detached by a slot switch or import, in which case its world is stale.
+   */
+  public releaseWorldProvider(provider: () => SceneSnapshot | null): void {
+    if (this.worldProvider !== provider) return;
+    this.worldProvider = null;
+    void this.saveWorldFrom(provider);
+  }
+
+  private async saveWorldFrom(provider: () => SceneSnapshot | null): Promise<void> {
+    let snapshot: SceneSnapshot | null;
+    try {
+      snapshot = provider();
     } catch (error) {
-      logger.error('❌ Failed to load profile:', error as Error, { source: 'persistence' });
+      logger.error('❌ Failed to snapshot world:', error as Error, { source: 'persistence' });
+      return;
+    }
+    if (snapshot) await this.performSave('world', snapshot);
+  }
+
+  /**
+   * Save world snapshot immediately
+   */
+  public async saveWorld(snapshot: SceneSnapshot): Promise<void> {
+    await this.performSave('world', snapshot);
+  }
+
+  /**
+   * Load world snapshot from storage
+   */
+  public async loadWorld(): Promise<SceneSnapshot | null> {
+    if (!this.isEnabled) return null;
+
+    try {
+      return await this.loadWithFallback('world', this.slots.active, async (envelope) => {
+        // The envelope carries the profile version; the world has its own snapshot format
+        const snapshot = envelope.data as SceneSnapshot;
+        if (snapshot?.version !== SCENE_SNAPSHOT_VERSION) {
+          logger.warn('⚠️ World version mismatch, starting fresh', {
+            saved: snapshot?.version,
+            current: SCENE_SNAPSHOT_VERSION,
+            source: 'persistence'
+          });
+          return null;
+        }
+
+        logger.info('📥 World loaded:', {
+          scene: snapshot.scene,
+          objects: snapshot.objects.length,
+          timestamp: new Date(envelope.timestamp).toISOString(),
+          source: 'persistence'
+        });
+        return snapshot;
+      });
+    } catch (error) {
+      logger.error('❌ Failed to load world:', error as Error, { source: 'persistence' });
       return null;
     }
   }
 
+  /* ————— Slots ————— */
+
+  public getActiveSlot(): string {
+    return this.slots.active;
+  }
+
+  public async listSlots(): Promise<SaveSlotInfo[]> {
+    const infos: SaveSlotInfo[] = [];
+    for (const slot of this.slots.slots) {
+      const updatedAt = await this.loadWithFallback('profile', slot, async envelope => envelope.timestamp);
+      infos.push({ slot, updatedAt, active: slot === this.slots.active });
+    }
+    return infos;
+  }
+
   /**
-   * Load settings data from storage (legacy support)
+   * Make `slot` active. The current slot is flushed first (profile and world),
+   * and the world provider is detached — the scene must reload for the new slot.
+   * Loading the new profile is up to the caller (profileInitService.switchSlot).
    */
-  public loadSettings(): Partial<PlayerSettings> | null {
-    const profile = this.loadProfile();
-    return profile?.settings || null;
+  public async setActiveSlot(slot: string): Promise<void> {
+    this.assertSlotName(slot);
+    if (slot === this.slots.active) return;
+
+    await this.saveImmediately();
+    this.worldProvider = null;
+
+    this.slots = {
+      active: slot,
+      slots: this.slots.slots.includes(slot) ? this.slots.slots : [...this.slots.slots, slot],
+    };
+    await this.writeSlotsMeta();
+    logger.info(`🎰 Active save slot: ${slot}`, { source: 'persistence' });
   }
 
   /**
-   * Clear all saved data
+   * Remove every key of a slot. The active slot cannot be deleted.
    */
-  public clearAllData(): void {
+  public async deleteSlot(slot: string): Promise<void> {
+    if (slot === this.slots.active) {
+      throw new Error(`[PersistenceService] cannot delete the active slot "${slot}"`);
+    }
+    await this.removeSlotKeys(slot);
+    this.slots = { ...this.slots, slots: this.slots.slots.filter(s => s !== slot) };
+    await this.writeSlotsMeta();
+  }
+
+  /**
+   * Newest valid profile and world of a slot as a base64 string (for support tickets)
+   */
+  public async exportSlot(slot = this.slots.active): Promise<string> {
+    // Flush so the export matches what the player sees
+    if (slot === this.slots.active) await this.saveImmediately();
+
+    const readRaw = (type: SaveType) => this.loadWithFallback(type, slot, async (_envelope, raw) => raw);
+    const bundle: SlotExport = {
+      format: SLOT_EXPORT_FORMAT,
+      slot,
+      exportedAt: Date.now(),
+      profile: await readRaw('profile'),
+      world: await readRaw('world'),
+    };
+    return encodeBase64(JSON.stringify(bundle));
+  }
+
+  /**
+   * Write an `exportSlot` string into `slot` (current contents go to backups).
+   * Throws SaveCorruptedError if the string or its checksums do not verify.
+   * Importing into the active slot detaches the running world; reload it with
+   * profileInitService.switchSlot afterwards.
+   */
+  public async importSlot(encoded: string, slot = this.slots.active): Promise<void> {
+    this.assertSlotName(slot);
+
+    let bundle: SlotExport;
+    try {
+      bundle = JSON.parse(decodeBase64(encoded));
+    } catch (error) {
+      throw new SaveCorruptedError(`Cannot decode slot export: ${(error as Error).message}`);
+    }
+    if (bundle?.format !== SLOT_EXPORT_FORMAT || !bundle.profile) {
+      throw new SaveCorruptedError('Unsupported slot export');
+    }
+    // Throws on mismatch before anything is written
+    parseEnvelope(bundle.profile);
+    if (bundle.world) parseEnvelope(bundle.world);
+
+    if (slot === this.slots.active) {
+      // The running game must not overwrite the imported data
+      this.cancelScheduledSave();
+      this.worldProvider = null;
+    }
+
+    for (const [type, raw] of [['profile', bundle.profile], ['world', bundle.world]] as const) {
+      const key = this.keyFor(type, slot);
+      await this.rotateBackups(key);
+      if (raw) {
+        await this.storage.setItem(key, raw);
+      } else {
+        await this.storage.removeItem(key);
+      }
+    }
+    await this.registerSlot(slot);
+
+    logger.info(`📥 Slot imported into "${slot}"`, { from: bundle.slot, exportedAt: bundle.exportedAt, source: 'persistence' });
+  }
+
+  private keyFor(type: SaveType, slot: string): string {
+    return slotKey(type === 'profile' ? STORAGE_KEYS.PROFILE : STORAGE_KEYS.WORLD, slot);
+  }
+
+  /** Main key, then its backups newest-first, then `extraKeys` */
+  private candidateKeys(type: SaveType, slot: string, extraKeys: string[] = []): string[] {
+    const key = this.keyFor(type, slot);
+    return [key, ...Array.from({ length: MAX_BACKUPS }, (_, i) => backupKey(key, i + 1)), ...extraKeys];
+  }
+
+  private slotKeys(slot: string): string[] {
+    const keys = [slotKey(STORAGE_KEYS.PROFILE_BACKUP, slot)];
+    for (const type of ['profile', 'world'] as const) {
+      const key = this.keyFor(type, slot);
+      keys.push(key, ...Array.from({ length: MAX_BACKUPS }, (_, i) => backupKey(key, i + 1)));
+    }
+    if (slot === DEFAULT_SAVE_SLOT) keys.push(STORAGE_KEYS.SETTINGS);
+    return keys;
+  }
+
+  private async removeSlotKeys(slot: string): Promise<void> {
+    await Promise.all(this.slotKeys(slot).map(key => this.storage.removeItem(key)));
+  }
+
+  private assertSlotName(slot: string): void {
+    if (!SLOT_NAME_PATTERN.test(slot)) {
+      throw new Error(`[PersistenceService] invalid slot name "${slot}" (letters, digits, - and _, up to 32)`);
+    }
+  }
+
+  private async loadSlotsMeta(): Promise<void> {
+    try {
+      const raw = await this.storage.getItem(STORAGE_KEYS.SLOTS);
+      if (!raw) return;
+      const meta = JSON.parse(raw) as SlotsMeta;
+      if (typeof meta.active === 'string' && Array.isArray(meta.slots)) {
+        this.slots = { active: meta.active, slots: meta.slots.includes(meta.active) ? meta.slots : [...meta.slots, meta.active] };
+      }
+    } catch (error) {
+      logger.warn('⚠️ Slot index unreadable, using default slot', { error, source: 'persistence' });
+    }
+  }
+
+  private async registerSlot(slot: string): Promise<void> {
+    if (this.slots.slots.includes(slot)) return;
+    this.slots = { ...this.slots, slots: [...this.slots.slots, slot] };
+    await this.writeSlotsMeta();
+  }
+
+  private async writeSlotsMeta(): Promise<void> {
+    await this.storage.setItem(STORAGE_KEYS.SLOTS, JSON.stringify(this.slots));
+  }
+
+  /**
+   * Clear all saved data of the active slot
+   */
+  public async clearAllData(): Promise<void> {
     if (!this.isEnabled || this.destroyed) return;
 
     try {
-      Object.values(STORAGE_KEYS).forEach(key => {
-        localStorage.removeItem(key);
-      });
+      await this.removeSlotKeys(this.slots.active);
 
-      logger.info('🗑️ All data cleared', { source: 'persistence' });
+      logger.info('🗑️ All data cleared', { slot: this.slots.active, source: 'persistence' });
     } catch (error) {
       logger.error('❌ Failed to clear data:', error as Error, { source: 'persistence' });
     }
   }
 
   /**
-   * Get storage usage info
+   * Get storage usage info across all slots. `available` is Infinity when the backend reports no quota
    */
-  public getStorageInfo(): { used: number; available: number; percentage: number } {
+  public async getStorageInfo(): Promise<{ used: number; available: number; percentage: number; backend: string }> {
+    const backend = this.storage.name;
     if (!this.isEnabled) {
-      return { used: 0, available: 0, percentage: 0 };
+      return { used: 0, available: 0, percentage: 0, backend };
     }
 
     try {
-      let used = 0;
-      Object.values(STORAGE_KEYS).forEach(key => {
-        const item = localStorage.getItem(key);
-        if (item) {
-          used += item.length;
-        }
-      });
-
-      // Estimate available space (5MB is typical limit)
-      const available = 5 * 1024 * 1024 - used;
-      const percentage = (used / (5 * 1024 * 1024)) * 100;
-
-      return { used, available, percentage };
+      const keys = [STORAGE_KEYS.SLOTS, ...this.slots.slots.flatMap(slot => this.slotKeys(slot))];
+      const { used, quota } = await this.storage.estimate(keys);
+      if (quota === null) {
+        return { used, available: Infinity, percentage: 0, backend };
+      }
+      return { used, available: quota - used, percentage: (used / quota) * 100, backend };
     } catch (error) {
       logger.error('❌ Failed to get storage info:', error as Error, { source: 'persistence' });
-      return { used: 0, available: 0, percentage: 0 };
+      return { used: 0, available: 0, percentage: 0, backend };
+    }
+  }
+
+  /**
+   * Language preference from the saved profile, read before i18n and the profile store are set up
+   */
+  public async loadLanguagePreference(): Promise<string | undefined> {
+    try {
+      const settings = await this.loadWithFallback('profile', this.slots.active, async envelope =>
+        (envelope.data as Partial<PlayerProfile> | undefined)?.settings ?? null
+      );
+      return settings?.languagePreference;
+    } catch {
+      return undefined;
     }
   }
 
@@ -281,6 +807,7 @@ export class PersistenceService {
       }
     }
 
+    this.worldProvider = null;
     this.destroyed = true;
     logger.info('🧹 PersistenceService destroyed', { source: 'persistence' });
   }
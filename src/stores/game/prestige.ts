@@ -0,0 +1,31 @@
+import { computed } from 'nanostores';
+import { sanitizeAmount } from '@/shared/amount';
+import { profileStore, type PrestigeState } from './profile';
+
+// ─── Stores ─────────────────────────────────────────────────
+
+export const prestigeStore = computed(profileStore, profile => profile.prestige);
+
+export const prestigePointsStore = computed(prestigeStore, prestige => prestige.points);
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const prestigeActions = {
+  getState(): Readonly<PrestigeState> {
+    return profileStore.get().prestige;
+  },
+
+  setState(patch: Partial<PrestigeState>): void {
+    profileStore.setKey('prestige', { ...profileStore.get().prestige, ...patch });
+  },
+
+  /** Count credits towards this run and the lifetime total */
+  recordEarnings(credits: number): void {
+    const prestige = profileStore.get().prestige;
+    profileStore.setKey('prestige', {
+      ...prestige,
+      runEarnings: prestige.runEarnings.add(sanitizeAmount(credits)),
+      lifetimeEarnings: prestige.lifetimeEarnings.add(sanitizeAmount(credits)),
+    });
+  },
+};
@@ -0,0 +1,18 @@
+import { computed } from 'nanostores';
+import { profileStore, type ProductionSlotState } from './profile';
+
+// ─── Stores ─────────────────────────────────────────────────
+
+export const productionSlotsStore = computed(profileStore, profile => profile.production);
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const productionActions = {
+  getSlots(): readonly ProductionSlotState[] {
+    return profileStore.get().production;
+  },
+
+  setSlots(slots: ProductionSlotState[]): void {
+    profileStore.setKey('production', slots);
+  },
+};
@@ -1,9 +1,8 @@
 import { eventBus } from '@/engine/events';
 import { logger } from '@/engine/logging';
-import { map } from 'nanostores';
-
-/** Storage key for the persisted profile. Kept in sync with PersistenceService. */
-const PROFILE_STORAGE_KEY = 'idle-neon-miner-profile';
+import { computed, map } from 'nanostores';
+import { z } from 'zod';
+import { BigNum, FormatUtils, NUMBER_NOTATIONS, type NumberNotation } from '@/shared';
 
 /**
  * Player settings interface - только вкл/выкл
@@ -15,17 +14,221 @@ export interface PlayerSettings {
   };
   /** 'system' or a SupportedLocale code. Optional; absent = use system. */
   languagePreference?: string;
+  /** How large numbers are shown. Optional; absent = 'suffix' */
+  numberNotation?: NumberNotation;
   version: string;
 }
 
+/**
+ * What happens to mined items that don't fit into the warehouse:
+ * dropped, mining stops until there is room, or sold on the spot
+ */
+export type OverflowPolicy = 'discard' | 'pause' | 'autoSell';
+
+export interface ItemStack {
+  itemId: string;
+  count: number;
+}
+
+export interface WarehouseState {
+  /** One entry per occupied slot, in insertion order */
+  stacks: ItemStack[];
+  overflowPolicy: OverflowPolicy;
+}
+
+export interface ProductionSlotState {
+  /** Recipe ids; the first one is running. Inputs are paid when a job is queued */
+  queue: string[];
+  /** Seconds the running job has been processing */
+  progress: number;
+}
+
+export interface ResearchState {
+  /** Finished node ids, in completion order */
+  completed: string[];
+  /** Node being researched; its cost is already paid */
+  active: { nodeId: string; progress: number } | null;
+}
+
+export interface MarketState {
+  /** Current price per unit in credits, by resource id. Missing id = base price */
+  prices: Record<string, number>;
+  /** Recent prices, oldest first (capped at PRICE_HISTORY_LENGTH) */
+  history: Record<string, number[]>;
+  /** State of the market's own seeded RNG, so drift continues the same sequence after a load */
+  rngState: number;
+}
+
+export interface PrestigeState {
+  /** Meta-currency earned over all resets; never reset */
+  points: number;
+  /** Prestiges performed */
+  resets: number;
+  /** Credits earned since the last prestige */
+  runEarnings: BigNum;
+  /** Credits earned over the profile's lifetime — points are computed from this */
+  lifetimeEarnings: BigNum;
+}
+
+export interface AchievementsState {
+  /** Unlock time (ms since epoch) by achievement id */
+  unlocked: Record<string, number>;
+  /** Counter progress by achievement id; dropped once the achievement unlocks */
+  progress: Record<string, number>;
+}
+
+export type MissionPeriod = 'daily' | 'weekly';
+
+export interface MissionSlotState {
+  missionId: string;
+  progress: number;
+  claimed: boolean;
+}
+
+export interface MissionBoardState {
+  /** Period the slots were rolled for (see game/missions/period.ts); '' before the first roll */
+  periodKey: string;
+  slots: MissionSlotState[];
+}
+
+export interface MissionsState {
+  daily: MissionBoardState;
+  weekly: MissionBoardState;
+  streak: {
+    /** Consecutive days with a login, today included */
+    count: number;
+    /** Day index of the last login; null before the first */
+    lastDay: number | null;
+    /** Day index whose streak reward was claimed */
+    claimedDay: number | null;
+  };
+  /** Highest trusted time seen (ms) — the clock checks the device time against it on load */
+  lastSeenAt: number | null;
+}
+
+/**
+ * One timed boost grant. Grants of the same boost stack by its rule (see game/boosts)
+ */
+export interface ActiveBoostState {
+  boostId: string;
+  multiplier: number;
+  /** Trusted wall-clock time (clockService, ms) when it runs out — keeps counting while the app is closed */
+  expiresAt: number;
+  /** Where it came from: 'ad', 'iap', 'mission:<id>', 'streak'… */
+  source: string;
+}
+
 /**
  * Player profile interface - полный профиль игрока
  */
 export interface PlayerProfile {
   settings: PlayerSettings;
+  /** Resource amounts by resource id (see game/economy). Missing id = 0 */
+  resources: Record<string, BigNum>;
+  /** Owned generator count by generator id */
+  generators: Record<string, number>;
+  /** Purchased level by upgrade id */
+  upgrades: Record<string, number>;
+  warehouse: WarehouseState;
+  /** Refinery slots (index = slot number) */
+  production: ProductionSlotState[];
+  research: ResearchState;
+  market: MarketState;
+  prestige: PrestigeState;
+  achievements: AchievementsState;
+  missions: MissionsState;
+  boosts: ActiveBoostState[];
   version: string;
 }
 
+/** Non-negative BigNum, stored as its toJSON string. Plain numbers are read too (saves before 1.11.0) */
+const amountSchema = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  const amount = BigNum.fromJSON(value);
+  if (!amount || amount.lt(0)) {
+    ctx.addIssue({ code: 'custom', message: `Not a non-negative amount: ${value}` });
+    return z.NEVER;
+  }
+  return amount;
+});
+
+const missionBoardSchema = z.object({
+  periodKey: z.string(),
+  slots: z.array(z.object({
+    missionId: z.string(),
+    progress: z.number().nonnegative(),
+    claimed: z.boolean(),
+  })),
+});
+
+/**
+ * Schema of a stored profile. Loaded (and migrated) data must pass it before it reaches the store;
+ * unknown keys are stripped. Extend together with PlayerProfile.
+ */
+export const playerProfileSchema: z.ZodType<PlayerProfile> = z.object({
+  settings: z.object({
+    audio: z.object({
+      musicEnabled: z.boolean(),
+      sfxEnabled: z.boolean(),
+    }),
+    languagePreference: z.string().optional(),
+    numberNotation: z.enum(NUMBER_NOTATIONS).optional(),
+    version: z.string(),
+  }),
+  resources: z.record(z.string(), amountSchema),
+  generators: z.record(z.string(), z.number().int().nonnegative()),
+  upgrades: z.record(z.string(), z.number().int().nonnegative()),
+  warehouse: z.object({
+    stacks: z.array(z.object({
+      itemId: z.string(),
+      count: z.number().int().positive(),
+    })),
+    overflowPolicy: z.enum(['discard', 'pause', 'autoSell']),
+  }),
+  production: z.array(z.object({
+    queue: z.array(z.string()),
+    progress: z.number().nonnegative(),
+  })),
+  research: z.object({
+    completed: z.array(z.string()),
+    active: z.object({
+      nodeId: z.string(),
+      progress: z.number().nonnegative(),
+    }).nullable(),
+  }),
+  market: z.object({
+    prices: z.record(z.string(), z.number().positive()),
+    history: z.record(z.string(), z.array(z.number().positive())),
+    rngState: z.number().int().nonnegative(),
+  }),
+  prestige: z.object({
+    points: z.number().int().nonnegative(),
+    resets: z.number().int().nonnegative(),
+    runEarnings: amountSchema,
+    lifetimeEarnings: amountSchema,
+  }),
+  achievements: z.object({
+    unlocked: z.record(z.string(), z.number()),
+    progress: z.record(z.string(), z.number().nonnegative()),
+  }),
+  missions: z.object({
+    daily: missionBoardSchema,
+    weekly: missionBoardSchema,
+    streak: z.object({
+      count: z.number().int().nonnegative(),
+      lastDay: z.number().int().nullable(),
+      claimedDay: z.number().int().nullable(),
+    }),
+    lastSeenAt: z.number().nullable(),
+  }),
+  boosts: z.array(z.object({
+    boostId: z.string(),
+    multiplier: z.number().positive(),
+    expiresAt: z.number(),
+    source: z.string(),
+  })),
+  version: z.string(),
+});
+
 /**
  * Default settings values
  */
@@ -42,7 +245,41 @@ const DEFAULT_SETTINGS: PlayerSettings = {
  */
 const DEFAULT_PROFILE: PlayerProfile = {
   settings: DEFAULT_SETTINGS,
-  version: '1.0.0',
+  resources: {},
+  generators: {},
+  upgrades: {},
+  warehouse: {
+    stacks: [],
+    overflowPolicy: 'pause',
+  },
+  production: [],
+  research: {
+    completed: [],
+    active: null,
+  },
+  market: {
+    prices: {},
+    history: {},
+    rngState: 0,
+  },
+  prestige: {
+    points: 0,
+    resets: 0,
+    runEarnings: BigNum.ZERO,
+    lifetimeEarnings: BigNum.ZERO,
+  },
+  achievements: {
+    unlocked: {},
+    progress: {},
+  },
+  missions: {
+    daily: { periodKey: '', slots: [] },
+    weekly: { periodKey: '', slots: [] },
+    streak: { count: 0, lastDay: null, claimedDay: null },
+    lastSeenAt: null,
+  },
+  boosts: [],
+  version: '1.11.0',
 };
 
 /**
@@ -50,6 +287,12 @@ const DEFAULT_PROFILE: PlayerProfile = {
  */
 export const profileStore = map<PlayerProfile>(DEFAULT_PROFILE);
 
+/** Player's number notation. FormatUtils follows it, so formatNumber without an explicit notation uses it too */
+export const numberNotationStore = computed(profileStore, profile => profile.settings.numberNotation ?? 'suffix');
+numberNotationStore.subscribe(notation => {
+  FormatUtils.notation = notation;
+});
+
 /**
  * Profile actions
  */
@@ -68,6 +311,14 @@ export const profileActions = {
     
     profileStore.setKey('settings', { ...current.settings, audio: newAudio });
   },
+
+  /**
+   * Switch how large numbers are shown
+   */
+  updateNumberNotation(numberNotation: NumberNotation): void {
+    const current = profileStore.get();
+    profileStore.setKey('settings', { ...current.settings, numberNotation });
+  },
   
   /**
    * Reset profile to defaults
@@ -81,6 +332,24 @@ export const profileActions = {
     eventBus.emit('profile-reset');
   },
   
+  /**
+   * Put the given sections back to their defaults (prestige). Everything else is kept
+   */
+  resetSections(sections: readonly Exclude<keyof PlayerProfile, 'version'>[]): void {
+    const profile = { ...profileStore.get() };
+    for (const section of sections) {
+      Object.assign(profile, { [section]: structuredClone(DEFAULT_PROFILE[section]) });
+    }
+    profileStore.set(profile);
+  },
+
+  /**
+   * Replace the whole profile (save slot switch). Unlike resetProfile, does not clear storage
+   */
+  replaceProfile(profile: Partial<PlayerProfile>): void {
+    profileStore.set({ ...DEFAULT_PROFILE, ...profile });
+  },
+
   /**
    * Get current profile (read-only)
    */
@@ -117,21 +386,3 @@ export const profileSelectors = {
   settings: () => profileStore.get().settings,
   audio: () => profileStore.get().settings.audio,
 };
-
-/**
- * Read the persisted language preference directly from localStorage,
- * without initializing the full PersistenceService.
- *
- * Used by main.ts to seed i18n before Svelte mounts.
- * Returns undefined when no value is persisted or storage is unavailable.
- */
-export function getPersistedLanguagePreference(): string | undefined {
-  try {
-    const raw = localStorage.getItem(PROFILE_STORAGE_KEY);
-    if (!raw) return undefined;
-    const parsed = JSON.parse(raw) as { data?: PlayerProfile };
-    return parsed?.data?.settings?.languagePreference;
-  } catch {
-    return undefined;
-  }
-}
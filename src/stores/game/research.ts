@@ -0,0 +1,35 @@
+import { computed } from 'nanostores';
+import { profileStore, type ResearchState } from './profile';
+
+// ─── Stores ─────────────────────────────────────────────────
+
+export const researchStore = computed(profileStore, profile => profile.research);
+
+export const completedResearchStore = computed(researchStore, research => new Set(research.completed));
+
+export const activeResearchStore = computed(researchStore, research => research.active);
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const researchActions = {
+  getState(): Readonly<ResearchState> {
+    return profileStore.get().research;
+  },
+
+  isCompleted(nodeId: string): boolean {
+    return profileStore.get().research.completed.includes(nodeId);
+  },
+
+  setActive(active: ResearchState['active']): void {
+    profileStore.setKey('research', { ...profileStore.get().research, active });
+  },
+
+  /** Mark a node done and clear the active slot */
+  complete(nodeId: string): void {
+    const { completed } = profileStore.get().research;
+    profileStore.setKey('research', {
+      completed: completed.includes(nodeId) ? completed : [...completed, nodeId],
+      active: null,
+    });
+  },
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createEnvelope, decodeBase64, encodeBase64, parseEnvelope, SaveCorruptedError } from './saveEnvelope';
+
+describe('parseEnvelope', () => {
+  it('reads back what createEnvelope wrote', () => {
+    const envelope = createEnvelope({ credits: '1.5e3' }, '1.11.0');
+    expect(parseEnvelope(JSON.stringify(envelope))).toEqual(envelope);
+  });
+
+  it('rejects tampered data, timestamps and versions', () => {
+    const envelope = createEnvelope({ credits: 10 }, '1.11.0');
+    for (const tampered of [
+      { ...envelope, data: { credits: 10_000 } },
+      { ...envelope, timestamp: envelope.timestamp - 1 },
+      { ...envelope, version: '1.10.0' },
+    ]) {
+      expect(() => parseEnvelope(JSON.stringify(tampered))).toThrow(SaveCorruptedError);
+    }
+  });
+
+  it('rejects truncated JSON and non-envelopes', () => {
+    const raw = JSON.stringify(createEnvelope({ credits: 10 }, '1.11.0'));
+    expect(() => parseEnvelope(raw.slice(0, -5))).toThrow(SaveCorruptedError);
+    expect(() => parseEnvelope('{"credits":10}')).toThrow(SaveCorruptedError);
+  });
+
+  it('accepts envelopes written before checksums', () => {
+    const { checksum: _checksum, ...legacy } = createEnvelope({ credits: 10 }, '1.0.0');
+    expect(parseEnvelope(JSON.stringify(legacy)).data).toEqual({ credits: 10 });
+  });
+});
+
+describe('base64', () => {
+  it('round-trips non-Latin1 text', () => {
+    const text = 'Слот «main» ✓';
+    expect(decodeBase64(encodeBase64(text))).toBe(text);
+  });
+});
@@ -0,0 +1,63 @@
+import { hashString } from '@/engine/storage/checksum';
+import { clockService } from '@/engine/time';
+
+/**
+ * What PersistenceService writes under every key
+ */
+export interface SaveEnvelope<T = unknown> {
+  data: T;
+  /** Trusted wall-clock ms (clockService) */
+  timestamp: number;
+  version: string;
+  /** Absent in saves written before checksums were introduced */
+  checksum?: string;
+}
+
+export class SaveCorruptedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveCorruptedError';
+  }
+}
+
+function checksumOf(data: unknown, timestamp: number, version: string): string {
+  return hashString(`${version}|${timestamp}|${JSON.stringify(data)}`);
+}
+
+export function createEnvelope<T>(data: T, version: string): SaveEnvelope<T> {
+  const timestamp = clockService.now();
+  return { data, timestamp, version, checksum: checksumOf(data, timestamp, version) };
+}
+
+/**
+ * Parse and verify a stored envelope. Throws SaveCorruptedError on truncated JSON,
+ * a wrong shape or a checksum mismatch. Legacy envelopes without checksum are accepted.
+ */
+export function parseEnvelope<T = unknown>(raw: string): SaveEnvelope<T> {
+  let parsed: SaveEnvelope<T>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new SaveCorruptedError(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !('data' in parsed) || typeof parsed.timestamp !== 'number') {
+    throw new SaveCorruptedError('Not a save envelope');
+  }
+  if (parsed.checksum !== undefined && parsed.checksum !== checksumOf(parsed.data, parsed.timestamp, parsed.version)) {
+    throw new SaveCorruptedError('Checksum mismatch');
+  }
+  return parsed;
+}
+
+/** UTF-8 safe base64 — btoa alone throws on non-Latin1 (player-entered names, locales) */
+export function encodeBase64(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function decodeBase64(encoded: string): string {
+  const binary = atob(encoded.trim());
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+}
@@ -0,0 +1,19 @@
+import { computed } from 'nanostores';
+import { profileStore } from './profile';
+
+// ─── Stores ─────────────────────────────────────────────────
+
+/** Purchased level by upgrade id (missing id = level 0) */
+export const upgradesStore = computed(profileStore, profile => profile.upgrades);
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const upgradeActions = {
+  getLevel(upgradeId: string): number {
+    return profileStore.get().upgrades[upgradeId] ?? 0;
+  },
+
+  setLevel(upgradeId: string, level: number): void {
+    profileStore.setKey('upgrades', { ...profileStore.get().upgrades, [upgradeId]: level });
+  },
+};
@@ -0,0 +1,38 @@
+import { computed } from 'nanostores';
+import { profileStore, type ItemStack, type OverflowPolicy } from './profile';
+
+// ─── Stores ─────────────────────────────────────────────────
+
+export const warehouseStore = computed(profileStore, profile => profile.warehouse);
+
+export const warehouseStacksStore = computed(warehouseStore, warehouse => warehouse.stacks);
+
+export const overflowPolicyStore = computed(warehouseStore, warehouse => warehouse.overflowPolicy);
+
+/** Occupied slots */
+export const usedSlotsStore = computed(warehouseStacksStore, stacks => stacks.length);
+
+/** Total count per item id across all stacks */
+export const itemTotalsStore = computed(warehouseStacksStore, stacks => {
+  const totals: Record<string, number> = {};
+  for (const stack of stacks) {
+    totals[stack.itemId] = (totals[stack.itemId] ?? 0) + stack.count;
+  }
+  return totals;
+});
+
+// ─── Actions ────────────────────────────────────────────────
+
+export const warehouseActions = {
+  getStacks(): readonly ItemStack[] {
+    return profileStore.get().warehouse.stacks;
+  },
+
+  setStacks(stacks: ItemStack[]): void {
+    profileStore.setKey('warehouse', { ...profileStore.get().warehouse, stacks });
+  },
+
+  setOverflowPolicy(overflowPolicy: OverflowPolicy): void {
+    profileStore.setKey('warehouse', { ...profileStore.get().warehouse, overflowPolicy });
+  },
+};
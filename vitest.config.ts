@@ -0,0 +1,10 @@
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig from './vite.config';
+
+export default mergeConfig(viteConfig, defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Stores and services touch window/document/localStorage on import
+    environment: 'happy-dom',
+  },
+}));